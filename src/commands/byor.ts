@@ -0,0 +1,95 @@
+/**
+ * Build Your Own Radar Commands
+ * Import blips from a BYOR CSV or JSON file in the vault, and export the active radar
+ * as one next to the .radar file
+ */
+
+import { Notice, TFile } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarView } from "../ui/RadarView";
+import { ChoiceModal } from "../ui/ChoiceModal";
+import { ByorFormat, parseByor, serializeByor, radarToByor } from "../utils/byor";
+import { chooseExportPath } from "./exportImage";
+
+/**
+ * Ask for a CSV or JSON file, then import its entries into the radar
+ */
+export function importByorCommand(plugin: RadarPlugin, view: RadarView): void {
+	const files = plugin.app.vault.getFiles().filter((file) => file.extension === "csv" || file.extension === "json");
+	if (files.length === 0) {
+		new Notice("No CSV or JSON files in the vault");
+		return;
+	}
+
+	new ChoiceModal(plugin.app, files, (file) => file.path, "Choose a CSV or JSON file...", (file) => {
+		void importByor(plugin, view, file);
+	}).open();
+}
+
+async function importByor(plugin: RadarPlugin, view: RadarView, file: TFile): Promise<void> {
+	try {
+		const content = await plugin.app.vault.read(file);
+		const entries = parseByor(content, file.extension === "csv" ? "csv" : "json");
+		if (entries.length === 0) {
+			new Notice(`No entries found in ${file.name}`);
+			return;
+		}
+
+		const plan = view.importByor(entries);
+		if (!plan) return;
+		const { skipped } = plan;
+		const imported = entries.length - skipped.length;
+		const messages = [
+			skipped.length > 0
+				? `Imported ${imported} of ${entries.length} entries. ${skipped.length} need more rings or segments than a radar can have.`
+				: `Imported ${imported} entries from ${file.name}`,
+		];
+		// Added rings and segments resize the existing ones, so say so
+		if (plan.addedRings > 0) {
+			messages.push(`Added ${plural(plan.addedRings, "ring")}; all rings now have the same width.`);
+		}
+		if (plan.addedSegments > 0) {
+			messages.push(`Added ${plural(plan.addedSegments, "segment")}; all segments now have the same size.`);
+		}
+		new Notice(messages.join(" "));
+	} catch (error) {
+		console.error("Failed to import radar entries:", error);
+		new Notice(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Ask where to write the file, then export the radar's blips as a BYOR sheet next to the .radar file
+ */
+export function exportByorCommand(plugin: RadarPlugin, view: RadarView, format: ByorFormat): void {
+	const file = view.file;
+	if (!file) return;
+
+	chooseExportPath(plugin, file, format, (path) => {
+		void exportByor(plugin, view, path, format);
+	});
+}
+
+async function exportByor(plugin: RadarPlugin, view: RadarView, path: string, format: ByorFormat): Promise<void> {
+	const source = view.getExportSource();
+	if (!source) return;
+
+	const { vault } = plugin.app;
+	try {
+		const content = serializeByor(radarToByor(source.radarData, view.getNewBlipIds()), format);
+		const existing = vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await vault.modify(existing, content);
+		} else {
+			await vault.create(path, content);
+		}
+		new Notice(`Exported radar to ${path}`);
+	} catch (error) {
+		console.error("Failed to export radar:", error);
+		new Notice(`Could not export radar: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
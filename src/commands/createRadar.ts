@@ -1,10 +1,14 @@
 /**
  * Create Radar Command
- * Creates a new radar file and opens it directly (like creating a new note)
+ * Lets the user pick a template, then creates a new radar file and opens it
+ * directly (like creating a new note)
  */
 
-import { TFolder } from "obsidian";
+import { Notice, TFile, TFolder } from "obsidian";
 import type RadarPlugin from "../main";
+import type { RadarTemplate } from "../types";
+import { BUILT_IN_TEMPLATES } from "../data/templates";
+import { TemplatePickerModal } from "../ui/TemplatePickerModal";
 
 /**
  * Generate a unique "Untitled" filename
@@ -29,7 +33,29 @@ function getUntitledName(plugin: RadarPlugin): string {
 	return `${baseName} ${counter}`;
 }
 
+/**
+ * Collect the blank layout, built-in templates and templates from the vault
+ */
+async function getTemplates(plugin: RadarPlugin): Promise<RadarTemplate[]> {
+	const blank: RadarTemplate = {
+		name: "Blank radar",
+		description: "Rings and segments from the plugin settings",
+		data: plugin.radarStore.createNewRadarData(),
+	};
+	const vaultTemplates = await plugin.radarStore.loadTemplates(plugin.settings.templateFolder);
+
+	return [blank, ...BUILT_IN_TEMPLATES, ...vaultTemplates];
+}
+
 export async function createRadarCommand(plugin: RadarPlugin): Promise<void> {
+	const templates = await getTemplates(plugin);
+
+	new TemplatePickerModal(plugin.app, templates, (template) => {
+		void createRadarFromTemplate(plugin, template);
+	}).open();
+}
+
+async function createRadarFromTemplate(plugin: RadarPlugin, template: RadarTemplate): Promise<void> {
 	// Get the active folder or use root
 	const activeFile = plugin.app.workspace.getActiveFile();
 	const folder = activeFile?.parent instanceof TFolder ? activeFile.parent : null;
@@ -38,7 +64,18 @@ export async function createRadarCommand(plugin: RadarPlugin): Promise<void> {
 	const name = getUntitledName(plugin);
 
 	// Create the radar file
-	const file = await plugin.radarStore.createRadar(name, folder ?? undefined);
+	const radarData = plugin.radarStore.createRadarDataFromTemplate(
+		template.data,
+		plugin.settings.copyTemplateBlips
+	);
+	let file: TFile;
+	try {
+		file = await plugin.radarStore.createRadar(name, folder ?? undefined, radarData);
+	} catch (error) {
+		console.error("Failed to create radar:", error);
+		new Notice(`Could not create the radar: ${error instanceof Error ? error.message : String(error)}`);
+		return;
+	}
 
 	// Open the radar in the active leaf (like opening a new note)
 	const leaf = plugin.app.workspace.getLeaf(false);
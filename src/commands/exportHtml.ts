@@ -0,0 +1,142 @@
+/**
+ * Export HTML Command
+ * Writes the active radar as an interactive, self-contained HTML page next to the .radar file
+ */
+
+import { Component, MarkdownRenderer, Notice, TFile } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarData } from "../types";
+import type { RadarView } from "../ui/RadarView";
+import { ExportPalette, buildExportSvg } from "../utils/svgExport";
+import { HtmlBlipContent, buildHtmlExport } from "../utils/htmlExport";
+import { choosePalette, chooseExportPath } from "./exportImage";
+
+/** Characters of a description shown in the tooltip */
+const SUMMARY_LENGTH = 160;
+
+/**
+ * Ask for a palette and where to write the file, then export
+ */
+export function exportHtmlCommand(plugin: RadarPlugin, view: RadarView): void {
+	const file = view.file;
+	if (!file) return;
+
+	choosePalette(plugin, (palette) => {
+		chooseExportPath(plugin, file, "html", (path) => {
+			void exportHtml(plugin, view, file, path, palette);
+		});
+	});
+}
+
+/**
+ * Render markdown the way Obsidian shows it. Links to notes of other blips open
+ * those blips in the page; other vault links and vault images mean nothing outside
+ * Obsidian and become plain text or are dropped.
+ */
+async function renderMarkdown(
+	plugin: RadarPlugin,
+	markdown: string,
+	sourcePath: string,
+	blipIdsByPath: Map<string, string>
+): Promise<HTMLElement> {
+	const element = document.createElement("div");
+	const component = new Component();
+	component.load();
+	try {
+		await MarkdownRenderer.render(plugin.app, markdown, element, sourcePath, component);
+	} finally {
+		component.unload();
+	}
+
+	element.querySelectorAll("a.internal-link").forEach((link) => {
+		const target = plugin.app.metadataCache.getFirstLinkpathDest(link.getAttribute("data-href") ?? "", sourcePath);
+		const blipId = target ? blipIdsByPath.get(target.path) : undefined;
+		if (blipId) {
+			link.setAttribute("href", "#");
+			link.setAttribute("data-blip-id", blipId);
+			link.removeAttribute("target");
+		} else {
+			link.replaceWith(document.createTextNode(link.textContent ?? ""));
+		}
+	});
+	element.querySelectorAll("img").forEach((image) => {
+		if (!/^(https?:|data:)/.test(image.getAttribute("src") ?? "")) image.remove();
+	});
+	element.querySelectorAll(".copy-code-button").forEach((button) => button.remove());
+	return element;
+}
+
+/**
+ * Note content without its properties block
+ */
+async function readNoteBody(plugin: RadarPlugin, file: TFile): Promise<string> {
+	const content = await plugin.app.vault.cachedRead(file);
+	const position = plugin.app.metadataCache.getFileCache(file)?.frontmatterPosition;
+	return position ? content.slice(position.end.offset) : content;
+}
+
+/**
+ * Render the descriptions and linked notes of all blips
+ */
+async function renderBlipContent(plugin: RadarPlugin, radarData: RadarData, radarPath: string): Promise<Map<string, HtmlBlipContent>> {
+	const blipIdsByPath = new Map<string, string>();
+	for (const blip of radarData.blips) {
+		if (blip.notePath && !blip.orphaned) blipIdsByPath.set(blip.notePath, blip.id);
+	}
+
+	const content = new Map<string, HtmlBlipContent>();
+	for (const blip of radarData.blips) {
+		const blipContent: HtmlBlipContent = {};
+		let summary = "";
+		if (blip.description?.trim()) {
+			const description = await renderMarkdown(plugin, blip.description, radarPath, blipIdsByPath);
+			blipContent.description = description.innerHTML;
+			summary = description.textContent ?? "";
+		}
+
+		const note = blip.notePath && !blip.orphaned ? plugin.app.vault.getFileByPath(blip.notePath) : null;
+		if (note) {
+			const body = await readNoteBody(plugin, note);
+			if (body.trim()) {
+				const rendered = await renderMarkdown(plugin, body, note.path, blipIdsByPath);
+				blipContent.note = rendered.innerHTML;
+				// Note blips without a description are summed up by their note
+				summary ||= rendered.textContent ?? "";
+			}
+		}
+
+		summary = summary.replace(/\s+/g, " ").trim();
+		blipContent.summary = summary.length > SUMMARY_LENGTH ? `${summary.slice(0, SUMMARY_LENGTH - 1)}…` : summary;
+		content.set(blip.id, blipContent);
+	}
+	return content;
+}
+
+async function exportHtml(
+	plugin: RadarPlugin,
+	view: RadarView,
+	file: TFile,
+	path: string,
+	palette: ExportPalette
+): Promise<void> {
+	const source = view.getExportSource();
+	if (!source) return;
+
+	const { vault } = plugin.app;
+	try {
+		const { svg } = buildExportSvg(source.svg, source.radarData, palette, { legend: false });
+		const content = await renderBlipContent(plugin, source.radarData, file.path);
+		const html = buildHtmlExport(svg, source.radarData, palette, file.basename, content);
+
+		const existing = vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await vault.modify(existing, html);
+		} else {
+			await vault.create(path, html);
+		}
+		new Notice(`Exported radar to ${path}`);
+	} catch (error) {
+		console.error("Failed to export radar:", error);
+		new Notice(`Could not export radar: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
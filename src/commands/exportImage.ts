@@ -0,0 +1,114 @@
+/**
+ * Export Image Command
+ * Writes the active radar as a standalone SVG or PNG file next to the .radar file
+ */
+
+import { Notice, TFile, normalizePath } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarView } from "../ui/RadarView";
+import { ChoiceModal } from "../ui/ChoiceModal";
+import {
+	EXPORT_PALETTES,
+	ExportPalette,
+	buildExportSvg,
+	serializeSvg,
+	svgToPng,
+} from "../utils/svgExport";
+
+export type ImageFormat = "svg" | "png";
+
+/**
+ * Ask for an export palette, offering the current theme first
+ */
+export function choosePalette(plugin: RadarPlugin, onChoose: (palette: ExportPalette) => void): void {
+	const currentTheme = document.body.hasClass("theme-dark") ? "dark" : "light";
+	const palettes = [...EXPORT_PALETTES].sort(
+		(a, b) => Number(b.id === currentTheme) - Number(a.id === currentTheme)
+	);
+
+	new ChoiceModal(plugin.app, palettes, (palette) => palette.name, "Choose a color palette...", onChoose).open();
+}
+
+/**
+ * Path of an export next to the radar file. When a file is already there, ask whether
+ * to replace it or to write a new file with a number after the name.
+ */
+export function chooseExportPath(
+	plugin: RadarPlugin,
+	radarFile: TFile,
+	extension: string,
+	onChoose: (path: string) => void
+): void {
+	const { vault } = plugin.app;
+	const folder = radarFile.parent?.path ?? "";
+	const pathWithSuffix = (suffix: string) => normalizePath(`${folder}/${radarFile.basename}${suffix}.${extension}`);
+
+	const path = pathWithSuffix("");
+	if (!vault.getAbstractFileByPath(path)) {
+		onChoose(path);
+		return;
+	}
+
+	let number = 1;
+	while (vault.getAbstractFileByPath(pathWithSuffix(` ${number}`))) {
+		number++;
+	}
+	const options = [
+		{ label: `Save as ${pathWithSuffix(` ${number}`)}`, path: pathWithSuffix(` ${number}`) },
+		{ label: `Replace ${path}`, path },
+	];
+	new ChoiceModal(plugin.app, options, (option) => option.label, `${path} already exists`, (option) => {
+		onChoose(option.path);
+	}).open();
+}
+
+/**
+ * Ask for a palette and where to write the file, then export
+ */
+export function exportImageCommand(plugin: RadarPlugin, view: RadarView, format: ImageFormat): void {
+	const file = view.file;
+	if (!file) return;
+
+	choosePalette(plugin, (palette) => {
+		chooseExportPath(plugin, file, format, (path) => {
+			void exportImage(plugin, view, path, palette, format);
+		});
+	});
+}
+
+async function exportImage(
+	plugin: RadarPlugin,
+	view: RadarView,
+	path: string,
+	palette: ExportPalette,
+	format: ImageFormat
+): Promise<void> {
+	const source = view.getExportSource();
+	if (!source) return;
+
+	const { vault } = plugin.app;
+	try {
+		const { svg, width, height } = buildExportSvg(source.svg, source.radarData, palette);
+		const markup = serializeSvg(svg);
+		const existing = vault.getAbstractFileByPath(path);
+
+		if (format === "svg") {
+			if (existing instanceof TFile) {
+				await vault.modify(existing, markup);
+			} else {
+				await vault.create(path, markup);
+			}
+		} else {
+			const png = await svgToPng(markup, width, height);
+			if (existing instanceof TFile) {
+				await vault.modifyBinary(existing, png);
+			} else {
+				await vault.createBinary(path, png);
+			}
+		}
+		new Notice(`Exported radar to ${path}`);
+	} catch (error) {
+		console.error("Failed to export radar:", error);
+		new Notice(`Could not export radar: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
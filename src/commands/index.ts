@@ -5,6 +5,11 @@
 
 import type RadarPlugin from "../main";
 import { createRadarCommand } from "./createRadar";
+import { exportImageCommand } from "./exportImage";
+import { exportHtmlCommand } from "./exportHtml";
+import { importByorCommand, exportByorCommand } from "./byor";
+import { generateReportCommand, insertReportCommand, refreshReportsCommand, hasReports } from "./report";
+import { RadarView } from "../ui/RadarView";
 
 export function registerCommands(plugin: RadarPlugin): void {
 	// Create new radar
@@ -13,4 +18,224 @@ export function registerCommands(plugin: RadarPlugin): void {
 		name: "Create new",
 		callback: () => createRadarCommand(plugin),
 	});
+
+	// Undo/redo in the active radar (no default hotkeys; Mod+Z works inside the view)
+	plugin.addCommand({
+		id: "radar:undo",
+		name: "Undo last edit",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.canUndo()) return false;
+			if (!checking) view.undo();
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:redo",
+		name: "Redo last edit",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.canRedo()) return false;
+			if (!checking) view.redo();
+			return true;
+		},
+	});
+
+	// Spread the blips of the active radar evenly inside their rings and segments
+	plugin.addCommand({
+		id: "radar:auto-arrange",
+		name: "Auto-arrange blips",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasRadar()) return false;
+			if (!checking) view.autoArrange();
+			return true;
+		},
+	});
+
+	// Ring and segment changes of the active radar
+	plugin.addCommand({
+		id: "radar:toggle-timeline",
+		name: "Toggle timeline",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasRadar()) return false;
+			if (!checking) view.toggleTimeline();
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:toggle-trails",
+		name: "Toggle blip trails",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasRadar()) return false;
+			if (!checking) view.toggleTrails();
+			return true;
+		},
+	});
+
+	// Snapshots of the active radar, and comparing it with one
+	plugin.addCommand({
+		id: "radar:take-snapshot",
+		name: "Take snapshot",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasRadar()) return false;
+			if (!checking) view.openSnapshotModal();
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:compare-snapshot",
+		name: "Compare with snapshot",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasRadar()) return false;
+			if (!checking) view.openCompareModal();
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:stop-comparing",
+		name: "Stop comparing",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.isComparing()) return false;
+			if (!checking) view.stopComparing();
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:delete-snapshot",
+		name: "Delete snapshot",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasSnapshots()) return false;
+			if (!checking) view.openDeleteSnapshotModal();
+			return true;
+		},
+	});
+
+	// Keep the active radar filled with the notes of a tag, folder or property
+	plugin.addCommand({
+		id: "radar:edit-source",
+		name: "Edit note source",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasRadar()) return false;
+			if (!checking) view.openSourceModal();
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:sync-source",
+		name: "Sync with note source",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasNoteSource()) return false;
+			if (!checking) view.syncSource();
+			return true;
+		},
+	});
+
+	// Export the active radar as an image or web page next to it
+	plugin.addCommand({
+		id: "radar:export-svg",
+		name: "Export as SVG",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.getExportSource()) return false;
+			if (!checking) exportImageCommand(plugin, view, "svg");
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:export-png",
+		name: "Export as PNG",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.getExportSource()) return false;
+			if (!checking) exportImageCommand(plugin, view, "png");
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:export-html",
+		name: "Export as interactive HTML",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.getExportSource()) return false;
+			if (!checking) exportHtmlCommand(plugin, view);
+			return true;
+		},
+	});
+
+	// Build Your Own Radar (Thoughtworks) sheets
+	plugin.addCommand({
+		id: "radar:import-byor",
+		name: "Import blips from CSV or JSON",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.hasRadar()) return false;
+			if (!checking) importByorCommand(plugin, view);
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:export-byor-csv",
+		name: "Export blips as CSV",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.getExportSource()) return false;
+			if (!checking) exportByorCommand(plugin, view, "csv");
+			return true;
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:export-byor-json",
+		name: "Export blips as JSON",
+		checkCallback: (checking) => {
+			const view = plugin.app.workspace.getActiveViewOfType(RadarView);
+			if (!view?.getExportSource()) return false;
+			if (!checking) exportByorCommand(plugin, view, "json");
+			return true;
+		},
+	});
+
+	// Markdown reports of radars, refreshable in place
+	plugin.addCommand({
+		id: "radar:generate-report",
+		name: "Generate report",
+		callback: () => generateReportCommand(plugin, plugin.app.workspace.getActiveViewOfType(RadarView)),
+	});
+
+	plugin.addCommand({
+		id: "radar:insert-report",
+		name: "Insert report",
+		editorCallback: (editor, ctx) => {
+			if (ctx.file) insertReportCommand(plugin, editor, ctx.file);
+		},
+	});
+
+	plugin.addCommand({
+		id: "radar:refresh-reports",
+		name: "Refresh reports in this note",
+		editorCheckCallback: (checking, editor, ctx) => {
+			const file = ctx.file;
+			if (!file || !hasReports(editor.getValue())) return false;
+			if (!checking) void refreshReportsCommand(plugin, editor, file);
+			return true;
+		},
+	});
 }
@@ -0,0 +1,148 @@
+/**
+ * Report Commands
+ * Write a markdown report of a radar next to it, insert one into a note, and refresh
+ * the reports a note already contains
+ */
+
+import { Editor, Notice, TFile, normalizePath } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarData } from "../types";
+import type { RadarView } from "../ui/RadarView";
+import { ChoiceModal } from "../ui/ChoiceModal";
+import { buildRadarReport, findReportBlocks, replaceReportBlocks } from "../utils/radarReport";
+
+/**
+ * Shortest wiki-link text for a note, seen from the report note
+ */
+function getLinkText(plugin: RadarPlugin, notePath: string, sourcePath: string): string {
+	const file = plugin.app.vault.getFileByPath(notePath);
+	return file
+		? plugin.app.metadataCache.fileToLinktext(file, sourcePath, true)
+		: notePath.replace(/\.md$/, "");
+}
+
+function buildReport(plugin: RadarPlugin, radarData: RadarData, radarPath: string, sourcePath: string): string {
+	return buildRadarReport(radarData, radarPath, (notePath) => getLinkText(plugin, notePath, sourcePath));
+}
+
+/**
+ * Pick one of the radar files in the vault
+ */
+function chooseRadarFile(plugin: RadarPlugin, onChoose: (file: TFile) => void): void {
+	const files = plugin.radarStore.listRadarFiles();
+	if (files.length === 0) {
+		new Notice("No radar files in the vault");
+		return;
+	}
+	new ChoiceModal(plugin.app, files, (file) => file.path, "Choose a radar...", onChoose).open();
+}
+
+/**
+ * Write or refresh "<radar> report.md" next to the radar and open it.
+ * Without a radar view the radar is picked from a list.
+ */
+export function generateReportCommand(plugin: RadarPlugin, view: RadarView | null): void {
+	const source = view?.getExportSource();
+	if (view?.file && source) {
+		void generateReport(plugin, view.file, source.radarData);
+		return;
+	}
+	chooseRadarFile(plugin, (file) => {
+		plugin.radarStore.loadRadar(file).then(
+			(radarData) => generateReport(plugin, file, radarData),
+			(error) => {
+				console.error("Failed to load radar:", error);
+				new Notice(`Could not read ${file.path}`);
+			}
+		);
+	});
+}
+
+async function generateReport(plugin: RadarPlugin, radarFile: TFile, radarData: RadarData): Promise<void> {
+	const { vault } = plugin.app;
+	const folder = radarFile.parent?.path ?? "";
+	const path = normalizePath(`${folder}/${radarFile.basename} report.md`);
+
+	try {
+		const report = buildReport(plugin, radarData, radarFile.path, path);
+		let file = vault.getFileByPath(path);
+		if (file) {
+			// Refresh the report in place; notes written around it stay as they are
+			await vault.process(file, (content) => {
+				const hasReport = findReportBlocks(content).some((block) => block.radarPath === radarFile.path);
+				return hasReport
+					? replaceReportBlocks(content, (radarPath) => (radarPath === radarFile.path ? report : null))
+					: `${content.trimEnd()}\n\n${report}\n`;
+			});
+		} else {
+			file = await vault.create(path, `${report}\n`);
+		}
+
+		await plugin.app.workspace.getLeaf("tab").openFile(file);
+		new Notice(`Report written to ${path}`);
+	} catch (error) {
+		console.error("Failed to write radar report:", error);
+		new Notice(`Could not write the report: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Pick a radar and insert its report at the cursor
+ */
+export function insertReportCommand(plugin: RadarPlugin, editor: Editor, note: TFile): void {
+	chooseRadarFile(plugin, (file) => {
+		plugin.radarStore.loadRadar(file).then(
+			(radarData) => editor.replaceSelection(`${buildReport(plugin, radarData, file.path, note.path)}\n`),
+			(error) => {
+				console.error("Failed to load radar:", error);
+				new Notice(`Could not read ${file.path}`);
+			}
+		);
+	});
+}
+
+/**
+ * Whether a note contains a radar report
+ */
+export function hasReports(content: string): boolean {
+	return findReportBlocks(content).length > 0;
+}
+
+/**
+ * Rebuild every radar report in the note open in an editor from the current radars.
+ * Each report block is replaced in place, so the cursor and the rest of the note stay put.
+ * Reports of radars that no longer exist are left alone.
+ */
+export async function refreshReportsCommand(plugin: RadarPlugin, editor: Editor, note: TFile): Promise<void> {
+	const { vault } = plugin.app;
+	const radarPaths = new Set(findReportBlocks(editor.getValue()).map((block) => block.radarPath));
+
+	const reports = new Map<string, string>();
+	const missing: string[] = [];
+	for (const radarPath of radarPaths) {
+		const file = vault.getFileByPath(radarPath);
+		try {
+			if (!file) throw new Error("not found");
+			reports.set(radarPath, buildReport(plugin, await plugin.radarStore.loadRadar(file), radarPath, note.path));
+		} catch (error) {
+			console.error(`Failed to load radar ${radarPath}:`, error);
+			missing.push(radarPath);
+		}
+	}
+
+	// Find the blocks again: the note may have been edited while the radars were loading
+	const changes = findReportBlocks(editor.getValue()).flatMap((block) => {
+		const report = reports.get(block.radarPath);
+		return report === undefined
+			? []
+			: [{ from: editor.offsetToPos(block.start), to: editor.offsetToPos(block.end), text: report }];
+	});
+	if (changes.length > 0) {
+		editor.transaction({ changes });
+	}
+	new Notice(
+		missing.length > 0
+			? `Refreshed ${reports.size} reports. Could not read ${missing.join(", ")}.`
+			: `Refreshed ${reports.size} reports`
+	);
+}
@@ -11,6 +11,9 @@ export const VIEW_TYPE_RADAR = "radar-view";
 /** File extension for radar files (without the dot) */
 export const RADAR_FILE_EXTENSION = "radar";
 
+/** Version of the .radar file format written by this plugin */
+export const CURRENT_SCHEMA_VERSION = 1;
+
 /** Default priority levels */
 export const DEFAULT_PRIORITIES: PriorityLevel[] = [
 	{ id: "p1", name: "Critical", maxRadius: 0.25 },
@@ -27,18 +30,56 @@ export const DEFAULT_CATEGORIES: Category[] = [
 	{ id: "c4", name: "", startAngle: 270 },
 ];
 
+/** Built-in ring names by number of rings, innermost first */
+export const PRIORITY_NAME_PRESETS: Record<number, string[]> = {
+	1: ["Focus"],
+	2: ["High", "Low"],
+	3: ["High", "Medium", "Low"],
+	4: ["Critical", "High", "Medium", "Low"],
+	5: ["Critical", "High", "Medium", "Low", "Minimal"],
+	6: ["Critical", "Very high", "High", "Medium", "Low", "Minimal"],
+	7: ["Critical", "Very high", "High", "Medium", "Low", "Very low", "Minimal"],
+};
+
+/** Limits on the radar structure (see agent/SPEC.md) */
+export const STRUCTURE_LIMITS = {
+	/** Minimum number of priority rings */
+	minPriorities: 1,
+	/** Maximum number of priority rings */
+	maxPriorities: 7,
+	/** Minimum number of category segments (0 = no categories) */
+	minCategories: 0,
+	/** Maximum number of category segments */
+	maxCategories: 8,
+};
+
 /** Default view state */
 export const DEFAULT_VIEW_STATE: ViewState = {
 	zoom: 1,
 	panX: 0,
 	panY: 0,
+	layout: "radar",
+	snapToCells: false,
+	showTimeline: false,
+	showTrails: false,
 };
 
 /** Default plugin settings */
 export const DEFAULT_SETTINGS: RadarPluginSettings = {
 	defaultPriorityCount: 4,
 	defaultCategoryCount: 4,
+	defaultPriorityNames: [],
+	defaultCategoryNames: [],
+	defaultCategoryColors: [],
+	syncTitleOnRename: true,
+	templateFolder: "",
+	copyTemplateBlips: false,
 	blipRadius: 10,
+	blipLabels: "titles",
+	newBlipPlacement: "random",
+	priorityProperty: "",
+	categoryProperty: "",
+	recordBlipHistory: true,
 };
 
 /** SVG rendering constants */
@@ -0,0 +1,298 @@
+/**
+ * Radar History
+ * Command-based undo/redo stack for radar edits
+ */
+
+import type {
+	RadarData,
+	Blip,
+	BlipHistoryEntry,
+	PriorityLevel,
+	Category,
+	RadarSnapshot,
+	RadarSource,
+} from "../types";
+import type { RadarStore } from "./RadarStore";
+
+/** A reversible change to radar data */
+export interface RadarEdit {
+	/** Short description, e.g. "Move blip" */
+	label: string;
+	/** Apply the change to the radar */
+	apply(radar: RadarData): void;
+	/** Undo the change */
+	revert(radar: RadarData): void;
+}
+
+/** Everything a structure change touches */
+export interface StructureSnapshot {
+	priorityLevels: PriorityLevel[];
+	categories: Category[];
+	positions: Record<string, { r: number; theta: number }>;
+}
+
+/** Maximum number of edits kept for undo */
+const HISTORY_LIMIT = 100;
+
+/** Time in ms after which an edit with the same merge key starts a new undo step */
+const MERGE_DELAY = 1000;
+
+export class RadarHistory {
+	private undoStack: RadarEdit[] = [];
+	private redoStack: RadarEdit[] = [];
+	/** Merge key of the last pushed edit, null once merging has ended */
+	private mergeKey: string | null = null;
+	private lastPushAt = 0;
+
+	/**
+	 * Record an edit that has just been applied
+	 * @param mergeKey - Join the edit with the previous one when it was pushed with the same
+	 * key shortly before, e.g. repeated keyboard nudges of one blip
+	 */
+	push(edit: RadarEdit, mergeKey?: string): void {
+		const now = Date.now();
+		const last = this.undoStack[this.undoStack.length - 1];
+		if (last && mergeKey && mergeKey === this.mergeKey && now - this.lastPushAt < MERGE_DELAY) {
+			this.undoStack[this.undoStack.length - 1] = compositeEdit(last.label, [last, edit]);
+		} else {
+			this.undoStack.push(edit);
+			if (this.undoStack.length > HISTORY_LIMIT) {
+				this.undoStack.shift();
+			}
+		}
+		this.mergeKey = mergeKey ?? null;
+		this.lastPushAt = now;
+		this.redoStack = [];
+	}
+
+	/**
+	 * Start a new undo step with the next edit, whatever its merge key
+	 */
+	endMerge(): void {
+		this.mergeKey = null;
+	}
+
+	/**
+	 * Revert the last edit
+	 * @returns The reverted edit, or undefined when there is nothing to undo
+	 */
+	undo(radar: RadarData): RadarEdit | undefined {
+		this.endMerge();
+		const edit = this.undoStack.pop();
+		if (edit) {
+			edit.revert(radar);
+			this.redoStack.push(edit);
+		}
+		return edit;
+	}
+
+	/**
+	 * Re-apply the last undone edit
+	 * @returns The re-applied edit, or undefined when there is nothing to redo
+	 */
+	redo(radar: RadarData): RadarEdit | undefined {
+		this.endMerge();
+		const edit = this.redoStack.pop();
+		if (edit) {
+			edit.apply(radar);
+			this.undoStack.push(edit);
+		}
+		return edit;
+	}
+
+	canUndo(): boolean {
+		return this.undoStack.length > 0;
+	}
+
+	canRedo(): boolean {
+		return this.redoStack.length > 0;
+	}
+
+	clear(): void {
+		this.undoStack = [];
+		this.redoStack = [];
+		this.endMerge();
+	}
+}
+
+/**
+ * Copy of a blip's history, taken before an edit that may record an entry
+ */
+function copyBlipHistory(radar: RadarData, blipId: string): BlipHistoryEntry[] | undefined {
+	return radar.blips.find((b) => b.id === blipId)?.history?.map((entry) => ({ ...entry }));
+}
+
+/**
+ * Move a blip between two positions.
+ * The move is recorded in the blip's history; undo drops the entry again.
+ */
+export function moveBlipEdit(
+	store: RadarStore,
+	blipId: string,
+	from: { r: number; theta: number },
+	to: { r: number; theta: number }
+): RadarEdit {
+	let history: BlipHistoryEntry[] | undefined;
+	return {
+		label: "Move blip",
+		apply: (radar) => {
+			history = copyBlipHistory(radar, blipId);
+			store.updateBlipPosition(radar, blipId, to.r, to.theta, true);
+		},
+		revert: (radar) => {
+			store.updateBlipPosition(radar, blipId, from.r, from.theta);
+			store.restoreBlipHistory(radar, blipId, history);
+		},
+	};
+}
+
+/**
+ * Add a blip (with its id already assigned)
+ */
+export function addBlipEdit(store: RadarStore, blip: Blip): RadarEdit {
+	return {
+		label: "Add blip",
+		apply: (radar) => store.insertBlip(radar, { ...blip }),
+		revert: (radar) => store.removeBlip(radar, blip.id),
+	};
+}
+
+/**
+ * Remove a blip, restoring it at the same index on undo
+ */
+export function removeBlipEdit(store: RadarStore, blip: Blip, index: number): RadarEdit {
+	return {
+		label: "Remove blip",
+		apply: (radar) => store.removeBlip(radar, blip.id),
+		revert: (radar) => store.insertBlip(radar, { ...blip }, index),
+	};
+}
+
+/**
+ * Change blip properties
+ * @param before - Previous values of every property in `after`
+ */
+export function updateBlipEdit(
+	store: RadarStore,
+	blipId: string,
+	before: Partial<Blip>,
+	after: Partial<Blip>
+): RadarEdit {
+	let history: BlipHistoryEntry[] | undefined;
+	return {
+		label: "Edit blip",
+		apply: (radar) => {
+			history = copyBlipHistory(radar, blipId);
+			store.updateBlip(radar, blipId, { ...after }, true);
+		},
+		revert: (radar) => {
+			store.updateBlip(radar, blipId, { ...before });
+			store.restoreBlipHistory(radar, blipId, history);
+		},
+	};
+}
+
+/**
+ * Remove a snapshot from the radar file, dropping the empty list with the last one
+ */
+function removeSnapshot(radar: RadarData, snapshotId: string): void {
+	radar.snapshots = radar.snapshots?.filter((s) => s.id !== snapshotId);
+	if (radar.snapshots?.length === 0) {
+		delete radar.snapshots;
+	}
+}
+
+/**
+ * Store a snapshot in the radar file
+ */
+export function addSnapshotEdit(snapshot: RadarSnapshot): RadarEdit {
+	return {
+		label: "Take snapshot",
+		apply: (radar) => {
+			radar.snapshots = [...(radar.snapshots ?? []), snapshot];
+		},
+		revert: (radar) => removeSnapshot(radar, snapshot.id),
+	};
+}
+
+/**
+ * Delete a snapshot stored in the radar file, restoring it at the same index on undo
+ */
+export function removeSnapshotEdit(snapshot: RadarSnapshot, index: number): RadarEdit {
+	return {
+		label: "Delete snapshot",
+		apply: (radar) => removeSnapshot(radar, snapshot.id),
+		revert: (radar) => {
+			const snapshots = [...(radar.snapshots ?? [])];
+			snapshots.splice(index, 0, snapshot);
+			radar.snapshots = snapshots;
+		},
+	};
+}
+
+/**
+ * Set, change or remove the note source of a radar
+ */
+export function sourceEdit(before: RadarSource | undefined, after: RadarSource | undefined): RadarEdit {
+	const setSource = (radar: RadarData, source: RadarSource | undefined) => {
+		if (source) {
+			radar.source = { ...source };
+		} else {
+			delete radar.source;
+		}
+	};
+	return {
+		label: "Change note source",
+		apply: (radar) => setSource(radar, after),
+		revert: (radar) => setSource(radar, before),
+	};
+}
+
+/**
+ * Group several edits into a single undo step
+ */
+export function compositeEdit(label: string, edits: RadarEdit[]): RadarEdit {
+	return {
+		label,
+		apply: (radar) => edits.forEach((edit) => edit.apply(radar)),
+		revert: (radar) => [...edits].reverse().forEach((edit) => edit.revert(radar)),
+	};
+}
+
+/**
+ * Capture rings, segments and blip positions before or after a structure change
+ */
+export function takeStructureSnapshot(radar: RadarData): StructureSnapshot {
+	const positions: StructureSnapshot["positions"] = {};
+	for (const blip of radar.blips) {
+		positions[blip.id] = { r: blip.r, theta: blip.theta };
+	}
+	return {
+		priorityLevels: radar.priorityLevels.map((p) => ({ ...p })),
+		categories: radar.categories.map((c) => ({ ...c })),
+		positions,
+	};
+}
+
+/**
+ * Switch between two structure snapshots
+ */
+export function structureEdit(
+	store: RadarStore,
+	before: StructureSnapshot,
+	after: StructureSnapshot,
+	label = "Edit rings and segments"
+): RadarEdit {
+	const restore = (radar: RadarData, snapshot: StructureSnapshot) => {
+		radar.priorityLevels = snapshot.priorityLevels.map((p) => ({ ...p }));
+		radar.categories = snapshot.categories.map((c) => ({ ...c }));
+		for (const [blipId, pos] of Object.entries(snapshot.positions)) {
+			store.updateBlipPosition(radar, blipId, pos.r, pos.theta);
+		}
+	};
+	return {
+		label,
+		apply: (radar) => restore(radar, after),
+		revert: (radar) => restore(radar, before),
+	};
+}
@@ -0,0 +1,86 @@
+/**
+ * Radar Index
+ * Remembers which radar files follow a note source and which notes their blips link to,
+ * so vault events only read and rewrite the radars they concern
+ */
+
+import { App, Plugin, TAbstractFile, TFile } from "obsidian";
+import type { RadarData } from "../types";
+import { RADAR_FILE_EXTENSION } from "../constants";
+import { parseRadarData } from "./radarSchema";
+
+/** What the index keeps of a radar file */
+interface RadarSummary {
+	hasSource: boolean;
+	/** Paths of the notes linked by note blips */
+	notePaths: Set<string>;
+}
+
+export class RadarIndex {
+	/** Summaries by radar path, read on first use and dropped when the file changes */
+	private summaries = new Map<string, Promise<RadarSummary>>();
+
+	constructor(private app: App) {}
+
+	/**
+	 * Forget radar files as they change, so the next lookup reads them again
+	 */
+	registerEvents(plugin: Plugin): void {
+		const { vault } = this.app;
+		const forget = (file: TAbstractFile, oldPath?: string) => {
+			this.summaries.delete(file.path);
+			if (oldPath) this.summaries.delete(oldPath);
+		};
+		plugin.registerEvent(vault.on("modify", (file) => forget(file)));
+		plugin.registerEvent(vault.on("delete", (file) => forget(file)));
+		plugin.registerEvent(vault.on("rename", (file, oldPath) => forget(file, oldPath)));
+	}
+
+	/**
+	 * Whether a radar file has a note source
+	 */
+	async hasSource(file: TFile): Promise<boolean> {
+		return (await this.getSummary(file)).hasSource;
+	}
+
+	/**
+	 * Whether a radar file has a note blip linking to a note, or to a note inside a folder
+	 */
+	async linksTo(file: TFile, path: string): Promise<boolean> {
+		const { notePaths } = await this.getSummary(file);
+		if (notePaths.has(path)) return true;
+		for (const notePath of notePaths) {
+			if (notePath.startsWith(`${path}/`)) return true;
+		}
+		return false;
+	}
+
+	private getSummary(file: TFile): Promise<RadarSummary> {
+		let summary = this.summaries.get(file.path);
+		if (!summary) {
+			summary = this.readSummary(file);
+			this.summaries.set(file.path, summary);
+		}
+		return summary;
+	}
+
+	/**
+	 * Read a radar file; files that fail to parse have nothing to sync
+	 */
+	private async readSummary(file: TFile): Promise<RadarSummary> {
+		if (file.extension !== RADAR_FILE_EXTENSION) {
+			return { hasSource: false, notePaths: new Set() };
+		}
+		let radar: RadarData;
+		try {
+			radar = parseRadarData(await this.app.vault.cachedRead(file));
+		} catch {
+			return { hasSource: false, notePaths: new Set() };
+		}
+		const notePaths = new Set<string>();
+		for (const blip of radar.blips) {
+			if (blip.type === "note" && blip.notePath) notePaths.add(blip.notePath);
+		}
+		return { hasSource: !!radar.source?.value.trim(), notePaths };
+	}
+}
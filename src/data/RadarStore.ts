@@ -3,34 +3,125 @@
  * Handles persistence of radar data to JSON files in the vault
  */
 
-import { App, TFile, TFolder } from "obsidian";
-import type { RadarData, Blip } from "../types";
-import {
-	DEFAULT_PRIORITIES,
-	DEFAULT_CATEGORIES,
-	RADAR_FILE_EXTENSION,
-} from "../constants";
+import { App, TFile, TFolder, normalizePath } from "obsidian";
+import type {
+	RadarData,
+	RadarSnapshot,
+	Blip,
+	BlipHistoryEntry,
+	PriorityLevel,
+	Category,
+	RadarPluginSettings,
+	RadarTemplate,
+} from "../types";
+import { RADAR_FILE_EXTENSION, CURRENT_SCHEMA_VERSION } from "../constants";
 import { generateId } from "../utils/idGenerator";
+import { parseRadarData } from "./radarSchema";
+import {
+	remapBlipPosition,
+	createPriorityLevels,
+	createCategories,
+} from "../utils/radarStructure";
+import { getPriorityFromRadius, getCategoryFromAngle } from "../utils/polarCoordinates";
+
+/** Oldest history entries are dropped beyond this many per blip */
+const MAX_HISTORY_ENTRIES = 50;
+
+/**
+ * File name without folder and extension
+ */
+function getBasename(path: string): string {
+	const name = path.split("/").pop() ?? path;
+	const dot = name.lastIndexOf(".");
+	return dot > 0 ? name.slice(0, dot) : name;
+}
 
 export class RadarStore {
-	constructor(private app: App) {}
+	constructor(private app: App, private settings: RadarPluginSettings) {}
 
 	/**
-	 * Create a new radar with default configuration
+	 * Create a new radar with the rings and segments from the plugin settings
 	 */
 	createNewRadarData(): RadarData {
+		const {
+			defaultPriorityCount,
+			defaultCategoryCount,
+			defaultPriorityNames,
+			defaultCategoryNames,
+			defaultCategoryColors,
+		} = this.settings;
+
 		return {
-			priorityLevels: [...DEFAULT_PRIORITIES],
-			categories: [...DEFAULT_CATEGORIES],
+			schemaVersion: CURRENT_SCHEMA_VERSION,
+			priorityLevels: createPriorityLevels(defaultPriorityCount, defaultPriorityNames),
+			categories: createCategories(defaultCategoryCount, defaultCategoryNames, defaultCategoryColors),
 			blips: [],
 		};
 	}
 
+	/**
+	 * Create radar data from a template skeleton.
+	 * Blips are only copied when requested, with fresh ids and without the template's
+	 * history, note and source state. Snapshots and the note source stay behind.
+	 */
+	createRadarDataFromTemplate(template: RadarData, includeBlips: boolean): RadarData {
+		return {
+			schemaVersion: CURRENT_SCHEMA_VERSION,
+			priorityLevels: template.priorityLevels.map((p) => ({ ...p })),
+			categories: template.categories.map((c) => ({ ...c })),
+			blips: includeBlips
+				? template.blips.map((blip) => {
+					const copy: Blip = {
+						id: generateId(),
+						type: blip.type,
+						title: blip.title,
+						r: blip.r,
+						theta: blip.theta,
+					};
+					if (blip.notePath !== undefined) copy.notePath = blip.notePath;
+					if (blip.description !== undefined) copy.description = blip.description;
+					return copy;
+				})
+				: [],
+		};
+	}
+
+	/**
+	 * Freeze the rings, segments and blips of a radar.
+	 * Blip histories are left out; the snapshot itself is the record of that time.
+	 */
+	createSnapshot(radar: RadarData, label: string): RadarSnapshot {
+		return {
+			id: generateId(),
+			label,
+			createdAt: Date.now(),
+			priorityLevels: radar.priorityLevels.map((p) => ({ ...p })),
+			categories: radar.categories.map((c) => ({ ...c })),
+			blips: radar.blips.map((blip) => {
+				const copy = { ...blip };
+				delete copy.history;
+				return copy;
+			}),
+		};
+	}
+
+	/**
+	 * Radar data showing a snapshot, for saving it as a radar file of its own
+	 */
+	createRadarDataFromSnapshot(snapshot: RadarSnapshot): RadarData {
+		return {
+			schemaVersion: CURRENT_SCHEMA_VERSION,
+			priorityLevels: snapshot.priorityLevels.map((p) => ({ ...p })),
+			categories: snapshot.categories.map((c) => ({ ...c })),
+			blips: snapshot.blips.map((blip) => ({ ...blip })),
+		};
+	}
+
 	/**
 	 * Create a new radar file in the vault
+	 * @param radarData - Initial content, defaults to a radar built from the settings
 	 */
-	async createRadar(name: string, folder?: TFolder): Promise<TFile> {
-		const radarData = this.createNewRadarData();
+	async createRadar(name: string, folder?: TFolder, radarData: RadarData = this.createNewRadarData()): Promise<TFile> {
 		const fileName = `${name}.${RADAR_FILE_EXTENSION}`;
 		const basePath = folder ? folder.path : "";
 		const path = basePath ? `${basePath}/${fileName}` : fileName;
@@ -41,12 +132,12 @@ export class RadarStore {
 	}
 
 	/**
-	 * Load radar data from a file
+	 * Load radar data from a file, migrated to the current schema version
+	 * @throws RadarValidationError when the file contents are invalid
 	 */
 	async loadRadar(file: TFile): Promise<RadarData> {
 		const content = await this.app.vault.read(file);
-		const data = JSON.parse(content) as RadarData;
-		return data;
+		return parseRadarData(content);
 	}
 
 	/**
@@ -65,31 +156,85 @@ export class RadarStore {
 			...blip,
 			id: generateId(),
 		};
-		radar.blips.push(newBlip);
+		this.insertBlip(radar, newBlip);
 		return newBlip;
 	}
 
+	/**
+	 * Insert a blip that already has an id
+	 * @param index - Position in the blip list, defaults to the end
+	 */
+	insertBlip(radar: RadarData, blip: Blip, index = radar.blips.length): void {
+		if (blip.updatedAt === undefined) {
+			blip.updatedAt = Date.now();
+		}
+		radar.blips.splice(index, 0, blip);
+	}
+
 	/**
 	 * Update a blip's position
+	 * @param recordHistory - Record a history entry if the blip changes ring or segment
+	 *   (and blip history is turned on); off for undo and structure remapping
 	 */
-	updateBlipPosition(radar: RadarData, blipId: string, r: number, theta: number): void {
+	updateBlipPosition(radar: RadarData, blipId: string, r: number, theta: number, recordHistory = false): void {
 		const blip = radar.blips.find((b) => b.id === blipId);
-		if (blip) {
+		if (blip && (blip.r !== r || blip.theta !== theta)) {
+			if (recordHistory) {
+				this.recordHistoryEntry(radar, blip, r, theta);
+			}
 			blip.r = r;
 			blip.theta = theta;
+			blip.updatedAt = Date.now();
 		}
 	}
 
 	/**
 	 * Update a blip's properties
+	 * @param recordHistory - Record a history entry if the update moves the blip to
+	 *   another ring or segment (and blip history is turned on)
 	 */
-	updateBlip(radar: RadarData, blipId: string, updates: Partial<Blip>): void {
+	updateBlip(radar: RadarData, blipId: string, updates: Partial<Blip>, recordHistory = false): void {
 		const blip = radar.blips.find((b) => b.id === blipId);
 		if (blip) {
-			Object.assign(blip, updates);
+			if (recordHistory) {
+				this.recordHistoryEntry(radar, blip, updates.r ?? blip.r, updates.theta ?? blip.theta);
+			}
+			Object.assign(blip, updates, { updatedAt: Date.now() });
 		}
 	}
 
+	/**
+	 * Replace a blip's history, e.g. to undo a move that recorded an entry
+	 */
+	restoreBlipHistory(radar: RadarData, blipId: string, history: BlipHistoryEntry[] | undefined): void {
+		const blip = radar.blips.find((b) => b.id === blipId);
+		if (!blip) return;
+		if (history && history.length > 0) {
+			blip.history = history.map((entry) => ({ ...entry }));
+		} else {
+			delete blip.history;
+		}
+	}
+
+	/**
+	 * Remember where a blip was before it moves to another ring or segment.
+	 * Moves within the same ring and segment are not history.
+	 */
+	private recordHistoryEntry(radar: RadarData, blip: Blip, r: number, theta: number): void {
+		if (!this.settings.recordBlipHistory) return;
+
+		const priority = getPriorityFromRadius(blip.r, radar.priorityLevels);
+		const category = getCategoryFromAngle(blip.theta, radar.categories);
+		const samePriority = getPriorityFromRadius(r, radar.priorityLevels)?.id === priority?.id;
+		const sameCategory = getCategoryFromAngle(theta, radar.categories)?.id === category?.id;
+		if (samePriority && sameCategory) return;
+
+		const entry: BlipHistoryEntry = { timestamp: Date.now(), r: blip.r, theta: blip.theta };
+		if (priority?.name) entry.priorityName = priority.name;
+		if (category?.name) entry.categoryName = category.name;
+		blip.history = [...(blip.history ?? []), entry].slice(-MAX_HISTORY_ENTRIES);
+	}
+
 	/**
 	 * Remove a blip from the radar
 	 */
@@ -100,6 +245,87 @@ export class RadarStore {
 		}
 	}
 
+	/**
+	 * Point note blips at a renamed or moved note (or a note inside a renamed folder)
+	 * @param syncTitle - Also rename blips whose title still matches the old note name
+	 * @returns Whether any blip changed
+	 */
+	renameNotePath(radar: RadarData, oldPath: string, newPath: string, syncTitle: boolean): boolean {
+		let changed = false;
+		for (const blip of radar.blips) {
+			if (blip.type !== "note" || !blip.notePath) continue;
+
+			let notePath: string | undefined;
+			if (blip.notePath === oldPath) {
+				notePath = newPath;
+			} else if (blip.notePath.startsWith(`${oldPath}/`)) {
+				notePath = newPath + blip.notePath.slice(oldPath.length);
+			}
+			if (!notePath) continue;
+
+			if (syncTitle && blip.title === getBasename(blip.notePath)) {
+				blip.title = getBasename(notePath);
+			}
+			blip.notePath = notePath;
+			delete blip.orphaned;
+			changed = true;
+		}
+		return changed;
+	}
+
+	/**
+	 * Flag note blips whose note (or a folder containing it) was deleted
+	 * @returns Whether any blip changed
+	 */
+	markNoteDeleted(radar: RadarData, path: string): boolean {
+		let changed = false;
+		for (const blip of radar.blips) {
+			if (blip.type !== "note" || !blip.notePath || blip.orphaned) continue;
+			if (blip.notePath === path || blip.notePath.startsWith(`${path}/`)) {
+				blip.orphaned = true;
+				changed = true;
+			}
+		}
+		return changed;
+	}
+
+	/**
+	 * Apply a change to a radar file on disk.
+	 * The file is only written when the change reports it modified something;
+	 * files that fail to parse are left untouched.
+	 */
+	async updateRadarFile(file: TFile, update: (radar: RadarData) => boolean): Promise<void> {
+		await this.app.vault.process(file, (content) => {
+			let radar: RadarData;
+			try {
+				radar = parseRadarData(content);
+			} catch {
+				return content;
+			}
+			return update(radar) ? JSON.stringify(radar, null, 2) : content;
+		});
+	}
+
+	/**
+	 * Replace the rings and segments of a radar.
+	 * Blips are moved so they keep their logical ring and segment.
+	 */
+	updateStructure(radar: RadarData, priorityLevels: PriorityLevel[], categories: Category[]): void {
+		for (const blip of radar.blips) {
+			const pos = remapBlipPosition(
+				blip,
+				radar.priorityLevels,
+				radar.categories,
+				priorityLevels,
+				categories
+			);
+			blip.r = pos.r;
+			blip.theta = pos.theta;
+		}
+		radar.priorityLevels = priorityLevels;
+		radar.categories = categories;
+	}
+
 	/**
 	 * List all radar files in the vault
 	 */
@@ -109,6 +335,32 @@ export class RadarStore {
 		);
 	}
 
+	/**
+	 * Load every radar file inside a folder (and its subfolders) as a template.
+	 * Files that cannot be parsed are skipped.
+	 */
+	async loadTemplates(folderPath: string): Promise<RadarTemplate[]> {
+		if (!folderPath.trim()) {
+			return [];
+		}
+
+		const prefix = `${normalizePath(folderPath)}/`;
+		const files = this.listRadarFiles().filter((file) => file.path.startsWith(prefix));
+		const templates: RadarTemplate[] = [];
+		for (const file of files) {
+			try {
+				templates.push({
+					name: file.basename,
+					description: file.path,
+					data: await this.loadRadar(file),
+				});
+			} catch (error) {
+				console.warn(`Skipping radar template ${file.path}:`, error);
+			}
+		}
+		return templates;
+	}
+
 	/**
 	 * Check if a file is a radar file
 	 */
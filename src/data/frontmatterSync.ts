@@ -0,0 +1,250 @@
+/**
+ * Frontmatter Sync
+ * Mirrors the ring and segment of note blips into properties of the linked notes,
+ * and moves blips when those properties are edited
+ */
+
+import { TFile } from "obsidian";
+import type { CachedMetadata } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarData, Blip } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle } from "../utils/polarCoordinates";
+import { getRadiusInPriority, getAngleInCategory } from "../utils/radarStructure";
+
+/** Ring and segment names read from a note's properties */
+export interface FrontmatterPlacement {
+	priorityName?: string;
+	categoryName?: string;
+}
+
+/**
+ * Whether either property key is configured
+ */
+export function isFrontmatterSyncEnabled(plugin: RadarPlugin): boolean {
+	const { priorityProperty, categoryProperty } = plugin.settings;
+	return !!priorityProperty || !!categoryProperty;
+}
+
+/**
+ * Read the ring and segment names from a note's properties (the first entry of a list)
+ */
+export function readFrontmatterPlacement(plugin: RadarPlugin, cache: CachedMetadata | null): FrontmatterPlacement {
+	const frontmatter = cache?.frontmatter;
+	if (!frontmatter) {
+		return {};
+	}
+
+	const read = (key: string): string | undefined => {
+		if (!key) return undefined;
+		const raw: unknown = frontmatter[key];
+		const value: unknown = Array.isArray(raw) ? raw[0] : raw;
+		return typeof value === "string" && value.trim() ? value.trim() : undefined;
+	};
+	return {
+		priorityName: read(plugin.settings.priorityProperty),
+		categoryName: read(plugin.settings.categoryProperty),
+	};
+}
+
+/**
+ * Ring and segment names of a blip's current position
+ */
+export function getBlipPlacement(blip: Blip, radar: RadarData): FrontmatterPlacement {
+	return {
+		priorityName: getPriorityFromRadius(blip.r, radar.priorityLevels)?.name || undefined,
+		categoryName: getCategoryFromAngle(blip.theta, radar.categories)?.name || undefined,
+	};
+}
+
+/**
+ * Position that puts a blip in the ring and segment named by its note's properties.
+ * Unknown or missing names leave that part of the position unchanged.
+ * @returns The new position, or null when the blip is already there
+ */
+export function getFrontmatterPosition(
+	blip: Blip,
+	radar: RadarData,
+	placement: FrontmatterPlacement
+): { r: number; theta: number } | null {
+	const matches = (name: string, wanted?: string) =>
+		!!wanted && name.toLowerCase() === wanted.toLowerCase();
+
+	let { r, theta } = blip;
+	const priority = radar.priorityLevels.find((p) => matches(p.name, placement.priorityName));
+	if (priority && getPriorityFromRadius(r, radar.priorityLevels)?.id !== priority.id) {
+		r = getRadiusInPriority(r, radar.priorityLevels, priority.id);
+	}
+	const category = radar.categories.find((c) => matches(c.name, placement.categoryName));
+	if (category && getCategoryFromAngle(theta, radar.categories)?.id !== category.id) {
+		theta = getAngleInCategory(theta, radar.categories, category.id);
+	}
+
+	return r !== blip.r || theta !== blip.theta ? { r, theta } : null;
+}
+
+/** Properties written to a note that have not come back as a metadata change yet */
+interface PendingWrite {
+	/** Path of the radar whose blip was synced */
+	radarPath: string;
+	placement: FrontmatterPlacement;
+}
+
+/**
+ * Whether a property value is empty or names one of the rings or segments
+ * (case-insensitive); other values were typed by the user and are left alone
+ */
+function isKnownName(value: string | undefined, items: Array<{ name: string }>): boolean {
+	return !value || items.some((item) => item.name.toLowerCase() === value.toLowerCase());
+}
+
+/**
+ * Writes the placement of note blips into their notes and moves blips when the notes
+ * change. Owned by the plugin, so the writes it waits for end with it.
+ */
+export class FrontmatterSync {
+	/** Pending writes by note path, oldest first */
+	private pendingWrites = new Map<string, PendingWrite[]>();
+
+	constructor(private plugin: RadarPlugin) {}
+
+	/**
+	 * Listen to note property changes and move the matching blips in every radar
+	 */
+	register(): void {
+		const { plugin } = this;
+		plugin.registerEvent(
+			plugin.app.metadataCache.on("changed", (file, _data, cache) => {
+				void this.onNoteMetadataChanged(file, cache);
+			})
+		);
+	}
+
+	/**
+	 * Write the ring and segment names of note blips into their notes' properties.
+	 * Notes whose properties already match are not touched, and neither are properties
+	 * naming a ring or segment the radar doesn't have.
+	 * @param radarPath - Path of the radar the blips belong to; the metadata changes these
+	 *   writes cause are not applied back to it
+	 * @param previous - Rings and segments before a rename, whose names are replaced too
+	 */
+	async writeBlips(
+		radar: RadarData,
+		radarPath: string,
+		blips: Blip[],
+		previous?: Pick<RadarData, "priorityLevels" | "categories">
+	): Promise<void> {
+		const { plugin } = this;
+		if (!isFrontmatterSyncEnabled(plugin)) return;
+
+		const { app, settings } = plugin;
+		const { priorityProperty: priorityKey, categoryProperty: categoryKey } = settings;
+		const priorities = [...radar.priorityLevels, ...(previous?.priorityLevels ?? [])];
+		const categories = [...radar.categories, ...(previous?.categories ?? [])];
+
+		for (const blip of blips) {
+			if (blip.type !== "note" || !blip.notePath || blip.orphaned) continue;
+			const file = app.vault.getAbstractFileByPath(blip.notePath);
+			if (!(file instanceof TFile)) continue;
+
+			const current = readFrontmatterPlacement(plugin, app.metadataCache.getFileCache(file));
+			const { priorityName, categoryName } = getBlipPlacement(blip, radar);
+			const placement: FrontmatterPlacement = {
+				priorityName: priorityKey && isKnownName(current.priorityName, priorities) ? priorityName : undefined,
+				categoryName: categoryKey && isKnownName(current.categoryName, categories) ? categoryName : undefined,
+			};
+			const same = (written: string | undefined, read: string | undefined) =>
+				written === undefined || written === read;
+			if (same(placement.priorityName, current.priorityName) && same(placement.categoryName, current.categoryName)) {
+				continue;
+			}
+
+			const pending: PendingWrite = { radarPath, placement };
+			this.pendingWrites.set(file.path, [...(this.pendingWrites.get(file.path) ?? []), pending]);
+			try {
+				await app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+					if (priorityKey && placement.priorityName !== undefined) {
+						frontmatter[priorityKey] = placement.priorityName;
+					}
+					if (categoryKey && placement.categoryName !== undefined) {
+						frontmatter[categoryKey] = placement.categoryName;
+					}
+				});
+			} catch (error) {
+				console.error(`Failed to update properties of ${file.path}:`, error);
+				const remaining = (this.pendingWrites.get(file.path) ?? []).filter((write) => write !== pending);
+				if (remaining.length > 0) {
+					this.pendingWrites.set(file.path, remaining);
+				} else {
+					this.pendingWrites.delete(file.path);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Match a metadata change against the pending writes to a note. A change that only
+	 * echoes one of them settles it and every older write it superseded.
+	 * @returns Path of the radar that made the write, or null for a change made elsewhere
+	 */
+	private takeEchoedWrite(notePath: string, placement: FrontmatterPlacement): string | null {
+		const pending = this.pendingWrites.get(notePath);
+		if (!pending) return null;
+
+		const same = (written: string | undefined, read: string | undefined) =>
+			written === undefined || written.trim() === read;
+		const index = pending.findIndex((write) =>
+			same(write.placement.priorityName, placement.priorityName) &&
+			same(write.placement.categoryName, placement.categoryName)
+		);
+		if (index === -1) return null;
+
+		const write = pending[index];
+		if (index === pending.length - 1) {
+			this.pendingWrites.delete(notePath);
+		} else {
+			this.pendingWrites.set(notePath, pending.slice(index + 1));
+		}
+		return write?.radarPath ?? null;
+	}
+
+	/**
+	 * Move the blips of a note whose ring or segment property changed.
+	 * Open radars apply the move as an undoable edit; closed radar files with a blip
+	 * for the note are updated on disk.
+	 */
+	private async onNoteMetadataChanged(file: TFile, cache: CachedMetadata): Promise<void> {
+		const { plugin } = this;
+		if (!isFrontmatterSyncEnabled(plugin)) return;
+
+		const placement = readFrontmatterPlacement(plugin, cache);
+		if (!placement.priorityName && !placement.categoryName) return;
+
+		// Properties the plugin just wrote are already in place in the radar that wrote them;
+		// applying them again would replay moves that came after
+		const writerPath = this.takeEchoedWrite(file.path, placement);
+
+		const { radarStore, radarIndex } = plugin;
+		for (const radarFile of radarStore.listRadarFiles()) {
+			if (radarFile.path === writerPath) continue;
+			const view = plugin.getRadarView(radarFile);
+			if (view) {
+				view.applyFrontmatterPlacement(file.path, placement);
+				continue;
+			}
+			if (!(await radarIndex.linksTo(radarFile, file.path))) continue;
+
+			await radarStore.updateRadarFile(radarFile, (radar) => {
+				let changed = false;
+				for (const blip of radar.blips) {
+					if (blip.notePath !== file.path) continue;
+					const position = getFrontmatterPosition(blip, radar, placement);
+					if (position) {
+						radarStore.updateBlipPosition(radar, blip.id, position.r, position.theta, true);
+						changed = true;
+					}
+				}
+				return changed;
+			});
+		}
+	}
+}
@@ -0,0 +1,69 @@
+/**
+ * Note Link Sync
+ * Keeps note blips pointing at their notes when notes are renamed, moved or deleted.
+ * Open radars are updated through their view, so unsaved edits aren't lost; closed
+ * radar files are only rewritten when they link to the note.
+ */
+
+import type { TAbstractFile, TFile } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarData } from "../types";
+
+/**
+ * Listen to vault rename and delete events and update every radar file
+ */
+export function registerNoteLinkSync(plugin: RadarPlugin): void {
+	const { vault } = plugin.app;
+
+	plugin.registerEvent(
+		vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+			void onNoteRenamed(plugin, file, oldPath);
+		})
+	);
+
+	plugin.registerEvent(
+		vault.on("delete", (file: TAbstractFile) => {
+			void onNoteDeleted(plugin, file);
+		})
+	);
+}
+
+async function onNoteRenamed(plugin: RadarPlugin, file: TAbstractFile, oldPath: string): Promise<void> {
+	const { radarStore, settings } = plugin;
+	const rename = (radar: RadarData) => radarStore.renameNotePath(radar, oldPath, file.path, settings.syncTitleOnRename);
+
+	for (const radarFile of radarStore.listRadarFiles()) {
+		// The renamed file may be this radar itself
+		if (radarFile.path === file.path) continue;
+		await updateRadar(plugin, radarFile, oldPath, rename);
+	}
+}
+
+async function onNoteDeleted(plugin: RadarPlugin, file: TAbstractFile): Promise<void> {
+	const { radarStore } = plugin;
+	const markDeleted = (radar: RadarData) => radarStore.markNoteDeleted(radar, file.path);
+
+	for (const radarFile of radarStore.listRadarFiles()) {
+		await updateRadar(plugin, radarFile, file.path, markDeleted);
+	}
+}
+
+/**
+ * Apply a note change to a radar: through its view when it is open, otherwise on disk
+ * when one of its blips links to the note (or a note inside the folder)
+ */
+async function updateRadar(
+	plugin: RadarPlugin,
+	radarFile: TFile,
+	notePath: string,
+	change: (radar: RadarData) => boolean
+): Promise<void> {
+	const view = plugin.getRadarView(radarFile);
+	if (view) {
+		view.applyNoteChange(change);
+		return;
+	}
+	if (await plugin.radarIndex.linksTo(radarFile, notePath)) {
+		await plugin.radarStore.updateRadarFile(radarFile, change);
+	}
+}
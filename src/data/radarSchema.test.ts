@@ -0,0 +1,176 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+	migrateRadarData,
+	validateRadarData,
+	parseRadarData,
+	repairRadarData,
+	repairViewState,
+	RadarValidationError,
+} from "./radarSchema";
+import { CURRENT_SCHEMA_VERSION, SVG_CONFIG } from "../constants";
+
+function validRadar(): Record<string, unknown> {
+	return {
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		priorityLevels: [
+			{ id: "p1", name: "Adopt", maxRadius: 0.5 },
+			{ id: "p2", name: "Hold", maxRadius: 1 },
+		],
+		categories: [
+			{ id: "c1", name: "Tools", startAngle: 0 },
+			{ id: "c2", name: "Techniques", startAngle: 180 },
+		],
+		blips: [{ id: "b1", type: "text", title: "Linting", r: 0.3, theta: 45 }],
+	};
+}
+
+function issuePaths(data: unknown): string[] {
+	return validateRadarData(data).map((issue) => issue.path);
+}
+
+describe("migrateRadarData", () => {
+	it("adds the version to files written before versioning", () => {
+		const raw = validRadar();
+		delete raw.schemaVersion;
+		const migrated = migrateRadarData(raw) as Record<string, unknown>;
+		assert.equal(migrated.schemaVersion, CURRENT_SCHEMA_VERSION);
+		assert.deepEqual(migrated.blips, raw.blips);
+	});
+
+	it("leaves data from a newer version alone", () => {
+		const raw = { ...validRadar(), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+		assert.equal(migrateRadarData(raw), raw);
+	});
+});
+
+describe("validateRadarData", () => {
+	it("accepts a valid radar", () => {
+		assert.deepEqual(validateRadarData(validRadar()), []);
+	});
+
+	it("reports blips out of range and duplicate ids", () => {
+		const raw = validRadar();
+		raw.blips = [
+			{ id: "b1", type: "text", title: "One", r: 1.5, theta: 45 },
+			{ id: "b1", type: "text", title: "Two", r: 0.5, theta: 45 },
+		];
+		const paths = issuePaths(raw);
+		assert.ok(paths.includes("blips[0].r"));
+		assert.ok(paths.includes("blips[1].id"));
+	});
+
+	it("rejects rings sharing a radius and segments sharing a start angle", () => {
+		const raw = validRadar();
+		raw.priorityLevels = [
+			{ id: "p1", name: "Adopt", maxRadius: 1 },
+			{ id: "p2", name: "Hold", maxRadius: 1 },
+		];
+		raw.categories = [
+			{ id: "c1", name: "Tools", startAngle: 90 },
+			{ id: "c2", name: "Techniques", startAngle: 90 },
+		];
+		const paths = issuePaths(raw);
+		assert.ok(paths.includes("priorityLevels[1].maxRadius"));
+		assert.ok(paths.includes("categories[1].startAngle"));
+	});
+
+	it("rejects a zoom outside the zoom limits", () => {
+		const raw = { ...validRadar(), viewState: { zoom: SVG_CONFIG.maxZoom * 2, panX: 0, panY: 0 } };
+		assert.deepEqual(issuePaths(raw), ["viewState.zoom"]);
+	});
+
+	it("stops at a version written by a newer plugin", () => {
+		const raw = { ...validRadar(), schemaVersion: CURRENT_SCHEMA_VERSION + 1, blips: "broken" };
+		assert.deepEqual(issuePaths(raw), ["schemaVersion"]);
+	});
+});
+
+describe("parseRadarData", () => {
+	it("parses and migrates valid content", () => {
+		const raw = validRadar();
+		delete raw.schemaVersion;
+		const radar = parseRadarData(JSON.stringify(raw));
+		assert.equal(radar.schemaVersion, CURRENT_SCHEMA_VERSION);
+		assert.equal(radar.blips.length, 1);
+	});
+
+	it("throws a repairable error for damaged data", () => {
+		const raw = { ...validRadar(), blips: [{ id: "b1", type: "text", title: "Linting", r: "far", theta: 45 }] };
+		assert.throws(() => parseRadarData(JSON.stringify(raw)), (error) => {
+			assert.ok(error instanceof RadarValidationError);
+			assert.equal(error.canRepair, true);
+			return true;
+		});
+	});
+
+	it("throws an unrepairable error for invalid JSON", () => {
+		assert.throws(() => parseRadarData("{"), (error) => {
+			assert.ok(error instanceof RadarValidationError);
+			assert.equal(error.canRepair, false);
+			return true;
+		});
+	});
+});
+
+describe("repairRadarData", () => {
+	it("returns valid data for damaged input", () => {
+		const repaired = repairRadarData({
+			priorityLevels: [{ id: "p1", name: "Adopt", maxRadius: 0.5 }, "junk"],
+			categories: [{ id: "c1", name: "Tools", startAngle: -90 }, { name: "Other", startAngle: 90 }],
+			blips: [
+				{ id: "b1", type: "text", title: "Far", r: 3, theta: 400 },
+				{ id: "b1", type: "note", title: "Copy", r: 0.2, theta: 10 },
+			],
+		});
+		assert.deepEqual(validateRadarData(repaired), []);
+
+		const [far, copy] = repaired.blips;
+		assert.equal(far?.r, 1);
+		assert.equal(far?.theta, 40);
+		assert.notEqual(copy?.id, "b1");
+		assert.equal(repaired.priorityLevels[repaired.priorityLevels.length - 1]?.maxRadius, 1);
+	});
+
+	it("spreads rings sharing a radius between it and the next ring inwards", () => {
+		const repaired = repairRadarData({
+			...validRadar(),
+			priorityLevels: [
+				{ id: "p1", name: "Adopt", maxRadius: 0.4 },
+				{ id: "p2", name: "Trial", maxRadius: 1 },
+				{ id: "p3", name: "Hold", maxRadius: 1 },
+			],
+		});
+		assert.deepEqual(repaired.priorityLevels.map((p) => p.maxRadius), [0.4, 0.7, 1]);
+	});
+
+	it("spreads segments sharing a start angle up to the next segment", () => {
+		const repaired = repairRadarData({
+			...validRadar(),
+			categories: [
+				{ id: "c1", name: "Tools", startAngle: 0 },
+				{ id: "c2", name: "Techniques", startAngle: 0 },
+				{ id: "c3", name: "Platforms", startAngle: 180 },
+				{ id: "c4", name: "Languages", startAngle: 180 },
+			],
+		});
+		assert.deepEqual(repaired.categories.map((c) => c.startAngle), [0, 90, 180, 270]);
+		assert.deepEqual(validateRadarData(repaired), []);
+	});
+
+	it("drops a damaged source instead of guessing it", () => {
+		const repaired = repairRadarData({ ...validRadar(), source: { type: "nope" } });
+		assert.equal(repaired.source, undefined);
+	});
+});
+
+describe("repairViewState", () => {
+	it("clamps the zoom and keeps valid toggles", () => {
+		const viewState = repairViewState({ zoom: 100, panX: 4, panY: -2, layout: "table", showTrails: "yes" });
+		assert.deepEqual(viewState, { zoom: SVG_CONFIG.maxZoom, panX: 4, panY: -2, layout: "table" });
+	});
+
+	it("gives up without zoom or pan", () => {
+		assert.equal(repairViewState({ zoom: 1, panX: 0 }), undefined);
+	});
+});
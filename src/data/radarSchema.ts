@@ -0,0 +1,610 @@
+/**
+ * Radar Schema
+ * Versioning, validation, migration and repair of .radar file contents
+ */
+
+import type {
+	RadarData,
+	RadarSnapshot,
+	Blip,
+	BlipHistoryEntry,
+	PriorityLevel,
+	Category,
+	RadarLayout,
+	RadarSource,
+	ViewState,
+} from "../types";
+import { CURRENT_SCHEMA_VERSION, DEFAULT_PRIORITIES, STRUCTURE_LIMITS, SVG_CONFIG } from "../constants";
+import { generateId } from "../utils/idGenerator";
+import { clamp } from "../utils/polarCoordinates";
+import { normalizeAngle, sortCategories } from "../utils/radarStructure";
+
+/** A single problem found in radar data */
+export interface RadarValidationIssue {
+	/** Location of the problem, e.g. "blips[3].r" */
+	path: string;
+	/** Human readable description */
+	message: string;
+}
+
+/**
+ * Thrown when radar file contents cannot be used as-is
+ */
+export class RadarValidationError extends Error {
+	/** Problems found in the data */
+	readonly issues: RadarValidationIssue[];
+	/** Parsed (and migrated) data, kept for repair */
+	readonly data: unknown;
+	/** Whether repairRadarData() can produce usable data */
+	readonly canRepair: boolean;
+
+	constructor(issues: RadarValidationIssue[], data: unknown, canRepair: boolean) {
+		super(`Invalid radar data: ${issues.map((i) => `${i.path}: ${i.message}`).join("; ")}`);
+		this.name = "RadarValidationError";
+		this.issues = issues;
+		this.data = data;
+		this.canRepair = canRepair;
+	}
+}
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (data: RawObject) => RawObject> = {
+	// Files written before versioning only lack the version field
+	0: (data) => ({ ...data, schemaVersion: 1 }),
+};
+
+function isObject(value: unknown): value is RawObject {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+	return typeof value === "number" && Number.isFinite(value);
+}
+
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === "string" && value.length > 0;
+}
+
+function isLayout(value: unknown): value is RadarLayout {
+	return value === "radar" || value === "table" || value === "split";
+}
+
+/**
+ * Get the schema version of raw data (0 for files written before versioning)
+ */
+function getSchemaVersion(data: RawObject): number {
+	return isFiniteNumber(data.schemaVersion) ? data.schemaVersion : 0;
+}
+
+/**
+ * Upgrade raw data to the current schema version.
+ * Data from a newer plugin version is returned unchanged.
+ */
+export function migrateRadarData(raw: unknown): unknown {
+	if (!isObject(raw)) {
+		return raw;
+	}
+
+	let data = raw;
+	let version = getSchemaVersion(data);
+	while (version < CURRENT_SCHEMA_VERSION) {
+		const migrate = MIGRATIONS[version];
+		if (!migrate) {
+			break;
+		}
+		data = migrate(data);
+		version = getSchemaVersion(data);
+	}
+	return data;
+}
+
+/**
+ * Check ids for duplicates within a list
+ */
+function checkUniqueIds(items: unknown[], path: string, issues: RadarValidationIssue[]): void {
+	const seen = new Set<string>();
+	items.forEach((item, index) => {
+		if (!isObject(item) || !isNonEmptyString(item.id)) return;
+		if (seen.has(item.id)) {
+			issues.push({ path: `${path}[${index}].id`, message: `duplicate id "${item.id}"` });
+		}
+		seen.add(item.id);
+	});
+}
+
+function validatePriorityLevels(value: unknown, issues: RadarValidationIssue[]): void {
+	const { minPriorities, maxPriorities } = STRUCTURE_LIMITS;
+	if (!Array.isArray(value)) {
+		issues.push({ path: "priorityLevels", message: "missing or not a list" });
+		return;
+	}
+	if (value.length < minPriorities || value.length > maxPriorities) {
+		issues.push({ path: "priorityLevels", message: `must have ${minPriorities}-${maxPriorities} rings, found ${value.length}` });
+	}
+	value.forEach((priority: unknown, index) => {
+		const path = `priorityLevels[${index}]`;
+		if (!isObject(priority)) {
+			issues.push({ path, message: "not an object" });
+			return;
+		}
+		if (!isNonEmptyString(priority.id)) {
+			issues.push({ path: `${path}.id`, message: "missing id" });
+		}
+		if (typeof priority.name !== "string") {
+			issues.push({ path: `${path}.name`, message: "must be text" });
+		}
+		if (!isFiniteNumber(priority.maxRadius) || priority.maxRadius <= 0 || priority.maxRadius > 1) {
+			issues.push({ path: `${path}.maxRadius`, message: "must be a number above 0 and at most 1" });
+		}
+	});
+	checkUniqueIds(value, "priorityLevels", issues);
+
+	// Two rings with the same outer radius leave one of them without any area
+	const radii = new Set<number>();
+	value.forEach((priority: unknown, index) => {
+		if (!isObject(priority) || !isFiniteNumber(priority.maxRadius)) return;
+		if (radii.has(priority.maxRadius)) {
+			issues.push({ path: `priorityLevels[${index}].maxRadius`, message: `duplicate radius ${priority.maxRadius}` });
+		}
+		radii.add(priority.maxRadius);
+	});
+}
+
+function validateCategories(value: unknown, issues: RadarValidationIssue[]): void {
+	const { minCategories, maxCategories } = STRUCTURE_LIMITS;
+	if (!Array.isArray(value)) {
+		issues.push({ path: "categories", message: "missing or not a list" });
+		return;
+	}
+	if (value.length < minCategories || value.length > maxCategories) {
+		issues.push({ path: "categories", message: `must have ${minCategories}-${maxCategories} segments, found ${value.length}` });
+	}
+	value.forEach((category: unknown, index) => {
+		const path = `categories[${index}]`;
+		if (!isObject(category)) {
+			issues.push({ path, message: "not an object" });
+			return;
+		}
+		if (!isNonEmptyString(category.id)) {
+			issues.push({ path: `${path}.id`, message: "missing id" });
+		}
+		if (typeof category.name !== "string") {
+			issues.push({ path: `${path}.name`, message: "must be text" });
+		}
+		if (!isFiniteNumber(category.startAngle) || category.startAngle < 0 || category.startAngle >= 360) {
+			issues.push({ path: `${path}.startAngle`, message: "must be a number from 0 up to 360" });
+		}
+		if (category.color !== undefined && typeof category.color !== "string") {
+			issues.push({ path: `${path}.color`, message: "must be text" });
+		}
+	});
+	checkUniqueIds(value, "categories", issues);
+
+	// Two segments starting at the same angle leave one of them without any area
+	const angles = new Set<number>();
+	value.forEach((category: unknown, index) => {
+		if (!isObject(category) || !isFiniteNumber(category.startAngle)) return;
+		if (angles.has(category.startAngle)) {
+			issues.push({ path: `categories[${index}].startAngle`, message: `duplicate start angle ${category.startAngle}` });
+		}
+		angles.add(category.startAngle);
+	});
+}
+
+function isHistoryEntry(value: unknown): value is BlipHistoryEntry {
+	return (
+		isObject(value) &&
+		isFiniteNumber(value.timestamp) && value.timestamp >= 0 &&
+		isFiniteNumber(value.r) && value.r >= 0 && value.r <= 1 &&
+		isFiniteNumber(value.theta) && value.theta >= 0 && value.theta < 360 &&
+		(value.priorityName === undefined || typeof value.priorityName === "string") &&
+		(value.categoryName === undefined || typeof value.categoryName === "string")
+	);
+}
+
+function validateBlips(value: unknown, issues: RadarValidationIssue[]): void {
+	if (!Array.isArray(value)) {
+		issues.push({ path: "blips", message: "missing or not a list" });
+		return;
+	}
+	value.forEach((blip: unknown, index) => {
+		const path = `blips[${index}]`;
+		if (!isObject(blip)) {
+			issues.push({ path, message: "not an object" });
+			return;
+		}
+		if (!isNonEmptyString(blip.id)) {
+			issues.push({ path: `${path}.id`, message: "missing id" });
+		}
+		if (blip.type !== "note" && blip.type !== "text") {
+			issues.push({ path: `${path}.type`, message: `must be "note" or "text"` });
+		}
+		if (typeof blip.title !== "string") {
+			issues.push({ path: `${path}.title`, message: "must be text" });
+		}
+		if (blip.type === "note" && !isNonEmptyString(blip.notePath)) {
+			issues.push({ path: `${path}.notePath`, message: "note blips need a note path" });
+		}
+		if (!isFiniteNumber(blip.r) || blip.r < 0 || blip.r > 1) {
+			issues.push({ path: `${path}.r`, message: "must be a number from 0 to 1" });
+		}
+		if (!isFiniteNumber(blip.theta) || blip.theta < 0 || blip.theta >= 360) {
+			issues.push({ path: `${path}.theta`, message: "must be a number from 0 up to 360" });
+		}
+		if (blip.color !== undefined && typeof blip.color !== "string") {
+			issues.push({ path: `${path}.color`, message: "must be text" });
+		}
+		if (blip.description !== undefined && typeof blip.description !== "string") {
+			issues.push({ path: `${path}.description`, message: "must be text" });
+		}
+		if (blip.orphaned !== undefined && typeof blip.orphaned !== "boolean") {
+			issues.push({ path: `${path}.orphaned`, message: "must be true or false" });
+		}
+		if (blip.unmatched !== undefined && typeof blip.unmatched !== "boolean") {
+			issues.push({ path: `${path}.unmatched`, message: "must be true or false" });
+		}
+		if (blip.sourced !== undefined && typeof blip.sourced !== "boolean") {
+			issues.push({ path: `${path}.sourced`, message: "must be true or false" });
+		}
+		if (blip.updatedAt !== undefined && (!isFiniteNumber(blip.updatedAt) || blip.updatedAt < 0)) {
+			issues.push({ path: `${path}.updatedAt`, message: "must be a timestamp" });
+		}
+		if (blip.history !== undefined) {
+			if (!Array.isArray(blip.history)) {
+				issues.push({ path: `${path}.history`, message: "must be a list" });
+			} else {
+				blip.history.forEach((entry: unknown, entryIndex) => {
+					if (!isHistoryEntry(entry)) {
+						issues.push({
+							path: `${path}.history[${entryIndex}]`,
+							message: "needs a timestamp, r from 0 to 1 and theta from 0 up to 360",
+						});
+					}
+				});
+			}
+		}
+	});
+	checkUniqueIds(value, "blips", issues);
+}
+
+function validateViewState(value: unknown, issues: RadarValidationIssue[]): void {
+	if (value === undefined) return;
+	if (!isObject(value)) {
+		issues.push({ path: "viewState", message: "not an object" });
+		return;
+	}
+	for (const key of ["zoom", "panX", "panY"]) {
+		if (!isFiniteNumber(value[key])) {
+			issues.push({ path: `viewState.${key}`, message: "must be a number" });
+		}
+	}
+	const { minZoom, maxZoom } = SVG_CONFIG;
+	if (isFiniteNumber(value.zoom) && (value.zoom < minZoom || value.zoom > maxZoom)) {
+		issues.push({ path: "viewState.zoom", message: `must be from ${minZoom} to ${maxZoom}` });
+	}
+	if (value.layout !== undefined && !isLayout(value.layout)) {
+		issues.push({ path: "viewState.layout", message: `must be "radar", "table" or "split"` });
+	}
+	for (const key of ["snapToCells", "showTimeline", "showTrails"]) {
+		if (value[key] !== undefined && typeof value[key] !== "boolean") {
+			issues.push({ path: `viewState.${key}`, message: "must be true or false" });
+		}
+	}
+}
+
+function isSource(value: unknown): value is RadarSource {
+	return (
+		isObject(value) &&
+		(value.type === "tag" || value.type === "folder" || value.type === "property") &&
+		typeof value.value === "string" &&
+		(value.onUnmatched === "flag" || value.onUnmatched === "remove") &&
+		["propertyValue", "priorityProperty", "categoryProperty"].every(
+			(key) => value[key] === undefined || typeof value[key] === "string"
+		)
+	);
+}
+
+function validateSource(value: unknown, issues: RadarValidationIssue[]): void {
+	if (value !== undefined && !isSource(value)) {
+		issues.push({
+			path: "source",
+			message: `needs a type ("tag", "folder" or "property"), a value and onUnmatched ("flag" or "remove")`,
+		});
+	}
+}
+
+function validateSnapshots(value: unknown, issues: RadarValidationIssue[]): void {
+	if (value === undefined) return;
+	if (!Array.isArray(value)) {
+		issues.push({ path: "snapshots", message: "must be a list" });
+		return;
+	}
+	value.forEach((snapshot: unknown, index) => {
+		const path = `snapshots[${index}]`;
+		if (!isObject(snapshot)) {
+			issues.push({ path, message: "not an object" });
+			return;
+		}
+		if (!isNonEmptyString(snapshot.id)) {
+			issues.push({ path: `${path}.id`, message: "missing id" });
+		}
+		if (typeof snapshot.label !== "string") {
+			issues.push({ path: `${path}.label`, message: "must be text" });
+		}
+		if (!isFiniteNumber(snapshot.createdAt) || snapshot.createdAt < 0) {
+			issues.push({ path: `${path}.createdAt`, message: "must be a timestamp" });
+		}
+
+		// A snapshot holds the same rings, segments and blips as the radar itself
+		const snapshotIssues: RadarValidationIssue[] = [];
+		validatePriorityLevels(snapshot.priorityLevels, snapshotIssues);
+		validateCategories(snapshot.categories, snapshotIssues);
+		validateBlips(snapshot.blips, snapshotIssues);
+		for (const issue of snapshotIssues) {
+			issues.push({ path: `${path}.${issue.path}`, message: issue.message });
+		}
+	});
+	checkUniqueIds(value, "snapshots", issues);
+}
+
+/**
+ * Validate migrated radar data
+ * @returns Every problem found, empty when the data is valid
+ */
+export function validateRadarData(data: unknown): RadarValidationIssue[] {
+	const issues: RadarValidationIssue[] = [];
+	if (!isObject(data)) {
+		issues.push({ path: "(root)", message: "radar data must be a JSON object" });
+		return issues;
+	}
+
+	const version = getSchemaVersion(data);
+	if (version > CURRENT_SCHEMA_VERSION) {
+		issues.push({
+			path: "schemaVersion",
+			message: `version ${version} was written by a newer version of the plugin (supported: ${CURRENT_SCHEMA_VERSION})`,
+		});
+		return issues;
+	}
+
+	validatePriorityLevels(data.priorityLevels, issues);
+	validateCategories(data.categories, issues);
+	validateBlips(data.blips, issues);
+	validateViewState(data.viewState, issues);
+	validateSource(data.source, issues);
+	validateSnapshots(data.snapshots, issues);
+	return issues;
+}
+
+/**
+ * Parse, migrate and validate the contents of a .radar file
+ * @throws RadarValidationError when the contents are not usable
+ */
+export function parseRadarData(content: string): RadarData {
+	let raw: unknown;
+	try {
+		raw = JSON.parse(content);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		throw new RadarValidationError([{ path: "(file)", message: `invalid JSON: ${message}` }], undefined, false);
+	}
+
+	const data = migrateRadarData(raw);
+	const issues = validateRadarData(data);
+	if (issues.length > 0) {
+		const canRepair = isObject(data) && getSchemaVersion(data) <= CURRENT_SCHEMA_VERSION;
+		throw new RadarValidationError(issues, data, canRepair);
+	}
+	return data as RadarData;
+}
+
+/**
+ * Take a unique id from the raw value, or generate one
+ */
+function repairId(value: unknown, seen: Set<string>): string {
+	const id = isNonEmptyString(value) && !seen.has(value) ? value : generateId();
+	seen.add(id);
+	return id;
+}
+
+function repairPriorityLevels(value: unknown): PriorityLevel[] {
+	const seen = new Set<string>();
+	const priorities = (Array.isArray(value) ? value : [])
+		.filter(isObject)
+		.slice(0, STRUCTURE_LIMITS.maxPriorities)
+		.map((priority) => ({
+			id: repairId(priority.id, seen),
+			name: typeof priority.name === "string" ? priority.name : "",
+			maxRadius: isFiniteNumber(priority.maxRadius) ? clamp(priority.maxRadius, 0.01, 1) : 1,
+		}))
+		.sort((a, b) => a.maxRadius - b.maxRadius);
+
+	if (priorities.length === 0) {
+		return DEFAULT_PRIORITIES.map((p) => ({ ...p }));
+	}
+
+	// The outermost ring always reaches the edge of the radar
+	const last = priorities[priorities.length - 1];
+	if (last) {
+		last.maxRadius = 1;
+	}
+
+	// Rings sharing a radius are spread evenly between it and the next ring inwards
+	let inner = 0;
+	let start = 0;
+	while (start < priorities.length) {
+		const radius = priorities[start]?.maxRadius ?? 1;
+		let end = start + 1;
+		while (end < priorities.length && priorities[end]?.maxRadius === radius) {
+			end++;
+		}
+		const count = end - start;
+		for (let i = 0; i < count - 1; i++) {
+			const priority = priorities[start + i];
+			if (priority) {
+				priority.maxRadius = inner + ((radius - inner) * (i + 1)) / count;
+			}
+		}
+		inner = radius;
+		start = end;
+	}
+	return priorities;
+}
+
+function repairCategories(value: unknown): Category[] {
+	const seen = new Set<string>();
+	const categories = sortCategories(
+		(Array.isArray(value) ? value : [])
+			.filter(isObject)
+			.slice(0, STRUCTURE_LIMITS.maxCategories)
+			.map((category) => ({
+				id: repairId(category.id, seen),
+				name: typeof category.name === "string" ? category.name : "",
+				startAngle: isFiniteNumber(category.startAngle) ? normalizeAngle(category.startAngle) : 0,
+				...(typeof category.color === "string" && { color: category.color }),
+			}))
+	);
+
+	// Segments sharing a start angle are spread evenly between it and the next segment
+	let start = 0;
+	while (start < categories.length) {
+		const angle = categories[start]?.startAngle ?? 0;
+		let end = start + 1;
+		while (end < categories.length && categories[end]?.startAngle === angle) {
+			end++;
+		}
+		const next = end < categories.length ? (categories[end]?.startAngle ?? 360) : (categories[0]?.startAngle ?? 0) + 360;
+		const count = end - start;
+		for (let i = 1; i < count; i++) {
+			const category = categories[start + i];
+			if (category) {
+				category.startAngle = normalizeAngle(angle + ((next - angle) * i) / count);
+			}
+		}
+		start = end;
+	}
+	return sortCategories(categories);
+}
+
+function repairBlips(value: unknown): Blip[] {
+	const seen = new Set<string>();
+	return (Array.isArray(value) ? value : [])
+		.filter(isObject)
+		.map((raw) => {
+			const notePath = isNonEmptyString(raw.notePath) ? raw.notePath : undefined;
+			const blip: RawObject = {
+				...raw,
+				id: repairId(raw.id, seen),
+				type: notePath && raw.type !== "text" ? "note" : "text",
+				title: typeof raw.title === "string"
+					? raw.title
+					: notePath?.split("/").pop()?.replace(/\.md$/, "") ?? "Untitled",
+				r: isFiniteNumber(raw.r) ? clamp(raw.r, 0, 1) : 0.5,
+				theta: isFiniteNumber(raw.theta) ? normalizeAngle(raw.theta) : 0,
+			};
+			if (blip.type !== "note") {
+				delete blip.notePath;
+			}
+			if (typeof blip.color !== "string") {
+				delete blip.color;
+			}
+			if (typeof blip.description !== "string") {
+				delete blip.description;
+			}
+			if (typeof blip.orphaned !== "boolean" || blip.type !== "note") {
+				delete blip.orphaned;
+			}
+			if (typeof blip.unmatched !== "boolean" || blip.type !== "note") {
+				delete blip.unmatched;
+			}
+			if (typeof blip.sourced !== "boolean" || blip.type !== "note") {
+				delete blip.sourced;
+			}
+			if (!isFiniteNumber(blip.updatedAt) || blip.updatedAt < 0) {
+				delete blip.updatedAt;
+			}
+			// Damaged entries are dropped; the rest of the history is kept
+			const history = Array.isArray(blip.history) ? blip.history.filter(isHistoryEntry) : [];
+			if (history.length > 0) {
+				blip.history = history;
+			} else {
+				delete blip.history;
+			}
+			return blip as unknown as Blip;
+		});
+}
+
+function repairSnapshots(value: unknown): RadarSnapshot[] {
+	const seen = new Set<string>();
+	return (Array.isArray(value) ? value : [])
+		.filter(isObject)
+		.map((snapshot) => ({
+			id: repairId(snapshot.id, seen),
+			label: typeof snapshot.label === "string" ? snapshot.label : "Snapshot",
+			createdAt: isFiniteNumber(snapshot.createdAt) && snapshot.createdAt >= 0 ? snapshot.createdAt : 0,
+			priorityLevels: repairPriorityLevels(snapshot.priorityLevels),
+			categories: repairCategories(snapshot.categories),
+			blips: repairBlips(snapshot.blips),
+		}));
+}
+
+/**
+ * Zoom, pan and toggles from a radar file or a workspace leaf, without damaged fields
+ * @returns undefined when zoom or pan are missing
+ */
+export function repairViewState(value: unknown): ViewState | undefined {
+	if (!isObject(value) || !isFiniteNumber(value.zoom) || !isFiniteNumber(value.panX) || !isFiniteNumber(value.panY)) {
+		return undefined;
+	}
+	return {
+		zoom: clamp(value.zoom, SVG_CONFIG.minZoom, SVG_CONFIG.maxZoom),
+		panX: value.panX,
+		panY: value.panY,
+		...(isLayout(value.layout) && { layout: value.layout }),
+		...(typeof value.snapToCells === "boolean" && { snapToCells: value.snapToCells }),
+		...(typeof value.showTimeline === "boolean" && { showTimeline: value.showTimeline }),
+		...(typeof value.showTrails === "boolean" && { showTrails: value.showTrails }),
+	};
+}
+
+/**
+ * Turn damaged radar data into valid data: clamps r, normalizes theta,
+ * regenerates missing or duplicate ids and fills in missing lists
+ */
+export function repairRadarData(raw: unknown): RadarData {
+	const data = migrateRadarData(raw);
+	const source = isObject(data) ? data : {};
+
+	const repaired: RadarData = {
+		...source,
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		priorityLevels: repairPriorityLevels(source.priorityLevels),
+		categories: repairCategories(source.categories),
+		blips: repairBlips(source.blips),
+	};
+
+	const viewState = repairViewState(source.viewState);
+	if (viewState) {
+		repaired.viewState = viewState;
+	} else {
+		delete repaired.viewState;
+	}
+
+	// A damaged source is dropped rather than guessed, so it cannot add or remove blips
+	if (!isSource(source.source)) {
+		delete repaired.source;
+	}
+
+	const snapshots = repairSnapshots(source.snapshots);
+	if (snapshots.length > 0) {
+		repaired.snapshots = snapshots;
+	} else {
+		delete repaired.snapshots;
+	}
+
+	return repaired;
+}
@@ -0,0 +1,230 @@
+/**
+ * Radar Source
+ * Keeps radars with a note source (tag, folder or property) in sync with the vault:
+ * matching notes are added as blips, blips of notes that stop matching are flagged or removed
+ */
+
+import { TFile, debounce, getAllTags, normalizePath } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarData, RadarSource, Blip } from "../types";
+import { findFreePosition, getBlipCell } from "../utils/blipArrangement";
+import { sortPriorities } from "../utils/radarStructure";
+import { generateId } from "../utils/idGenerator";
+
+// Wait for a burst of vault changes to settle before syncing
+const SYNC_DELAY = 1000;
+
+/**
+ * Sync every radar with a source whenever notes change
+ */
+export function registerRadarSourceSync(plugin: RadarPlugin): void {
+	const sync = debounce(() => void syncAllRadarSources(plugin), SYNC_DELAY, true);
+
+	// Registered once the vault is loaded, so startup doesn't trigger a sync per file
+	plugin.app.workspace.onLayoutReady(() => {
+		// "resolved" follows every note change once the metadata cache has caught up
+		plugin.registerEvent(plugin.app.metadataCache.on("resolved", sync));
+		plugin.registerEvent(plugin.app.vault.on("rename", sync));
+		sync();
+	});
+}
+
+/**
+ * Sync every radar with a source, through the open view when the radar is open.
+ * Closed radars without a source are not read.
+ */
+export async function syncAllRadarSources(plugin: RadarPlugin): Promise<void> {
+	const { radarStore, radarIndex } = plugin;
+	for (const radarFile of radarStore.listRadarFiles()) {
+		const view = plugin.getRadarView(radarFile);
+		if (view) {
+			view.syncSource();
+			continue;
+		}
+		if (!(await radarIndex.hasSource(radarFile))) continue;
+		await radarStore.updateRadarFile(radarFile, (radar) => syncRadarSource(plugin, radar));
+	}
+}
+
+/**
+ * Short description of a source, e.g. "#project" or "folder Projects"
+ */
+export function describeSource(source: RadarSource): string {
+	switch (source.type) {
+		case "tag":
+			return `#${source.value}`;
+		case "folder":
+			return `folder ${source.value}`;
+		case "property":
+			return source.propertyValue ? `${source.value}: ${source.propertyValue}` : `property ${source.value}`;
+	}
+}
+
+/**
+ * Whether a note matches the source
+ * @returns undefined when the note is not indexed yet and the answer is unknown
+ */
+export function noteMatchesSource(plugin: RadarPlugin, file: TFile, source: RadarSource): boolean | undefined {
+	if (source.type === "folder") {
+		const folder = normalizePath(source.value);
+		return folder === "/" || file.path.startsWith(`${folder}/`);
+	}
+
+	const cache = plugin.app.metadataCache.getFileCache(file);
+	if (!cache) {
+		return undefined;
+	}
+
+	if (source.type === "tag") {
+		const wanted = source.value.replace(/^#/, "").toLowerCase();
+		const tags = (getAllTags(cache) ?? []).map((tag) => tag.replace(/^#/, "").toLowerCase());
+		// Nested tags match their parents: #project matches #project/alpha
+		return tags.some((tag) => tag === wanted || tag.startsWith(`${wanted}/`));
+	}
+
+	const raw: unknown = cache.frontmatter?.[source.value];
+	if (raw === undefined || raw === null) {
+		return false;
+	}
+	if (!source.propertyValue) {
+		return true;
+	}
+	const wanted = source.propertyValue.toLowerCase();
+	const values: unknown[] = Array.isArray(raw) ? raw : [raw];
+	return values.some((value) =>
+		(typeof value === "string" || typeof value === "number" || typeof value === "boolean") &&
+		String(value).toLowerCase() === wanted
+	);
+}
+
+/** Changes that bring a radar in line with its source */
+export interface SourceSyncChanges {
+	/** New blips (with ids) for notes that started matching */
+	added: Blip[];
+	/** Blips of notes that stopped matching, with their index in the blip list */
+	removed: { blip: Blip; index: number }[];
+	/** Blips to flag as no longer matching */
+	flagged: string[];
+	/** Flagged blips whose notes match again */
+	unflagged: string[];
+}
+
+/**
+ * Work out which blips to add for notes that match the source, and which blips of notes
+ * that stopped matching to flag or remove. Notes that are not indexed yet are left alone.
+ * @returns The changes, or null when there is nothing to change
+ */
+export function planSourceSync(plugin: RadarPlugin, radar: RadarData): SourceSyncChanges | null {
+	const { source } = radar;
+	// An empty value would match every note; the whole vault needs an explicit "/" folder
+	if (!source?.value.trim()) {
+		return null;
+	}
+
+	const changes: SourceSyncChanges = { added: [], removed: [], flagged: [], unflagged: [] };
+
+	// Existing note blips; those added by hand are never flagged or removed
+	const notePaths = new Set<string>();
+	radar.blips.forEach((blip, index) => {
+		if (blip.type !== "note" || !blip.notePath) return;
+		notePaths.add(blip.notePath);
+		if (blip.orphaned || !(blip.sourced || blip.unmatched)) return;
+
+		const file = plugin.app.vault.getAbstractFileByPath(blip.notePath);
+		const matches = file instanceof TFile ? noteMatchesSource(plugin, file, source) : false;
+		if (matches === undefined) return;
+
+		if (matches && blip.unmatched) {
+			changes.unflagged.push(blip.id);
+		} else if (!matches && source.onUnmatched === "remove") {
+			changes.removed.push({ blip: { ...blip }, index });
+		} else if (!matches && !blip.unmatched) {
+			changes.flagged.push(blip.id);
+		}
+	});
+
+	// New notes, placed one after another so they keep apart
+	const working: RadarData = { ...radar, blips: [...radar.blips] };
+	for (const file of plugin.app.vault.getMarkdownFiles()) {
+		if (notePaths.has(file.path) || noteMatchesSource(plugin, file, source) !== true) continue;
+
+		const blip: Blip = {
+			id: generateId(),
+			type: "note",
+			title: file.basename,
+			notePath: file.path,
+			sourced: true,
+			...getSourcePlacement(plugin, working, source, file),
+		};
+		working.blips.push(blip);
+		changes.added.push(blip);
+	}
+
+	const { added, removed, flagged, unflagged } = changes;
+	return added.length + removed.length + flagged.length + unflagged.length > 0 ? changes : null;
+}
+
+/**
+ * Bring a radar in line with its source
+ * @returns Whether the radar changed
+ */
+export function syncRadarSource(plugin: RadarPlugin, radar: RadarData): boolean {
+	const changes = planSourceSync(plugin, radar);
+	if (!changes) {
+		return false;
+	}
+
+	const { radarStore } = plugin;
+	for (const blipId of changes.flagged) {
+		radarStore.updateBlip(radar, blipId, { unmatched: true });
+	}
+	for (const blipId of changes.unflagged) {
+		radarStore.updateBlip(radar, blipId, { unmatched: undefined });
+	}
+	for (const { blip } of changes.removed) {
+		radarStore.removeBlip(radar, blip.id);
+	}
+	for (const blip of changes.added) {
+		radarStore.insertBlip(radar, blip);
+	}
+	return true;
+}
+
+/**
+ * Position for a newly added note: the ring and segment named by its properties,
+ * otherwise the outermost ring and the emptiest segment of that ring
+ */
+function getSourcePlacement(
+	plugin: RadarPlugin,
+	radar: RadarData,
+	source: RadarSource,
+	file: TFile
+): { r: number; theta: number } {
+	const frontmatter = plugin.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+	const readName = (key: string | undefined): string | undefined => {
+		const raw: unknown = key ? frontmatter[key] : undefined;
+		const value: unknown = Array.isArray(raw) ? raw[0] : raw;
+		return typeof value === "string" ? value.trim().toLowerCase() : undefined;
+	};
+	const priorityName = readName(source.priorityProperty || plugin.settings.priorityProperty);
+	const categoryName = readName(source.categoryProperty || plugin.settings.categoryProperty);
+
+	const priorities = sortPriorities(radar.priorityLevels);
+	const priority = priorities.find((p) => !!priorityName && p.name.toLowerCase() === priorityName)
+		?? priorities[priorities.length - 1];
+	if (!priority) {
+		return { r: 0.5, theta: Math.random() * 360 };
+	}
+
+	let category = radar.categories.find((c) => !!categoryName && c.name.toLowerCase() === categoryName);
+	if (!category && radar.categories.length > 0) {
+		const countIn = (categoryId: string) => radar.blips.filter((blip) => {
+			const cell = getBlipCell(blip, radar);
+			return cell?.priorityId === priority.id && cell.categoryId === categoryId;
+		}).length;
+		category = [...radar.categories].sort((a, b) => countIn(a.id) - countIn(b.id))[0];
+	}
+
+	return findFreePosition(radar, { priorityId: priority.id, categoryId: category?.id })
+		?? { r: 0.5, theta: Math.random() * 360 };
+}
@@ -0,0 +1,51 @@
+/**
+ * Radar Templates
+ * Built-in radar layouts offered when creating a new radar
+ */
+
+import type { RadarTemplate } from "../types";
+import { CURRENT_SCHEMA_VERSION } from "../constants";
+import { createPriorityLevels, createCategories } from "../utils/radarStructure";
+
+/**
+ * Build a template with evenly spaced rings and equal segments
+ */
+function createTemplate(
+	name: string,
+	description: string,
+	ringNames: string[],
+	segmentNames: string[]
+): RadarTemplate {
+	return {
+		name,
+		description,
+		data: {
+			schemaVersion: CURRENT_SCHEMA_VERSION,
+			priorityLevels: createPriorityLevels(ringNames.length, ringNames),
+			categories: createCategories(segmentNames.length, segmentNames),
+			blips: [],
+		},
+	};
+}
+
+/** Built-in templates */
+export const BUILT_IN_TEMPLATES: RadarTemplate[] = [
+	createTemplate(
+		"Tech radar",
+		"Adopt, trial, assess and hold across four quadrants",
+		["Adopt", "Trial", "Assess", "Hold"],
+		["Techniques", "Tools", "Platforms", "Languages & frameworks"]
+	),
+	createTemplate(
+		"Eisenhower matrix",
+		"Urgent and not urgent rings, important and not important halves",
+		["Urgent", "Not urgent"],
+		["Important", "Not important"]
+	),
+	createTemplate(
+		"OKR",
+		"Key results by confidence, one segment per objective",
+		["Committed", "Stretch", "Aspirational"],
+		["Objective 1", "Objective 2", "Objective 3"]
+	),
+];
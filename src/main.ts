@@ -3,22 +3,33 @@
  * An Obsidian plugin for creating radar visualizations to track notes and items
  */
 
-import { Plugin } from "obsidian";
+import { Plugin, TFile } from "obsidian";
 import { RadarPluginSettings, DEFAULT_SETTINGS, RadarSettingTab } from "./settings";
 import { VIEW_TYPE_RADAR, RADAR_FILE_EXTENSION } from "./constants";
 import { RadarView } from "./ui/RadarView";
 import { RadarStore } from "./data/RadarStore";
+import { RadarIndex } from "./data/RadarIndex";
 import { registerCommands } from "./commands";
+import { registerNoteLinkSync } from "./data/noteLinkSync";
+import { FrontmatterSync } from "./data/frontmatterSync";
+import { registerRadarSourceSync } from "./data/radarSource";
+import { registerRadarEmbeds } from "./ui/RadarEmbed";
 
 export default class RadarPlugin extends Plugin {
 	settings: RadarPluginSettings;
 	radarStore: RadarStore;
+	radarIndex: RadarIndex;
+	frontmatterSync: FrontmatterSync;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
 		// Initialize radar store
-		this.radarStore = new RadarStore(this.app);
+		this.radarStore = new RadarStore(this.app, this.settings);
+
+		// Which radars have a source and which notes they link, for the syncs below
+		this.radarIndex = new RadarIndex(this.app);
+		this.radarIndex.registerEvents(this);
 
 		// Register the radar view
 		this.registerView(VIEW_TYPE_RADAR, (leaf) => new RadarView(leaf, this));
@@ -26,9 +37,25 @@ export default class RadarPlugin extends Plugin {
 		// Register file extension to open with radar view
 		this.registerExtensions([RADAR_FILE_EXTENSION], VIEW_TYPE_RADAR);
 
+		// Page previews of note blips, configurable under the core "Page preview" settings
+		this.registerHoverLinkSource(VIEW_TYPE_RADAR, { display: "Radar", defaultMod: false });
+
 		// Register commands
 		registerCommands(this);
 
+		// Keep note blips linked when notes are renamed or deleted
+		registerNoteLinkSync(this);
+
+		// Keep note properties and blip positions in sync
+		this.frontmatterSync = new FrontmatterSync(this);
+		this.frontmatterSync.register();
+
+		// Add and flag blips of radars that follow a tag, folder or property
+		registerRadarSourceSync(this);
+
+		// Render radars embedded in notes
+		registerRadarEmbeds(this);
+
 		// Add settings tab
 		this.addSettingTab(new RadarSettingTab(this.app, this));
 
@@ -41,6 +68,29 @@ export default class RadarPlugin extends Plugin {
 
 	onunload() {}
 
+	/**
+	 * Redraw open radar views after a display setting changed
+	 */
+	refreshRadarViews(): void {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_RADAR)) {
+			if (leaf.view instanceof RadarView) {
+				leaf.view.redraw();
+			}
+		}
+	}
+
+	/**
+	 * The open view showing a radar file, if any
+	 */
+	getRadarView(file: TFile): RadarView | undefined {
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_RADAR)) {
+			if (leaf.view instanceof RadarView && leaf.view.file === file) {
+				return leaf.view;
+			}
+		}
+		return undefined;
+	}
+
 	async loadSettings(): Promise<void> {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<RadarPluginSettings>);
 	}
@@ -5,15 +5,18 @@
 
 import { App, PluginSettingTab, Setting } from "obsidian";
 import type RadarPlugin from "./main";
-import type { RadarPluginSettings } from "./types";
+import type { BlipLabelMode, BlipPlacementMode } from "./types";
+import { PRIORITY_NAME_PRESETS } from "./constants";
 
 export type { RadarPluginSettings } from "./types";
+export { DEFAULT_SETTINGS } from "./constants";
 
-export const DEFAULT_SETTINGS: RadarPluginSettings = {
-	defaultPriorityCount: 4,
-	defaultCategoryCount: 4,
-	blipRadius: 10,
-};
+/**
+ * Parse a comma-separated settings value into a list
+ */
+function parseList(value: string): string[] {
+	return value.trim() ? value.split(",").map((item) => item.trim()) : [];
+}
 
 export class RadarSettingTab extends PluginSettingTab {
 	plugin: RadarPlugin;
@@ -55,6 +58,120 @@ export class RadarSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Default ring names")
+			.setDesc("Comma-separated, innermost ring first. Leave empty to use built-in names.")
+			.addText((text) =>
+				text
+					.setPlaceholder((PRIORITY_NAME_PRESETS[4] ?? []).join(", "))
+					.setValue(this.plugin.settings.defaultPriorityNames.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.defaultPriorityNames = parseList(value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Default segment names")
+			.setDesc("Comma-separated, counterclockwise from 3 o'clock. Leave empty for unnamed segments.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Tools, techniques, platforms, languages")
+					.setValue(this.plugin.settings.defaultCategoryNames.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.defaultCategoryNames = parseList(value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Default segment colors")
+			.setDesc("Comma-separated CSS colors in the same order as the segment names.")
+			.addText((text) =>
+				text
+					.setPlaceholder("#4e79a7, #f28e2b, #59a14f, #e15759")
+					.setValue(this.plugin.settings.defaultCategoryColors.join(", "))
+					.onChange(async (value) => {
+						this.plugin.settings.defaultCategoryColors = parseList(value);
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Rename blips with their notes")
+			.setDesc("When a linked note is renamed, also rename blips that still use the old note name.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncTitleOnRename)
+					.onChange(async (value) => {
+						this.plugin.settings.syncTitleOnRename = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Ring property")
+			.setDesc("Note property that holds the ring name of note blips. Moving a blip updates it, and editing it moves the blip. Leave empty to turn off.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Priority")
+					.setValue(this.plugin.settings.priorityProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.priorityProperty = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Segment property")
+			.setDesc("Note property that holds the segment name of note blips, kept in sync the same way. Leave empty to turn off.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Category")
+					.setValue(this.plugin.settings.categoryProperty)
+					.onChange(async (value) => {
+						this.plugin.settings.categoryProperty = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Record blip history")
+			.setDesc("Remember when blips move to another ring or segment, for the timeline and blip trails.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.recordBlipHistory)
+					.onChange(async (value) => {
+						this.plugin.settings.recordBlipHistory = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Template folder")
+			.setDesc("Radar files in this folder are offered as templates when creating a radar.")
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/radars")
+					.setValue(this.plugin.settings.templateFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.templateFolder = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Copy template blips")
+			.setDesc("Also copy the blips of the chosen template into the new radar.")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.copyTemplateBlips)
+					.onChange(async (value) => {
+						this.plugin.settings.copyTemplateBlips = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Blip size")
 			.setDesc("Radius of blip circles in pixels (5-20)")
@@ -66,6 +183,37 @@ export class RadarSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings.blipRadius = value;
 						await this.plugin.saveSettings();
+						this.plugin.refreshRadarViews();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Blip labels")
+			.setDesc("Titles next to the blips, or numbers on the blips with a numbered legend (as in published tech radars).")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("titles", "Titles")
+					.addOption("numbers", "Numbers and legend")
+					.setValue(this.plugin.settings.blipLabels)
+					.onChange(async (value) => {
+						this.plugin.settings.blipLabels = value as BlipLabelMode;
+						await this.plugin.saveSettings();
+						this.plugin.refreshRadarViews();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("New blip placement")
+			.setDesc("Where added blips go. Ring and segment placement puts them in a free spot of that cell; inferring matches ring and segment names against the note's tags and properties, and asks for anything it cannot find.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("random", "Middle ring, random angle")
+					.addOption("ask", "Ask for ring and segment")
+					.addOption("infer", "Infer from the note, otherwise ask")
+					.setValue(this.plugin.settings.newBlipPlacement)
+					.onChange(async (value) => {
+						this.plugin.settings.newBlipPlacement = value as BlipPlacementMode;
+						await this.plugin.saveSettings();
 					})
 			);
 	}
@@ -6,6 +6,20 @@
 /** Type of blip - either a linked note or standalone text */
 export type BlipType = "note" | "text";
 
+/** A position a blip moved away from, recorded when it changed ring or segment */
+export interface BlipHistoryEntry {
+	/** When the blip left this position (ms since epoch) */
+	timestamp: number;
+	/** Radial distance from center (0-1, normalized) */
+	r: number;
+	/** Angle in degrees */
+	theta: number;
+	/** Ring name at the time, so the entry still reads right after rings are renamed */
+	priorityName?: string;
+	/** Segment name at the time */
+	categoryName?: string;
+}
+
 /** A blip represents an item on the radar */
 export interface Blip {
 	/** Unique identifier (UUID) */
@@ -22,8 +36,29 @@ export interface Blip {
 	theta: number;
 	/** Optional custom color */
 	color?: string;
+	/** Optional free-text description (markdown) */
+	description?: string;
+	/** Set when the linked note was deleted (only for type="note") */
+	orphaned?: boolean;
+	/** Set when the linked note no longer matches the radar's note source */
+	unmatched?: boolean;
+	/** Set when the radar's note source added the blip; only these are flagged or removed by it */
+	sourced?: boolean;
+	/** Last change to the blip (ms since epoch, missing in older files) */
+	updatedAt?: number;
+	/** Earlier rings and segments of the blip, oldest first (missing when never moved) */
+	history?: BlipHistoryEntry[];
 }
 
+/** How blips are labelled: titles next to the dots, or numbers with a legend */
+export type BlipLabelMode = "titles" | "numbers";
+
+/**
+ * Where new blips go: the middle ring at a random angle, a free spot in a ring and
+ * segment the user picks, or one inferred from the note's tags and properties
+ */
+export type BlipPlacementMode = "random" | "ask" | "infer";
+
 /** A priority level defines a ring on the radar */
 export interface PriorityLevel {
 	/** Unique identifier */
@@ -46,7 +81,10 @@ export interface Category {
 	color?: string;
 }
 
-/** View state for pan and zoom */
+/** What the radar view shows: the radar, the blip table, or both side by side */
+export type RadarLayout = "radar" | "table" | "split";
+
+/** View state for pan, zoom, layout and snapping */
 export interface ViewState {
 	/** Zoom level (1 = default, 2 = 2x zoom) */
 	zoom: number;
@@ -54,16 +92,73 @@ export interface ViewState {
 	panX: number;
 	/** Pan offset Y */
 	panY: number;
+	/** Radar, table or split layout (missing in older files) */
+	layout?: RadarLayout;
+	/** Snap dragged blips into rings and segments (missing in older files) */
+	snapToCells?: boolean;
+	/** Show the timeline panel of ring and segment changes */
+	showTimeline?: boolean;
+	/** Draw the past positions of blips as trails */
+	showTrails?: boolean;
+}
+
+/** What a note source matches: notes with a tag, notes in a folder, or notes with a property */
+export type RadarSourceType = "tag" | "folder" | "property";
+
+/** Notes that are kept on the radar automatically */
+export interface RadarSource {
+	type: RadarSourceType;
+	/** Tag (without #), folder path, or property name */
+	value: string;
+	/** For property sources: the value the property must have (empty = any value) */
+	propertyValue?: string;
+	/** Blips of notes that stop matching are flagged, or removed */
+	onUnmatched: "flag" | "remove";
+	/** Property naming the ring of newly added notes (default: the "Ring property" setting) */
+	priorityProperty?: string;
+	/** Property naming the segment of newly added notes (default: the "Segment property" setting) */
+	categoryProperty?: string;
+}
+
+/** The rings, segments and blips of a radar frozen at one point in time */
+export interface RadarSnapshot {
+	/** Unique identifier */
+	id: string;
+	/** Display name, e.g. "Volume 3" */
+	label: string;
+	/** When the snapshot was taken (ms since epoch) */
+	createdAt: number;
+	priorityLevels: PriorityLevel[];
+	categories: Category[];
+	blips: Blip[];
 }
 
 /** Complete radar data structure stored in JSON files */
 export interface RadarData {
+	/** File format version, see CURRENT_SCHEMA_VERSION */
+	schemaVersion: number;
 	/** Priority levels (1-7 rings) */
 	priorityLevels: PriorityLevel[];
 	/** Categories (0-8 segments) */
 	categories: Category[];
 	/** Blips on the radar */
 	blips: Blip[];
+	/** Last zoom, pan and layout (missing in older files) */
+	viewState?: ViewState;
+	/** Notes that are added to the radar automatically (none when missing) */
+	source?: RadarSource;
+	/** Earlier states of the radar, oldest first (missing when none were taken) */
+	snapshots?: RadarSnapshot[];
+}
+
+/** A starting point for new radars */
+export interface RadarTemplate {
+	/** Display name in the template picker */
+	name: string;
+	/** Short explanation shown under the name */
+	description: string;
+	/** Radar skeleton to copy from */
+	data: RadarData;
 }
 
 /** Plugin settings stored via Obsidian's data API */
@@ -72,6 +167,28 @@ export interface RadarPluginSettings {
 	defaultPriorityCount: number;
 	/** Default number of categories for new radars */
 	defaultCategoryCount: number;
+	/** Ring names for new radars, innermost first (empty = built-in names) */
+	defaultPriorityNames: string[];
+	/** Segment names for new radars, in start angle order */
+	defaultCategoryNames: string[];
+	/** Segment colors for new radars, in start angle order */
+	defaultCategoryColors: string[];
+	/** Update blip titles when their linked note is renamed */
+	syncTitleOnRename: boolean;
+	/** Vault folder whose .radar files are offered as templates */
+	templateFolder: string;
+	/** Copy the blips of a template into new radars */
+	copyTemplateBlips: boolean;
 	/** Blip circle radius in pixels */
 	blipRadius: number;
+	/** Titles next to blips, or numbers on the dots with a numbered legend */
+	blipLabels: BlipLabelMode;
+	/** How the ring and segment of new blips are chosen */
+	newBlipPlacement: BlipPlacementMode;
+	/** Note property mirroring the ring of note blips (empty = off) */
+	priorityProperty: string;
+	/** Note property mirroring the segment of note blips (empty = off) */
+	categoryProperty: string;
+	/** Record a history entry when a blip changes ring or segment */
+	recordBlipHistory: boolean;
 }
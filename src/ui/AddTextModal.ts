@@ -7,9 +7,10 @@ import { App, Modal, Setting } from "obsidian";
 
 export class AddTextModal extends Modal {
 	private title = "";
-	private onSubmit: (title: string) => void;
+	private description = "";
+	private onSubmit: (title: string, description?: string) => void;
 
-	constructor(app: App, onSubmit: (title: string) => void) {
+	constructor(app: App, onSubmit: (title: string, description?: string) => void) {
 		super(app);
 		this.onSubmit = onSubmit;
 	}
@@ -30,6 +31,16 @@ export class AddTextModal extends Modal {
 					})
 			);
 
+		new Setting(contentEl)
+			.setName("Description")
+			.setDesc("Shown when hovering the blip. Markdown is supported.")
+			.addTextArea((text) => {
+				text.onChange((value) => {
+					this.description = value;
+				});
+				text.inputEl.rows = 4;
+			});
+
 		new Setting(contentEl)
 			.addButton((btn) =>
 				btn
@@ -38,7 +49,7 @@ export class AddTextModal extends Modal {
 					.onClick(() => {
 						if (this.title.trim()) {
 							this.close();
-							this.onSubmit(this.title.trim());
+							this.onSubmit(this.title.trim(), this.description.trim() || undefined);
 						}
 					})
 			)
@@ -0,0 +1,111 @@
+/**
+ * Blip Preview
+ * Hover preview of a blip: a tooltip with the title, ring, segment and rendered
+ * description, and for note blips Obsidian's page preview of the note as well
+ */
+
+import { App, Component, HoverParent, HoverPopover, MarkdownRenderer } from "obsidian";
+import type { RadarData, Blip } from "../types";
+import { VIEW_TYPE_RADAR } from "../constants";
+import { getPriorityFromRadius, getCategoryFromAngle } from "../utils/polarCoordinates";
+
+// Gap in pixels between the blip and the tooltip, and the window edge
+const TOOLTIP_OFFSET = 8;
+
+export class BlipPreview implements HoverParent {
+	hoverPopover: HoverPopover | null = null;
+	private app: App;
+	private tooltipEl: HTMLElement | null = null;
+	/** Owns the rendered description, unloaded with the tooltip */
+	private component: Component | null = null;
+
+	constructor(app: App) {
+		this.app = app;
+	}
+
+	/**
+	 * Preview a blip next to its group in the SVG
+	 * @param sourcePath - Path links in the description are resolved from (the radar file)
+	 */
+	show(blip: Blip, radarData: RadarData, blipGroup: SVGGElement, event: MouseEvent, sourcePath: string): void {
+		this.hide();
+
+		// The page preview opens below the blip, so the tooltip of a note blip goes above it
+		const hasNote = blip.type === "note" && !!blip.notePath && !blip.orphaned;
+		if (hasNote) {
+			this.app.workspace.trigger("hover-link", {
+				event,
+				source: VIEW_TYPE_RADAR,
+				hoverParent: this,
+				targetEl: blipGroup,
+				linktext: blip.notePath,
+				sourcePath,
+			});
+		}
+
+		const tooltip = blipGroup.ownerDocument.body.createDiv({ cls: "radar-blip-tooltip" });
+		tooltip.setAttribute("role", "tooltip");
+		tooltip.createDiv({ cls: "radar-blip-tooltip-title", text: blip.title });
+
+		const priority = getPriorityFromRadius(blip.r, radarData.priorityLevels);
+		const category = getCategoryFromAngle(blip.theta, radarData.categories);
+		const place = [
+			priority && `${priority.name || "Unnamed"} ring`,
+			category && `${category.name || "Unnamed"} segment`,
+		].filter(Boolean).join(" · ");
+		if (place) {
+			tooltip.createDiv({ cls: "radar-blip-tooltip-place", text: place });
+		}
+
+		this.tooltipEl = tooltip;
+		if (blip.description) {
+			const descriptionEl = tooltip.createDiv({ cls: "radar-blip-tooltip-description markdown-rendered" });
+			const component = new Component();
+			component.load();
+			this.component = component;
+			// Position again once the markdown has its final size
+			void MarkdownRenderer.render(this.app, blip.description, descriptionEl, sourcePath, component)
+				.then(() => {
+					if (this.tooltipEl === tooltip) this.position(tooltip, blipGroup, hasNote);
+				});
+		}
+		this.position(tooltip, blipGroup, hasNote);
+	}
+
+	/**
+	 * Place the tooltip below the blip, or above it near the bottom of the window
+	 * @param above - Prefer above the blip, unless it would leave the top of the window
+	 */
+	private position(tooltip: HTMLElement, blipGroup: SVGGElement, above: boolean): void {
+		const anchor = (blipGroup.querySelector(".radar-blip-circle") ?? blipGroup).getBoundingClientRect();
+		const win = blipGroup.ownerDocument.defaultView ?? window;
+		const { offsetWidth: width, offsetHeight: height } = tooltip;
+
+		const left = Math.max(TOOLTIP_OFFSET, Math.min(anchor.left, win.innerWidth - width - TOOLTIP_OFFSET));
+		const below = anchor.bottom + TOOLTIP_OFFSET;
+		const aboveTop = anchor.top - height - TOOLTIP_OFFSET;
+		const fitsAbove = aboveTop >= TOOLTIP_OFFSET;
+		const fitsBelow = below + height <= win.innerHeight - TOOLTIP_OFFSET;
+		const top = (above && fitsAbove) || !fitsBelow ? Math.max(TOOLTIP_OFFSET, aboveTop) : below;
+		tooltip.setCssStyles({ left: `${left}px`, top: `${top}px` });
+	}
+
+	/**
+	 * Close the tooltip. A page preview closes by itself, so the pointer can move into it.
+	 */
+	hide(): void {
+		this.tooltipEl?.remove();
+		this.tooltipEl = null;
+		this.component?.unload();
+		this.component = null;
+	}
+
+	/**
+	 * Close the tooltip and the page preview, e.g. when the radar is redrawn
+	 */
+	destroy(): void {
+		this.hide();
+		this.hoverPopover?.unload();
+		this.hoverPopover = null;
+	}
+}
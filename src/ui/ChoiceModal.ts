@@ -0,0 +1,38 @@
+/**
+ * Choice Modal
+ * Generic fuzzy picker for a list of items (rings, segments, snapshots...)
+ */
+
+import { App, FuzzySuggestModal } from "obsidian";
+
+export class ChoiceModal<T> extends FuzzySuggestModal<T> {
+	private items: T[];
+	private getLabel: (item: T) => string;
+	private onSubmit: (item: T) => void;
+
+	constructor(
+		app: App,
+		items: T[],
+		getLabel: (item: T) => string,
+		placeholder: string,
+		onSubmit: (item: T) => void
+	) {
+		super(app);
+		this.items = items;
+		this.getLabel = getLabel;
+		this.onSubmit = onSubmit;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): T[] {
+		return this.items;
+	}
+
+	getItemText(item: T): string {
+		return this.getLabel(item);
+	}
+
+	onChooseItem(item: T, evt: MouseEvent | KeyboardEvent): void {
+		this.onSubmit(item);
+	}
+}
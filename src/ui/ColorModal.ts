@@ -0,0 +1,57 @@
+/**
+ * Color Modal
+ * Modal for picking a blip color (or going back to the theme color)
+ */
+
+import { App, Modal, Setting } from "obsidian";
+
+export class ColorModal extends Modal {
+	private color: string;
+	private heading: string;
+	private onSubmit: (color: string | undefined) => void;
+
+	constructor(app: App, heading: string, initialColor: string | undefined, onSubmit: (color: string | undefined) => void) {
+		super(app);
+		this.heading = heading;
+		this.color = initialColor ?? "#000000";
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: this.heading });
+
+		new Setting(contentEl)
+			.setName("Color")
+			.addColorPicker((picker) =>
+				picker
+					.setValue(this.color)
+					.onChange((value) => {
+						this.color = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Apply")
+					.setCta()
+					.onClick(() => {
+						this.close();
+						this.onSubmit(this.color);
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Use theme color").onClick(() => {
+					this.close();
+					this.onSubmit(undefined);
+				})
+			);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
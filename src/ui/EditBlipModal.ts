@@ -0,0 +1,153 @@
+/**
+ * Edit Blip Modal
+ * Modal for changing the properties of an existing blip
+ */
+
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { Blip, BlipType } from "../types";
+import { AddBlipModal } from "./AddBlipModal";
+
+export type BlipUpdates = Pick<Blip, "title" | "type" | "notePath" | "color" | "description">;
+
+export class EditBlipModal extends Modal {
+	private values: BlipUpdates;
+	private onSubmit: (updates: BlipUpdates) => void;
+
+	constructor(app: App, blip: Blip, onSubmit: (updates: BlipUpdates) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+		this.values = {
+			title: blip.title,
+			type: blip.type,
+			notePath: blip.notePath,
+			color: blip.color,
+			description: blip.description,
+		};
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Rebuild the form (needed when the type or linked note changes)
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Edit blip" });
+
+		new Setting(contentEl)
+			.setName("Title")
+			.addText((text) =>
+				text
+					.setValue(this.values.title)
+					.onChange((value) => {
+						this.values.title = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Type")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("note", "Note")
+					.addOption("text", "Text")
+					.setValue(this.values.type)
+					.onChange((value) => {
+						this.values.type = value as BlipType;
+						this.render();
+					})
+			);
+
+		if (this.values.type === "note") {
+			new Setting(contentEl)
+				.setName("Linked note")
+				.setDesc(this.values.notePath ?? "No note selected")
+				.addButton((btn) =>
+					btn.setButtonText("Choose note").onClick(() => {
+						new AddBlipModal(this.app, (notePath) => {
+							this.values.notePath = notePath;
+							this.render();
+						}).open();
+					})
+				);
+		}
+
+		new Setting(contentEl)
+			.setName("Color")
+			.setDesc(this.values.color ? "Custom color" : "Theme accent color")
+			.addColorPicker((picker) =>
+				picker
+					.setValue(this.values.color ?? "#000000")
+					.onChange((value) => {
+						this.values.color = value;
+					})
+			)
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("eraser")
+					.setTooltip("Use theme color")
+					.onClick(() => {
+						this.values.color = undefined;
+						this.render();
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Description")
+			.setDesc("Markdown is supported")
+			.addTextArea((text) => {
+				text
+					.setValue(this.values.description ?? "")
+					.onChange((value) => {
+						this.values.description = value;
+					});
+				text.inputEl.rows = 5;
+			});
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => this.submit())
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	/**
+	 * Validate and hand the updates back
+	 */
+	private submit(): void {
+		const title = this.values.title.trim();
+		if (!title) {
+			new Notice("Enter a title for the blip");
+			return;
+		}
+		if (this.values.type === "note" && !this.values.notePath) {
+			new Notice("Choose a linked note, or change the type to text");
+			return;
+		}
+
+		const description = this.values.description?.trim();
+		this.close();
+		this.onSubmit({
+			title,
+			type: this.values.type,
+			notePath: this.values.type === "note" ? this.values.notePath : undefined,
+			color: this.values.color,
+			description: description || undefined,
+		});
+	}
+}
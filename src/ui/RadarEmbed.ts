@@ -0,0 +1,401 @@
+/**
+ * Radar Embed
+ * Renders a radar inside a markdown note, for ![[file.radar]] embeds and ```radar code blocks
+ */
+
+import { Keymap, MarkdownRenderChild, TFile } from "obsidian";
+import type RadarPlugin from "../main";
+import type { RadarData, Blip } from "../types";
+import { SVG_CONFIG } from "../constants";
+import { RadarRenderer } from "./RadarRenderer";
+import { RadarInteractions, BlipMove, LONG_PRESS_DELAY } from "./RadarInteractions";
+import { BlipPreview } from "./BlipPreview";
+import { clamp, getPriorityFromRadius, getCategoryFromAngle } from "../utils/polarCoordinates";
+
+export interface RadarEmbedOptions {
+	/** Link or vault path of the .radar file */
+	path: string;
+	/** Disable dragging blips (clicks still open notes) */
+	readOnly: boolean;
+	zoom: number;
+	/** Only show blips in these rings (names, case-insensitive; empty shows all) */
+	rings: string[];
+	/** Only show blips in these segments (names, case-insensitive; empty shows all) */
+	segments: string[];
+}
+
+const DEFAULT_EMBED_OPTIONS: RadarEmbedOptions = {
+	path: "",
+	readOnly: false,
+	zoom: 1,
+	rings: [],
+	segments: [],
+};
+
+/**
+ * Register the ![[file.radar]] post-processor and the radar code block
+ */
+export function registerRadarEmbeds(plugin: RadarPlugin): void {
+	// Embeds are read-only: they show the radar as it is and link to the full view
+	plugin.registerMarkdownPostProcessor((el, ctx) => {
+		el.querySelectorAll<HTMLElement>(".internal-embed").forEach((embedEl) => {
+			const src = embedEl.getAttribute("src");
+			const file = src ? resolveRadarFile(plugin, src, ctx.sourcePath) : null;
+			if (!file) return;
+
+			embedEl.empty();
+			embedEl.addClass("is-loaded");
+			ctx.addChild(new RadarEmbed(plugin, embedEl, file, ctx.sourcePath, {
+				...DEFAULT_EMBED_OPTIONS,
+				path: file.path,
+				readOnly: true,
+			}));
+		});
+	});
+
+	plugin.registerMarkdownCodeBlockProcessor("radar", (source, el, ctx) => {
+		let options: RadarEmbedOptions;
+		try {
+			options = parseEmbedOptions(source);
+		} catch (error) {
+			renderEmbedError(el, error instanceof Error ? error.message : String(error));
+			return;
+		}
+
+		const file = resolveRadarFile(plugin, options.path, ctx.sourcePath);
+		if (!file) {
+			renderEmbedError(el, `Radar not found: ${options.path}`);
+			return;
+		}
+		ctx.addChild(new RadarEmbed(plugin, el.createDiv(), file, ctx.sourcePath, options));
+	});
+}
+
+/**
+ * Parse the `key: value` lines of a radar code block
+ *
+ * ```radar
+ * path: Projects/Tech radar.radar
+ * readonly: true
+ * zoom: 1.5
+ * rings: Adopt, Trial
+ * segments: Tools
+ * ```
+ *
+ * @throws Error with a readable message for unknown keys or invalid values
+ */
+export function parseEmbedOptions(source: string): RadarEmbedOptions {
+	const options: RadarEmbedOptions = { ...DEFAULT_EMBED_OPTIONS, rings: [], segments: [] };
+
+	for (const line of source.split("\n")) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#")) continue;
+
+		const separator = trimmed.indexOf(":");
+		const key = separator === -1 ? "" : trimmed.slice(0, separator).trim().toLowerCase();
+		const value = separator === -1 ? trimmed : trimmed.slice(separator + 1).trim();
+
+		switch (key) {
+			case "":
+			case "path":
+				// Accept a bare path or [[link]] on its own line
+				options.path = value.replace(/^\[\[/, "").replace(/\]\]$/, "").trim();
+				break;
+			case "readonly":
+				if (!["true", "false", "yes", "no"].includes(value.toLowerCase())) {
+					throw new Error(`readonly must be true or false, got "${value}"`);
+				}
+				options.readOnly = ["true", "yes"].includes(value.toLowerCase());
+				break;
+			case "zoom": {
+				const zoom = Number(value);
+				if (!Number.isFinite(zoom) || zoom <= 0) {
+					throw new Error(`zoom must be a positive number, got "${value}"`);
+				}
+				options.zoom = clamp(zoom, SVG_CONFIG.minZoom, SVG_CONFIG.maxZoom);
+				break;
+			}
+			case "rings":
+				options.rings = parseNames(value);
+				break;
+			case "segments":
+				options.segments = parseNames(value);
+				break;
+			default:
+				throw new Error(`Unknown radar option "${key}"`);
+		}
+	}
+
+	if (!options.path) {
+		throw new Error("Missing radar path, e.g. path: Projects/Tech radar.radar");
+	}
+	return options;
+}
+
+function parseNames(value: string): string[] {
+	return value.split(",").map((name) => name.trim().toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Find the .radar file for a link or path, relative to the note that embeds it
+ */
+function resolveRadarFile(plugin: RadarPlugin, linkpath: string, sourcePath: string): TFile | null {
+	const file = plugin.app.metadataCache.getFirstLinkpathDest(linkpath.split("#")[0] ?? linkpath, sourcePath);
+	return file && plugin.radarStore.isRadarFile(file) ? file : null;
+}
+
+function renderEmbedError(el: HTMLElement, message: string): void {
+	el.createDiv({ cls: "radar-embed-error", text: message });
+}
+
+/**
+ * A radar rendered in a note; reloads whenever the .radar file changes
+ */
+export class RadarEmbed extends MarkdownRenderChild {
+	private plugin: RadarPlugin;
+	private file: TFile;
+	private sourcePath: string;
+	private options: RadarEmbedOptions;
+	private radarData: RadarData | null = null;
+	private renderer: RadarRenderer | null = null;
+	private interactions: RadarInteractions | null = null;
+	private canvasEl: HTMLElement | null = null;
+	private blipPreview: BlipPreview;
+	/** Pending long press on a blip of a read-only embed */
+	private longPressTimer: number | null = null;
+
+	constructor(
+		plugin: RadarPlugin,
+		containerEl: HTMLElement,
+		file: TFile,
+		sourcePath: string,
+		options: RadarEmbedOptions
+	) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.file = file;
+		this.sourcePath = sourcePath;
+		this.options = options;
+		this.blipPreview = new BlipPreview(plugin.app);
+	}
+
+	onload(): void {
+		const { containerEl } = this;
+		containerEl.addClass("radar-embed");
+		containerEl.toggleClass("is-readonly", this.options.readOnly);
+
+		// Header link to the full radar view
+		const header = containerEl.createDiv({ cls: "radar-embed-header" });
+		const link = header.createEl("a", { cls: "internal-link", text: this.file.basename });
+		this.registerDomEvent(link, "click", (event) => {
+			event.preventDefault();
+			void this.plugin.app.workspace.openLinkText(this.file.path, this.sourcePath, Keymap.isModEvent(event));
+		});
+
+		this.canvasEl = containerEl.createDiv({ cls: "radar-embed-canvas" });
+
+		const { vault } = this.plugin.app;
+		this.registerEvent(
+			vault.on("modify", (file) => {
+				if (file === this.file) void this.refresh();
+			})
+		);
+		this.registerEvent(
+			vault.on("rename", (file) => {
+				if (file === this.file) link.setText(this.file.basename);
+			})
+		);
+
+		void this.refresh();
+	}
+
+	onunload(): void {
+		this.destroyRadar();
+	}
+
+	/**
+	 * Reload the radar file and redraw
+	 */
+	private async refresh(): Promise<void> {
+		let radarData: RadarData;
+		try {
+			radarData = await this.plugin.radarStore.loadRadar(this.file);
+		} catch (error) {
+			this.destroyRadar();
+			this.canvasEl?.empty();
+			if (this.canvasEl) {
+				renderEmbedError(this.canvasEl, `Could not load radar: ${error instanceof Error ? error.message : String(error)}`);
+			}
+			return;
+		}
+		this.render(radarData);
+	}
+
+	private render(radarData: RadarData): void {
+		if (!this.canvasEl) return;
+
+		this.destroyRadar();
+		this.canvasEl.empty();
+		this.radarData = radarData;
+
+		const visibleData: RadarData = {
+			...radarData,
+			blips: radarData.blips.filter((blip) => this.isVisible(blip, radarData)),
+		};
+		// Embeds have no room for the numbered legend, so they always show titles
+		this.renderer = new RadarRenderer(this.canvasEl, visibleData, {
+			blipRadius: this.plugin.settings.blipRadius,
+			labelMode: "titles",
+		});
+		this.renderer.setZoom(this.options.zoom);
+
+		const svg = this.renderer.getSvgElement();
+		if (this.options.readOnly) {
+			this.bindReadOnlyEvents(svg);
+			return;
+		}
+
+		// Embeds have no undo, so blips are only deleted in the full view
+		this.interactions = new RadarInteractions(svg, this.renderer.getBlipsGroup(), {
+			onBlipMove: (blipId, r, theta) => void this.saveMoves([{ blipId, r, theta }]),
+			onBlipsMove: (moves) => void this.saveMoves(moves),
+			onBlipClick: (blipId, event) => this.onBlipClick(blipId, event),
+			onSelectionChange: (blipIds) => this.renderer?.setSelection(blipIds),
+			onZoomChange: (zoom) => this.renderer?.setZoom(zoom),
+			onPanChange: (panX, panY) => this.renderer?.setPan(panX, panY),
+			wheelZoom: false,
+			onBlipHover: (blipId, blipGroup, event) => this.showPreview(blipId, blipGroup, event),
+			onBlipHoverEnd: () => this.blipPreview.hide(),
+		});
+		this.interactions.setZoom(this.options.zoom);
+	}
+
+	/**
+	 * Read-only embeds open notes on click and preview blips on hover or a long press,
+	 * without dragging, panning or keyboard edits
+	 */
+	private bindReadOnlyEvents(svg: SVGSVGElement): void {
+		const blipAt = (target: EventTarget | null) =>
+			(target as Element | null)?.closest<SVGGElement>(".radar-blip") ?? null;
+		let hovered: SVGGElement | null = null;
+		let longPressed = false;
+
+		svg.addEventListener("click", (event) => {
+			const blipId = blipAt(event.target)?.getAttribute("data-blip-id");
+			if (blipId) this.onBlipClick(blipId, event);
+		});
+
+		svg.addEventListener("mouseover", (event) => {
+			const blipGroup = blipAt(event.target);
+			const blipId = blipGroup?.getAttribute("data-blip-id");
+			if (!blipGroup || !blipId || blipGroup === hovered) return;
+			hovered = blipGroup;
+			this.showPreview(blipId, blipGroup, event);
+		});
+		svg.addEventListener("mouseout", (event) => {
+			const next = event.relatedTarget as Node | null;
+			if (!hovered || (next && hovered.contains(next))) return;
+			hovered = null;
+			this.blipPreview.hide();
+		});
+
+		// A long press previews the blip; the click that ends it does not open the note
+		svg.addEventListener("touchstart", (event) => {
+			this.cancelLongPress();
+			this.blipPreview.hide();
+			longPressed = false;
+			const touch = event.touches[0];
+			const blipGroup = blipAt(event.target);
+			const blipId = blipGroup?.getAttribute("data-blip-id");
+			if (event.touches.length !== 1 || !touch || !blipGroup || !blipId) return;
+
+			this.longPressTimer = window.setTimeout(() => {
+				this.longPressTimer = null;
+				longPressed = true;
+				const position = new MouseEvent("mouseover", {
+					clientX: touch.clientX,
+					clientY: touch.clientY,
+					screenX: touch.screenX,
+					screenY: touch.screenY,
+				});
+				this.showPreview(blipId, blipGroup, position);
+			}, LONG_PRESS_DELAY);
+		}, { passive: true });
+		svg.addEventListener("touchmove", () => this.cancelLongPress(), { passive: true });
+		svg.addEventListener("touchcancel", () => this.cancelLongPress());
+		svg.addEventListener("touchend", (event) => {
+			this.cancelLongPress();
+			if (longPressed) event.preventDefault();
+		});
+	}
+
+	private showPreview(blipId: string, blipGroup: SVGGElement, event: MouseEvent): void {
+		const blip = this.radarData?.blips.find((b) => b.id === blipId);
+		if (blip && this.radarData) this.blipPreview.show(blip, this.radarData, blipGroup, event, this.file.path);
+	}
+
+	private cancelLongPress(): void {
+		if (this.longPressTimer !== null) {
+			window.clearTimeout(this.longPressTimer);
+			this.longPressTimer = null;
+		}
+	}
+
+	/**
+	 * Apply the ring and segment filters
+	 */
+	private isVisible(blip: Blip, radarData: RadarData): boolean {
+		const { rings, segments } = this.options;
+		if (rings.length > 0) {
+			const priority = getPriorityFromRadius(blip.r, radarData.priorityLevels);
+			if (!priority || !rings.includes(priority.name.toLowerCase())) return false;
+		}
+		if (segments.length > 0) {
+			const category = getCategoryFromAngle(blip.theta, radarData.categories);
+			if (!category || !segments.includes(category.name.toLowerCase())) return false;
+		}
+		return true;
+	}
+
+	/**
+	 * Open the linked note of a note blip
+	 */
+	private onBlipClick(blipId: string, event: Event): void {
+		const blip = this.radarData?.blips.find((b) => b.id === blipId);
+		if (!blip?.notePath || blip.orphaned) return;
+
+		const newLeaf = event instanceof MouseEvent && Keymap.isModEvent(event);
+		void this.plugin.app.workspace.openLinkText(blip.notePath, this.sourcePath, newLeaf);
+	}
+
+	/**
+	 * Write dragged positions to the file, and the new rings and segments of note blips
+	 * into their notes; the modify event redraws the embed
+	 */
+	private async saveMoves(moves: BlipMove[]): Promise<void> {
+		const { radarStore, frontmatterSync } = this.plugin;
+		// The radar as written, once the file has been read
+		const written: RadarData[] = [];
+		await radarStore.updateRadarFile(this.file, (radar) => {
+			for (const move of moves) {
+				radarStore.updateBlipPosition(radar, move.blipId, move.r, move.theta, true);
+			}
+			written.push(radar);
+			return moves.length > 0;
+		});
+
+		const radar = written[0];
+		if (!radar) return;
+		const moved = radar.blips.filter((blip) => moves.some((move) => move.blipId === blip.id));
+		await frontmatterSync.writeBlips(radar, this.file.path, moved);
+	}
+
+	private destroyRadar(): void {
+		this.cancelLongPress();
+		this.blipPreview.destroy();
+		this.interactions?.destroy();
+		this.interactions = null;
+		this.renderer?.destroy();
+		this.renderer = null;
+	}
+}
@@ -1,32 +1,117 @@
 /**
  * Radar Interactions
- * Handles drag-and-drop and zoom interactions
+ * Handles selection, drag-and-drop, hover previews, keyboard, pan and zoom interactions
  */
 
 import { SVG_CONFIG } from "../constants";
-import { cartesianToPolar, clamp } from "../utils/polarCoordinates";
+import { cartesianToPolar, clamp, PolarPoint } from "../utils/polarCoordinates";
+import { createSvgElement, setAttributes } from "../utils/svgHelpers";
+
+/** New position of a blip after a drag */
+export interface BlipMove {
+	blipId: string;
+	r: number;
+	theta: number;
+}
+
+/** Event that opens a blip's menu: a click, a tap or Enter on a focused blip */
+export type BlipClickEvent = MouseEvent | TouchEvent | KeyboardEvent;
 
 export interface RadarInteractionsOptions {
-	onBlipMove: (blipId: string, r: number, theta: number) => void;
-	onBlipClick: (blipId: string, event: MouseEvent | TouchEvent) => void;
+	/**
+	 * A blip was dragged or nudged
+	 * @param snap - Place the blip in the ring and segment it was dropped in, rather than at the exact position
+	 */
+	onBlipMove: (blipId: string, r: number, theta: number, snap: boolean) => void;
+	onBlipsMove: (moves: BlipMove[], snap: boolean) => void;
+	/** A focused blip was moved with the arrow keys (onBlipMove without it) */
+	onBlipNudge?: (blipId: string, r: number, theta: number) => void;
+	onBlipClick: (blipId: string, event: BlipClickEvent) => void;
+	/** Delete or backspace on a focused blip (the keys do nothing without it) */
+	onBlipDelete?: (blipId: string) => void;
+	onSelectionChange: (blipIds: string[]) => void;
 	onZoomChange: (zoom: number) => void;
 	onPanChange: (panX: number, panY: number) => void;
+	/** Zoom and pan with the wheel (default true; off in embeds so the note keeps scrolling) */
+	wheelZoom?: boolean;
+	/** Snap dropped blips into rings and segments (default false; Alt places freely) */
+	snapToCells?: boolean;
+	/** Position of the pressed blip while dragging, null when the drag ends (for snap feedback) */
+	onDragOver?: (position: PolarPoint | null, snap: boolean) => void;
+	/**
+	 * The pointer rests on a blip, or a blip was long-pressed on a touch screen (for previews).
+	 * A long press passes a mouse event at the position of the touch.
+	 */
+	onBlipHover?: (blipId: string, blipGroup: SVGGElement, event: MouseEvent) => void;
+	/** The pointer left the hovered blip, a drag started, or the next touch began */
+	onBlipHoverEnd?: () => void;
 }
 
 // Minimum distance in pixels to consider it a drag vs click
 const DRAG_THRESHOLD = 5;
 
+// Time in ms a blip is held on a touch screen before it shows its preview
+export const LONG_PRESS_DELAY = 500;
+
+// Mouse button used for panning without a modifier
+const MIDDLE_BUTTON = 1;
+
+// Keyboard nudge steps (normalized radius and degrees); shift uses the large step
+const NUDGE_RADIUS = 0.01;
+const NUDGE_RADIUS_LARGE = 0.05;
+const NUDGE_ANGLE = 1;
+const NUDGE_ANGLE_LARGE = 5;
+
+// Arrow keys as screen directions (SVG y points down)
+const ARROW_DIRECTIONS: Record<string, Point> = {
+	ArrowUp: { x: 0, y: -1 },
+	ArrowDown: { x: 0, y: 1 },
+	ArrowLeft: { x: -1, y: 0 },
+	ArrowRight: { x: 1, y: 0 },
+};
+
+interface Point {
+	x: number;
+	y: number;
+}
+
+/**
+ * Read the position of a blip group from its translate() transform
+ */
+function getBlipPosition(blipGroup: SVGGElement): Point | null {
+	const transform = blipGroup.getAttribute("transform");
+	const match = transform?.match(/translate\(([^,]+),([^)]+)\)/);
+	if (!match || !match[1] || !match[2]) {
+		return null;
+	}
+	return { x: parseFloat(match[1]), y: parseFloat(match[2]) };
+}
+
 export class RadarInteractions {
 	private svg: SVGSVGElement;
 	private blipsGroup: SVGGElement;
 	private options: RadarInteractionsOptions;
 
-	// Blip drag state
+	// Blip drag state (the pressed blip plus every other selected blip)
 	private draggedBlip: SVGGElement | null = null;
+	private draggedGroups = new Map<SVGGElement, Point>();
 	private dragStartX = 0;
 	private dragStartY = 0;
+	private dragStartCoords: Point = { x: 0, y: 0 };
 	private hasDragged = false;
 	private currentZoom = 1;
+	private snapToCells: boolean;
+
+	// Hover preview state (mouse hover or touch long-press)
+	private hoveredBlip: SVGGElement | null = null;
+	private longPressTimer: number | null = null;
+	private longPressed = false;
+
+	// Selection state
+	private selectedIds = new Set<string>();
+	private selectionRect: SVGRectElement | null = null;
+	private selectionStart: Point = { x: 0, y: 0 };
+	private selectionAdditive = false;
 
 	// Pan state
 	private isPanning = false;
@@ -52,6 +137,7 @@ export class RadarInteractions {
 		this.svg = svg;
 		this.blipsGroup = blipsGroup;
 		this.options = options;
+		this.snapToCells = options.snapToCells ?? false;
 
 		// Bind event handlers
 		this.boundMouseMove = this.onMouseMove.bind(this);
@@ -66,6 +152,8 @@ export class RadarInteractions {
 	private setupEventListeners(): void {
 		// Mouse events for drag and pan - listen on SVG to catch both blips and empty space
 		this.svg.addEventListener("mousedown", this.onSvgMouseDown.bind(this));
+		this.svg.addEventListener("mouseover", this.onSvgMouseOver.bind(this));
+		this.svg.addEventListener("mouseout", this.onSvgMouseOut.bind(this));
 		document.addEventListener("mousemove", this.boundMouseMove);
 		document.addEventListener("mouseup", this.boundMouseUp);
 
@@ -77,7 +165,12 @@ export class RadarInteractions {
 		document.addEventListener("touchend", this.boundTouchEnd);
 
 		// Wheel event for zoom
-		this.svg.addEventListener("wheel", this.boundWheel, { passive: false });
+		if (this.options.wheelZoom !== false) {
+			this.svg.addEventListener("wheel", this.boundWheel, { passive: false });
+		}
+
+		// Keyboard events for focused blips
+		this.svg.addEventListener("keydown", this.onKeyDown.bind(this));
 	}
 
 	/**
@@ -107,20 +200,29 @@ export class RadarInteractions {
 	}
 
 	/**
-	 * Mouse down on SVG - start blip drag or pan
+	 * Mouse down on SVG
+	 * - On a blip: shift toggles selection, otherwise start dragging
+	 * - Middle button or Alt on empty space: start pan
+	 * - Empty space: start rubber-band selection (shift adds to the selection)
 	 */
 	private onSvgMouseDown(e: MouseEvent): void {
 		const target = e.target as SVGElement;
 		const blipGroup = target.closest(".radar-blip") as SVGGElement;
+		this.endHover();
 
-		if (blipGroup) {
-			// Clicked on a blip - start blip drag
-			e.preventDefault();
-			this.startDrag(blipGroup, e.clientX, e.clientY);
-		} else {
-			// Clicked on empty space - start pan
+		if (e.button === MIDDLE_BUTTON || (e.altKey && !blipGroup)) {
 			e.preventDefault();
 			this.startPan(e.clientX, e.clientY);
+		} else if (blipGroup) {
+			e.preventDefault();
+			if (e.shiftKey) {
+				this.toggleSelection(blipGroup);
+			} else {
+				this.startDrag(blipGroup, e.clientX, e.clientY);
+			}
+		} else if (e.button === 0) {
+			e.preventDefault();
+			this.startSelectionRect(e.clientX, e.clientY, e.shiftKey);
 		}
 	}
 
@@ -132,12 +234,28 @@ export class RadarInteractions {
 		const blipGroup = target.closest(".radar-blip") as SVGGElement;
 		const touch = e.touches[0];
 
+		// A new touch closes the preview of a long-pressed blip
+		this.endHover();
 		if (e.touches.length !== 1 || !touch) return;
 
 		if (blipGroup) {
-			// Touched a blip - start blip drag
+			// Touched a blip - start blip drag, or show its preview when held
 			e.preventDefault();
 			this.startDrag(blipGroup, touch.clientX, touch.clientY);
+			this.longPressTimer = window.setTimeout(() => {
+				this.longPressTimer = null;
+				const blipId = blipGroup.getAttribute("data-blip-id");
+				if (!blipId || this.hasDragged || this.draggedBlip !== blipGroup) return;
+				this.longPressed = true;
+				this.hoveredBlip = blipGroup;
+				const position = new MouseEvent("mouseover", {
+					clientX: touch.clientX,
+					clientY: touch.clientY,
+					screenX: touch.screenX,
+					screenY: touch.screenY,
+				});
+				this.options.onBlipHover?.(blipId, blipGroup, position);
+			}, LONG_PRESS_DELAY);
 		} else {
 			// Touched empty space - start pan
 			e.preventDefault();
@@ -146,15 +264,44 @@ export class RadarInteractions {
 	}
 
 	/**
-	 * Start dragging a blip
+	 * Start dragging a blip, together with the rest of the selection when it is selected
 	 */
 	private startDrag(blipGroup: SVGGElement, clientX: number, clientY: number): void {
+		const blipId = blipGroup.getAttribute("data-blip-id");
+		if (blipId && !this.selectedIds.has(blipId)) {
+			this.setSelection([blipId]);
+		}
+
 		this.draggedBlip = blipGroup;
 		this.dragStartX = clientX;
 		this.dragStartY = clientY;
+		this.dragStartCoords = this.getSvgCoordinates(clientX, clientY);
 		this.hasDragged = false;
 
-		blipGroup.classList.add("dragging");
+		this.draggedGroups.clear();
+		for (const group of this.getSelectedGroups()) {
+			const position = getBlipPosition(group);
+			if (position) {
+				this.draggedGroups.set(group, position);
+				group.classList.add("dragging");
+			}
+		}
+	}
+
+	/**
+	 * Start a rubber-band selection on empty space
+	 */
+	private startSelectionRect(clientX: number, clientY: number, additive: boolean): void {
+		this.selectionStart = this.getSvgCoordinates(clientX, clientY);
+		this.selectionAdditive = additive;
+		this.selectionRect = createSvgElement("rect", {
+			class: "radar-selection-rect",
+			x: this.selectionStart.x,
+			y: this.selectionStart.y,
+			width: 0,
+			height: 0,
+		});
+		this.blipsGroup.appendChild(this.selectionRect);
 	}
 
 	/**
@@ -176,7 +323,10 @@ export class RadarInteractions {
 	private onMouseMove(e: MouseEvent): void {
 		if (this.draggedBlip) {
 			e.preventDefault();
-			this.updateDragPosition(e.clientX, e.clientY);
+			this.updateDragPosition(e.clientX, e.clientY, this.snapToCells && !e.altKey);
+		} else if (this.selectionRect) {
+			e.preventDefault();
+			this.updateSelectionRect(e.clientX, e.clientY);
 		} else if (this.isPanning) {
 			e.preventDefault();
 			this.updatePanPosition(e.clientX, e.clientY);
@@ -192,7 +342,7 @@ export class RadarInteractions {
 
 		if (this.draggedBlip) {
 			e.preventDefault();
-			this.updateDragPosition(touch.clientX, touch.clientY);
+			this.updateDragPosition(touch.clientX, touch.clientY, this.snapToCells);
 		} else if (this.isPanning) {
 			e.preventDefault();
 			this.updatePanPosition(touch.clientX, touch.clientY);
@@ -201,29 +351,61 @@ export class RadarInteractions {
 
 	/**
 	 * Update blip position during drag
+	 * @param snap - Whether the drop will snap, for the drop target feedback
 	 */
-	private updateDragPosition(clientX: number, clientY: number): void {
+	private updateDragPosition(clientX: number, clientY: number, snap: boolean): void {
 		if (!this.draggedBlip) return;
 
 		// Check if we've moved beyond the drag threshold
 		const deltaX = clientX - this.dragStartX;
 		const deltaY = clientY - this.dragStartY;
 		const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
-		if (distance > DRAG_THRESHOLD) {
+		if (distance > DRAG_THRESHOLD && !this.hasDragged) {
 			this.hasDragged = true;
+			this.cancelLongPress();
+			this.endHover();
 		}
 
+		// Move every dragged blip by the pointer offset, keeping them inside the radar
 		const coords = this.getSvgCoordinates(clientX, clientY);
-		const polar = cartesianToPolar(coords.x, coords.y, SVG_CONFIG.maxRadius);
+		const dx = coords.x - this.dragStartCoords.x;
+		const dy = coords.y - this.dragStartCoords.y;
+		for (const [group, start] of this.draggedGroups) {
+			const position = this.clampToRadar(start.x + dx, start.y + dy);
+			group.setAttribute("transform", `translate(${position.x},${position.y})`);
+		}
 
-		// Clamp radius to valid range
-		polar.r = clamp(polar.r, 0, 1);
+		const position = this.hasDragged ? getBlipPosition(this.draggedBlip) : null;
+		if (position) {
+			this.options.onDragOver?.(cartesianToPolar(position.x, position.y, SVG_CONFIG.maxRadius), snap);
+		}
+	}
 
-		// Update visual position
-		this.draggedBlip.setAttribute(
-			"transform",
-			`translate(${coords.x},${coords.y})`
-		);
+	/**
+	 * Keep a point inside the outer ring
+	 */
+	private clampToRadar(x: number, y: number): Point {
+		const distance = Math.sqrt(x * x + y * y);
+		const { maxRadius } = SVG_CONFIG;
+		if (distance <= maxRadius) {
+			return { x, y };
+		}
+		return { x: (x / distance) * maxRadius, y: (y / distance) * maxRadius };
+	}
+
+	/**
+	 * Resize the rubber-band rectangle
+	 */
+	private updateSelectionRect(clientX: number, clientY: number): void {
+		if (!this.selectionRect) return;
+
+		const coords = this.getSvgCoordinates(clientX, clientY);
+		setAttributes(this.selectionRect, {
+			x: Math.min(coords.x, this.selectionStart.x),
+			y: Math.min(coords.y, this.selectionStart.y),
+			width: Math.abs(coords.x - this.selectionStart.x),
+			height: Math.abs(coords.y - this.selectionStart.y),
+		});
 	}
 
 	/**
@@ -244,7 +426,9 @@ export class RadarInteractions {
 	 */
 	private onMouseUp(e: MouseEvent): void {
 		if (this.draggedBlip) {
-			this.endDrag(e.clientX, e.clientY, e);
+			this.endDrag(e);
+		} else if (this.selectionRect) {
+			this.endSelectionRect();
 		} else if (this.isPanning) {
 			this.endPan();
 		}
@@ -255,54 +439,256 @@ export class RadarInteractions {
 	 */
 	private onTouchEnd(e: TouchEvent): void {
 		if (this.draggedBlip) {
-			const blipId = this.draggedBlip.getAttribute("data-blip-id");
-			if (blipId) {
-				if (this.hasDragged) {
-					// It was a drag - use last known position from touch move
-					const transform = this.draggedBlip.getAttribute("transform");
-					const match = transform?.match(/translate\(([^,]+),([^)]+)\)/);
-					if (match && match[1] && match[2]) {
-						const x = parseFloat(match[1]);
-						const y = parseFloat(match[2]);
-						const polar = cartesianToPolar(x, y, SVG_CONFIG.maxRadius);
-						polar.r = clamp(polar.r, 0, 1);
-						this.options.onBlipMove(blipId, polar.r, polar.theta);
-					}
-				} else {
-					// It was a tap - trigger click callback
-					this.options.onBlipClick(blipId, e);
-				}
-			}
-
-			this.draggedBlip.classList.remove("dragging");
-			this.draggedBlip = null;
+			this.endDrag(e);
 		} else if (this.isPanning) {
 			this.endPan();
 		}
 	}
 
 	/**
-	 * End drag and save position, or trigger click if no drag occurred
+	 * End drag and report the new positions, or trigger click if no drag occurred.
+	 * Touch drags always snap when snapping is on, as there is no modifier key.
 	 */
-	private endDrag(clientX: number, clientY: number, event: MouseEvent): void {
+	private endDrag(event: MouseEvent | TouchEvent): void {
 		if (!this.draggedBlip) return;
 
+		this.cancelLongPress();
 		const blipId = this.draggedBlip.getAttribute("data-blip-id");
-		if (blipId) {
-			if (this.hasDragged) {
-				// It was a drag - update position
-				const coords = this.getSvgCoordinates(clientX, clientY);
-				const polar = cartesianToPolar(coords.x, coords.y, SVG_CONFIG.maxRadius);
-				polar.r = clamp(polar.r, 0, 1);
-				this.options.onBlipMove(blipId, polar.r, polar.theta);
-			} else {
-				// It was a click - trigger click callback
+		if (blipId && !this.hasDragged) {
+			// It was a click or tap - trigger click callback (a long-press showed the preview instead)
+			if (!this.longPressed) {
 				this.options.onBlipClick(blipId, event);
 			}
+		} else if (blipId) {
+			// It was a drag - read the positions left by the last move
+			const moves: BlipMove[] = [];
+			for (const group of this.draggedGroups.keys()) {
+				const id = group.getAttribute("data-blip-id");
+				const position = getBlipPosition(group);
+				if (id && position) {
+					const polar = cartesianToPolar(position.x, position.y, SVG_CONFIG.maxRadius);
+					moves.push({ blipId: id, r: clamp(polar.r, 0, 1), theta: polar.theta });
+				}
+			}
+
+			const snap = this.snapToCells && !(event instanceof MouseEvent && event.altKey);
+			this.options.onDragOver?.(null, false);
+			const [move] = moves;
+			if (moves.length === 1 && move) {
+				this.options.onBlipMove(move.blipId, move.r, move.theta, snap);
+			} else if (moves.length > 1) {
+				this.options.onBlipsMove(moves, snap);
+			}
 		}
 
-		this.draggedBlip.classList.remove("dragging");
+		for (const group of this.draggedGroups.keys()) {
+			group.classList.remove("dragging");
+		}
+		this.draggedGroups.clear();
 		this.draggedBlip = null;
+		this.longPressed = false;
+	}
+
+	/**
+	 * Mouse entered an element - preview the blip under the pointer unless a drag,
+	 * pan or rubber band is in progress
+	 */
+	private onSvgMouseOver(e: MouseEvent): void {
+		const blipGroup = (e.target as SVGElement).closest<SVGGElement>(".radar-blip");
+		if (!blipGroup || blipGroup === this.hoveredBlip) return;
+		if (this.draggedBlip || this.isPanning || this.selectionRect) return;
+
+		const blipId = blipGroup.getAttribute("data-blip-id");
+		if (!blipId) return;
+		this.endHover();
+		this.hoveredBlip = blipGroup;
+		this.options.onBlipHover?.(blipId, blipGroup, e);
+	}
+
+	/**
+	 * Mouse left an element - end the preview once the pointer is off the hovered blip
+	 */
+	private onSvgMouseOut(e: MouseEvent): void {
+		if (!this.hoveredBlip || this.longPressed) return;
+		const next = e.relatedTarget as Node | null;
+		if (next && this.hoveredBlip.contains(next)) return;
+		this.endHover();
+	}
+
+	private endHover(): void {
+		if (!this.hoveredBlip) return;
+		this.hoveredBlip = null;
+		this.options.onBlipHoverEnd?.();
+	}
+
+	private cancelLongPress(): void {
+		if (this.longPressTimer !== null) {
+			window.clearTimeout(this.longPressTimer);
+			this.longPressTimer = null;
+		}
+	}
+
+	/**
+	 * Select the blips inside the rubber band, or clear the selection on a plain click
+	 */
+	private endSelectionRect(): void {
+		if (!this.selectionRect) return;
+
+		const x = Number(this.selectionRect.getAttribute("x"));
+		const y = Number(this.selectionRect.getAttribute("y"));
+		const width = Number(this.selectionRect.getAttribute("width"));
+		const height = Number(this.selectionRect.getAttribute("height"));
+		this.selectionRect.remove();
+		this.selectionRect = null;
+
+		const ids = this.selectionAdditive ? new Set(this.selectedIds) : new Set<string>();
+		this.blipsGroup.querySelectorAll<SVGGElement>(".radar-blip").forEach((group) => {
+			const id = group.getAttribute("data-blip-id");
+			const position = getBlipPosition(group);
+			if (
+				id && position &&
+				position.x >= x && position.x <= x + width &&
+				position.y >= y && position.y <= y + height
+			) {
+				ids.add(id);
+			}
+		});
+		this.setSelection([...ids]);
+	}
+
+	/**
+	 * Add or remove a blip from the selection
+	 */
+	private toggleSelection(blipGroup: SVGGElement): void {
+		const blipId = blipGroup.getAttribute("data-blip-id");
+		if (!blipId) return;
+
+		const ids = new Set(this.selectedIds);
+		if (ids.has(blipId)) {
+			ids.delete(blipId);
+		} else {
+			ids.add(blipId);
+		}
+		this.setSelection([...ids]);
+	}
+
+	/**
+	 * Get the SVG groups of the selected blips
+	 */
+	private getSelectedGroups(): SVGGElement[] {
+		const groups: SVGGElement[] = [];
+		this.blipsGroup.querySelectorAll<SVGGElement>(".radar-blip").forEach((group) => {
+			const id = group.getAttribute("data-blip-id");
+			if (id && this.selectedIds.has(id)) {
+				groups.push(group);
+			}
+		});
+		return groups;
+	}
+
+	/**
+	 * Replace the selection and notify the view
+	 */
+	setSelection(blipIds: string[]): void {
+		this.selectedIds = new Set(blipIds);
+		this.options.onSelectionChange([...this.selectedIds]);
+	}
+
+	/**
+	 * Get the ids of the selected blips
+	 */
+	getSelection(): string[] {
+		return [...this.selectedIds];
+	}
+
+	/**
+	 * Key down on a focused blip
+	 * - Arrow keys: nudge the blip (up/down = radius, left/right = angle), shift for larger steps
+	 * - Alt+arrow keys: move focus to the nearest blip in that direction
+	 * - Enter or space: open the blip menu
+	 * - Delete or backspace: remove the blip
+	 */
+	private onKeyDown(e: KeyboardEvent): void {
+		const blipGroup = (e.target as SVGElement).closest<SVGGElement>(".radar-blip");
+		const blipId = blipGroup?.getAttribute("data-blip-id");
+		if (!blipGroup || !blipId || this.draggedBlip) return;
+
+		const direction = ARROW_DIRECTIONS[e.key];
+		if (direction && e.altKey) {
+			e.preventDefault();
+			this.focusNearestBlip(blipGroup, direction);
+		} else if (direction) {
+			e.preventDefault();
+			this.nudgeBlip(blipGroup, e.key, e.shiftKey);
+		} else if (e.key === "Enter" || e.key === " ") {
+			e.preventDefault();
+			this.options.onBlipClick(blipId, e);
+		} else if ((e.key === "Delete" || e.key === "Backspace") && this.options.onBlipDelete) {
+			e.preventDefault();
+			this.options.onBlipDelete(blipId);
+		}
+	}
+
+	/**
+	 * Move a blip by one keyboard step
+	 */
+	private nudgeBlip(blipGroup: SVGGElement, key: string, large: boolean): void {
+		const blipId = blipGroup.getAttribute("data-blip-id");
+		const position = getBlipPosition(blipGroup);
+		if (!blipId || !position) return;
+
+		const polar = cartesianToPolar(position.x, position.y, SVG_CONFIG.maxRadius);
+		const radiusStep = large ? NUDGE_RADIUS_LARGE : NUDGE_RADIUS;
+		const angleStep = large ? NUDGE_ANGLE_LARGE : NUDGE_ANGLE;
+		let { r, theta } = polar;
+
+		if (key === "ArrowUp") {
+			r += radiusStep;
+		} else if (key === "ArrowDown") {
+			r -= radiusStep;
+		} else if (key === "ArrowLeft") {
+			theta += angleStep;
+		} else if (key === "ArrowRight") {
+			theta -= angleStep;
+		}
+
+		r = clamp(r, 0, 1);
+		theta = ((theta % 360) + 360) % 360;
+		if (this.options.onBlipNudge) {
+			this.options.onBlipNudge(blipId, r, theta);
+		} else {
+			this.options.onBlipMove(blipId, r, theta, false);
+		}
+	}
+
+	/**
+	 * Focus the closest blip whose position lies in the given screen direction
+	 */
+	private focusNearestBlip(blipGroup: SVGGElement, direction: Point): void {
+		const origin = getBlipPosition(blipGroup);
+		if (!origin) return;
+
+		let nearest: SVGGElement | null = null;
+		let nearestScore = Infinity;
+		for (const group of Array.from(this.blipsGroup.querySelectorAll<SVGGElement>(".radar-blip"))) {
+			const position = getBlipPosition(group);
+			if (group === blipGroup || !position) continue;
+
+			const dx = position.x - origin.x;
+			const dy = position.y - origin.y;
+			const along = dx * direction.x + dy * direction.y;
+			if (along <= 0) continue;
+
+			// Prefer blips straight ahead over closer ones off to the side
+			const across = Math.abs(dx * direction.y - dy * direction.x);
+			const score = along + across * 2;
+			if (score < nearestScore) {
+				nearest = group;
+				nearestScore = score;
+			}
+		}
+
+		nearest?.focus();
 	}
 
 	/**
@@ -362,6 +748,33 @@ export class RadarInteractions {
 		}
 	}
 
+	/**
+	 * Zoom and pan so a blip is in the middle of the view
+	 * @param zoom - Zoom level to use (kept when already zoomed in further)
+	 */
+	centerOnBlip(blipId: string, zoom: number): void {
+		const blipGroup = this.blipsGroup.querySelector<SVGGElement>(`[data-blip-id="${blipId}"]`);
+		const position = blipGroup ? getBlipPosition(blipGroup) : null;
+		if (!position) return;
+
+		// Size of one viewBox unit at zoom 1 (the viewBox is fitted with "meet")
+		const rect = this.svg.getBoundingClientRect();
+		const unit = Math.min(rect.width, rect.height) / this.currentZoom / SVG_CONFIG.viewBoxSize;
+
+		this.currentZoom = clamp(Math.max(zoom, this.currentZoom), SVG_CONFIG.minZoom, SVG_CONFIG.maxZoom);
+		this.currentPanX = -position.x * unit * this.currentZoom;
+		this.currentPanY = -position.y * unit * this.currentZoom;
+		this.options.onZoomChange(this.currentZoom);
+		this.options.onPanChange(this.currentPanX, this.currentPanY);
+	}
+
+	/**
+	 * Turn snapping of dropped blips on or off
+	 */
+	setSnapToCells(enabled: boolean): void {
+		this.snapToCells = enabled;
+	}
+
 	/**
 	 * Set current zoom level (for syncing with external state)
 	 */
@@ -381,6 +794,9 @@ export class RadarInteractions {
 	 * Clean up event listeners
 	 */
 	destroy(): void {
+		this.cancelLongPress();
+		this.endHover();
+		this.selectionRect?.remove();
 		document.removeEventListener("mousemove", this.boundMouseMove);
 		document.removeEventListener("mouseup", this.boundMouseUp);
 		document.removeEventListener("touchmove", this.boundTouchMove);
@@ -0,0 +1,107 @@
+/**
+ * Radar Legend
+ * Numbered list of blips shown next to the radar when blips are labelled with numbers
+ */
+
+import type { RadarData, Blip } from "../types";
+import { getCategoryFromAngle } from "../utils/polarCoordinates";
+import { sortCategories } from "../utils/radarStructure";
+import { getBlipNumbers } from "../utils/labelLayout";
+
+export interface RadarLegendOptions {
+	onBlipClick: (blipId: string, event: MouseEvent) => void;
+}
+
+export class RadarLegend {
+	private container: HTMLElement;
+	private options: RadarLegendOptions;
+	private selectedIds = new Set<string>();
+	private filteredOutIds = new Set<string>();
+	private hideFilteredOut = false;
+
+	constructor(container: HTMLElement, options: RadarLegendOptions) {
+		this.container = container;
+		this.options = options;
+	}
+
+	/**
+	 * Show new or changed radar data, grouped by segment in number order
+	 */
+	update(radarData: RadarData): void {
+		this.container.empty();
+
+		const numbers = getBlipNumbers(radarData);
+		const blips = [...radarData.blips].sort((a, b) => (numbers.get(a.id) ?? 0) - (numbers.get(b.id) ?? 0));
+		if (blips.length === 0) {
+			this.container.createDiv({ cls: "radar-legend-empty", text: "No blips yet" });
+			return;
+		}
+
+		// Blips are numbered segment by segment, so each segment is one run of the list
+		const categories = sortCategories(radarData.categories);
+		let currentGroup: string | null = null;
+		let list: HTMLElement | null = null;
+		for (const blip of blips) {
+			const category = getCategoryFromAngle(blip.theta, categories);
+			const group = category ? category.name || `Segment at ${Math.round(category.startAngle)}°` : "";
+			if (!list || group !== currentGroup) {
+				currentGroup = group;
+				if (group) {
+					this.container.createDiv({ cls: "radar-legend-heading", text: group });
+				}
+				list = this.container.createEl("ol", { cls: "radar-legend-list" });
+			}
+			this.renderItem(list, blip, numbers.get(blip.id) ?? 0);
+		}
+	}
+
+	private renderItem(list: HTMLElement, blip: Blip, number: number): void {
+		const item = list.createEl("li", { cls: "radar-legend-item" });
+		item.dataset.blipId = blip.id;
+		item.toggleClass("is-selected", this.selectedIds.has(blip.id));
+		item.toggleClass("is-orphaned", !!blip.orphaned);
+		item.toggleClass("is-unmatched", !!blip.unmatched);
+		this.applyFilterClasses(item, blip.id);
+
+		item.createSpan({ cls: "radar-legend-number", text: String(number) });
+		item.createSpan({ cls: "radar-legend-title", text: blip.title });
+		item.addEventListener("click", (event) => this.options.onBlipClick(blip.id, event));
+	}
+
+	/**
+	 * Highlight the entries of the selected blips
+	 */
+	setSelection(blipIds: string[]): void {
+		this.selectedIds = new Set(blipIds);
+		this.container.querySelectorAll<HTMLElement>(".radar-legend-item").forEach((item) => {
+			const id = item.dataset.blipId;
+			item.toggleClass("is-selected", !!id && this.selectedIds.has(id));
+		});
+	}
+
+	/**
+	 * Dim or hide the entries of blips that don't match the current filter
+	 */
+	setFilter(filteredOutIds: string[], hide: boolean): void {
+		this.filteredOutIds = new Set(filteredOutIds);
+		this.hideFilteredOut = hide;
+		this.container.querySelectorAll<HTMLElement>(".radar-legend-item").forEach((item) => {
+			const id = item.dataset.blipId;
+			if (id) this.applyFilterClasses(item, id);
+		});
+	}
+
+	private applyFilterClasses(item: HTMLElement, blipId: string): void {
+		const filteredOut = this.filteredOutIds.has(blipId);
+		item.toggleClass("is-dimmed", filteredOut && !this.hideFilteredOut);
+		item.toggleClass("is-filtered-out", filteredOut && this.hideFilteredOut);
+	}
+
+	/**
+	 * Remove the legend, e.g. when the view switches to another file
+	 */
+	clear(): void {
+		this.selectedIds.clear();
+		this.container.empty();
+	}
+}
@@ -3,29 +3,55 @@
  * Handles SVG rendering of the radar visualization
  */
 
-import type { RadarData, Blip } from "../types";
+import type { RadarData, Blip, BlipLabelMode } from "../types";
 import { SVG_CONFIG } from "../constants";
-import { polarToCartesian } from "../utils/polarCoordinates";
 import {
+	polarToCartesian,
+	getPriorityFromRadius,
+	getCategoryFromAngle,
+} from "../utils/polarCoordinates";
+import { getSegmentSpan } from "../utils/radarStructure";
+import { layoutLabels, getBlipNumbers, LabelInput } from "../utils/labelLayout";
+import { RadarCell, getCellBounds } from "../utils/blipArrangement";
+import { describeMove, getBlipMoveEvents } from "../utils/blipHistory";
+import type { RadarComparison } from "../utils/radarComparison";
+import {
+	createSvgElement,
 	createSvgContainer,
 	createCircle,
 	createLine,
 	createText,
 	createGroup,
+	createPath,
+	describeArc,
+	describeSector,
 	setAttributes,
 } from "../utils/svgHelpers";
 
 export interface RadarRendererOptions {
 	blipRadius: number;
+	/** Titles next to the dots (default), or numbers on the dots */
+	labelMode?: BlipLabelMode;
+	/** Draw the past positions of blips with a recorded history */
+	showTrails?: boolean;
 }
 
 export class RadarRenderer {
 	private svg: SVGSVGElement;
 	private backgroundGroup: SVGGElement;
 	private categoryGroup: SVGGElement;
+	private dropTargetGroup: SVGGElement;
+	private trailsGroup: SVGGElement;
+	private comparisonGroup: SVGGElement;
 	private blipsGroup: SVGGElement;
 	private radarData: RadarData;
 	private options: RadarRendererOptions;
+	private selectedIds = new Set<string>();
+	private filteredOutIds = new Set<string>();
+	private hideFilteredOut = false;
+	private blipNumbers = new Map<string, number>();
+	private labelLayoutFrame: number | null = null;
+	private comparison: RadarComparison | null = null;
 
 	// Transform state
 	private currentPanX = 0;
@@ -42,14 +68,25 @@ export class RadarRenderer {
 
 		// Create SVG structure
 		this.svg = createSvgContainer(SVG_CONFIG.viewBoxSize, "radar-svg");
+		setAttributes(this.svg, { role: "group", "aria-label": "Radar" });
 		this.backgroundGroup = createGroup("radar-background");
 		this.categoryGroup = createGroup("radar-categories");
+		this.dropTargetGroup = createGroup("radar-drop-target");
+		this.trailsGroup = createGroup("radar-trails", {
+			transform: `translate(${SVG_CONFIG.center},${SVG_CONFIG.center})`,
+		});
+		this.comparisonGroup = createGroup("radar-comparison", {
+			transform: `translate(${SVG_CONFIG.center},${SVG_CONFIG.center})`,
+		});
 		this.blipsGroup = createGroup("radar-blips", {
 			transform: `translate(${SVG_CONFIG.center},${SVG_CONFIG.center})`,
 		});
 
 		this.svg.appendChild(this.backgroundGroup);
 		this.svg.appendChild(this.categoryGroup);
+		this.svg.appendChild(this.dropTargetGroup);
+		this.svg.appendChild(this.trailsGroup);
+		this.svg.appendChild(this.comparisonGroup);
 		this.svg.appendChild(this.blipsGroup);
 		this.container.appendChild(this.svg);
 
@@ -62,6 +99,7 @@ export class RadarRenderer {
 	render(): void {
 		this.renderPriorityRings();
 		this.renderCategoryDividers();
+		this.renderTrails();
 		this.renderBlips();
 	}
 
@@ -104,6 +142,19 @@ export class RadarRenderer {
 			return;
 		}
 
+		// Segment backgrounds go first so dividers and labels stay on top
+		for (const category of categories) {
+			const span = category.color ? getSegmentSpan(categories, category.id) : undefined;
+			if (category.color && span) {
+				const segment = createPath(
+					describeSector(center, center, 0, maxRadius, span.start, span.end),
+					"radar-category-segment",
+					{ fill: category.color }
+				);
+				this.categoryGroup.appendChild(segment);
+			}
+		}
+
 		for (const category of categories) {
 			const endPoint = polarToCartesian(1, category.startAngle, maxRadius + categoryDividerExtension);
 
@@ -160,10 +211,13 @@ export class RadarRenderer {
 	 */
 	private renderBlips(): void {
 		this.blipsGroup.innerHTML = "";
+		this.blipNumbers = getBlipNumbers(this.radarData);
 
 		for (const blip of this.radarData.blips) {
 			this.renderBlip(blip);
 		}
+		this.renderComparison();
+		this.layoutBlipLabels();
 	}
 
 	/**
@@ -176,24 +230,277 @@ export class RadarRenderer {
 		const pos = polarToCartesian(blip.r, blip.theta, maxRadius);
 
 		// Create blip group
+		// Focusable so the radar can be used from the keyboard
 		const blipGroup = createGroup("radar-blip", {
 			"data-blip-id": blip.id,
 			transform: `translate(${pos.x},${pos.y})`,
+			tabindex: 0,
+			role: "button",
+			"aria-label": this.getBlipLabel(blip),
 		});
+		blipGroup.classList.toggle("orphaned", !!blip.orphaned);
+		blipGroup.classList.toggle("unmatched", !!blip.unmatched);
+		blipGroup.classList.toggle("selected", this.selectedIds.has(blip.id));
+		this.applyFilterClasses(blipGroup, blip.id);
+
+		// Custom colors go through a CSS variable so styles.css can fall back to the accent
+		if (blip.color) {
+			blipGroup.setCssProps({ "--radar-blip-color": blip.color });
+		}
 
 		// Create blip circle
 		const circle = createCircle(0, 0, blipRadius, "radar-blip-circle");
+		blipGroup.appendChild(circle);
+
+		if (this.options.labelMode === "numbers") {
+			// Number on the dot; the title is in the legend
+			const number = createText(0, 0, String(this.blipNumbers.get(blip.id) ?? ""), "radar-blip-number", {
+				"dominant-baseline": "central",
+			});
+			blipGroup.appendChild(number);
+		} else {
+			// Create blip title (moved by layoutBlipLabels when it collides)
+			const title = createText(0, -blipRadius - 5, blip.title, "radar-blip-title");
+			blipGroup.appendChild(title);
+		}
+
+		this.blipsGroup.appendChild(blipGroup);
+	}
+
+	/**
+	 * Render the trails of all blips (nothing unless trails are shown)
+	 */
+	private renderTrails(): void {
+		this.trailsGroup.innerHTML = "";
+		if (!this.options.showTrails) return;
+
+		for (const blip of this.radarData.blips) {
+			this.renderTrail(blip);
+		}
+	}
+
+	/**
+	 * Draw a line from a blip's oldest recorded position to where it is now,
+	 * with a dot at every past position
+	 */
+	private renderTrail(blip: Blip): void {
+		if (!this.options.showTrails || !blip.history?.length) return;
+
+		const { maxRadius } = SVG_CONFIG;
+		const points = [...blip.history, blip].map((place) => polarToCartesian(place.r, place.theta, maxRadius));
+		const trailGroup = createGroup("radar-blip-trail", { "data-blip-id": blip.id });
+		trailGroup.classList.toggle("selected", this.selectedIds.has(blip.id));
+		this.applyFilterClasses(trailGroup, blip.id);
 		if (blip.color) {
-			circle.setAttribute("fill", blip.color);
+			trailGroup.setCssProps({ "--radar-blip-color": blip.color });
 		}
 
-		// Create blip title
-		const title = createText(0, -blipRadius - 5, blip.title, "radar-blip-title");
+		const path = createPath(
+			points.map((point, index) => `${index === 0 ? "M" : "L"} ${point.x} ${point.y}`).join(" "),
+			"radar-blip-trail-line"
+		);
+		trailGroup.appendChild(path);
+
+		// Dots for the past positions, oldest first, with the move as tooltip
+		const events = getBlipMoveEvents(this.radarData, [blip.id]).reverse();
+		events.forEach((event, index) => {
+			const point = points[index];
+			if (!point) return;
+			const dot = createCircle(point.x, point.y, 3, "radar-blip-trail-point");
+			const tooltip = createSvgElement("title");
+			tooltip.textContent = `${new Date(event.timestamp).toLocaleDateString()}: ${describeMove(event)}`;
+			dot.appendChild(tooltip);
+			trailGroup.appendChild(dot);
+		});
 
-		blipGroup.appendChild(circle);
-		blipGroup.appendChild(title);
+		this.trailsGroup.appendChild(trailGroup);
+	}
 
-		this.blipsGroup.appendChild(blipGroup);
+	/**
+	 * Redraw one blip's trail after it moved or its history changed
+	 */
+	private updateTrail(blipId: string): void {
+		this.trailsGroup.querySelector(`[data-blip-id="${blipId}"]`)?.remove();
+		const blip = this.radarData.blips.find((b) => b.id === blipId);
+		if (blip) {
+			this.renderTrail(blip);
+		}
+	}
+
+	/**
+	 * Show or hide the trails of past positions
+	 */
+	setShowTrails(show: boolean): void {
+		this.options.showTrails = show;
+		this.renderTrails();
+	}
+
+	/**
+	 * Mark blips as new or moved since a snapshot, and show removed blips as ghosts
+	 * @param comparison - Differences to show, or null to leave compare mode
+	 */
+	setComparison(comparison: RadarComparison | null): void {
+		this.comparison = comparison;
+		this.renderComparison();
+		this.blipsGroup.querySelectorAll<SVGGElement>(".radar-blip").forEach((group) => {
+			const blip = this.radarData.blips.find((b) => b.id === group.getAttribute("data-blip-id"));
+			if (blip) group.setAttribute("aria-label", this.getBlipLabel(blip));
+		});
+	}
+
+	private renderComparison(): void {
+		this.comparisonGroup.innerHTML = "";
+		this.blipsGroup.querySelectorAll(".radar-compare-marker").forEach((marker) => marker.remove());
+		this.blipsGroup.querySelectorAll(".radar-blip").forEach((group) => {
+			group.classList.remove("compare-new", "compare-moved-in", "compare-moved-out");
+		});
+
+		const comparison = this.comparison;
+		if (!comparison) return;
+
+		const { maxRadius } = SVG_CONFIG;
+		const { blipRadius } = this.options;
+
+		// Removed blips stay visible where they were, without interactions
+		for (const blip of comparison.removed) {
+			const pos = polarToCartesian(blip.r, blip.theta, maxRadius);
+			const ghost = createGroup("radar-compare-removed", { transform: `translate(${pos.x},${pos.y})` });
+			ghost.appendChild(createCircle(0, 0, blipRadius, "radar-compare-removed-circle"));
+			ghost.appendChild(createText(0, -blipRadius - 5, blip.title, "radar-compare-removed-title"));
+			this.comparisonGroup.appendChild(ghost);
+		}
+
+		for (const blip of this.radarData.blips) {
+			const change = comparison.changes.get(blip.id);
+			const group = this.blipsGroup.querySelector(`[data-blip-id="${blip.id}"]`);
+			if (!group || !change || change === "unchanged") continue;
+			group.classList.add(`compare-${change}`);
+
+			const markerRadius = blipRadius + 4;
+			if (change === "new") {
+				group.insertBefore(createCircle(0, 0, markerRadius, "radar-compare-marker"), group.firstChild);
+				continue;
+			}
+
+			// Half ring on the side the blip came from: toward the center when it moved in
+			const facing = change === "moved-in" ? blip.theta + 180 : blip.theta;
+			group.insertBefore(
+				createPath(describeArc(0, 0, markerRadius, facing - 90, facing + 90), "radar-compare-marker"),
+				group.firstChild
+			);
+
+			const previous = comparison.previousPositions.get(blip.id);
+			if (previous) {
+				const from = polarToCartesian(previous.r, previous.theta, maxRadius);
+				const to = polarToCartesian(blip.r, blip.theta, maxRadius);
+				this.comparisonGroup.appendChild(createLine(from.x, from.y, to.x, to.y, "radar-compare-path"));
+				this.comparisonGroup.appendChild(createCircle(from.x, from.y, 3, "radar-compare-previous"));
+			}
+		}
+	}
+
+	/**
+	 * Move, truncate or add leader lines to titles so they don't overlap
+	 */
+	private layoutBlipLabels(): void {
+		if (this.labelLayoutFrame !== null) {
+			window.cancelAnimationFrame(this.labelLayoutFrame);
+			this.labelLayoutFrame = null;
+		}
+		if (this.options.labelMode === "numbers") {
+			this.updateBlipNumbers();
+			return;
+		}
+
+		const groups = new Map<string, SVGGElement>();
+		const inputs: LabelInput[] = [];
+		for (const blip of this.radarData.blips) {
+			const group = this.blipsGroup.querySelector<SVGGElement>(`[data-blip-id="${blip.id}"]`);
+			// Hidden blips don't take up space
+			if (!group || group.classList.contains("filtered-out")) continue;
+
+			const pos = polarToCartesian(blip.r, blip.theta, SVG_CONFIG.maxRadius);
+			groups.set(blip.id, group);
+			inputs.push({ id: blip.id, x: pos.x, y: pos.y, text: blip.title });
+		}
+
+		const placements = layoutLabels(inputs, this.options.blipRadius, SVG_CONFIG.viewBoxSize / 2);
+		for (const placement of placements) {
+			const group = groups.get(placement.id);
+			const title = group?.querySelector(".radar-blip-title");
+			if (!group || !title) continue;
+
+			title.textContent = placement.text;
+			setAttributes(title as SVGElement, {
+				x: placement.x,
+				y: placement.y,
+				"dominant-baseline": "central",
+			});
+
+			group.querySelector(".radar-blip-leader")?.remove();
+			if (placement.leader) {
+				const { x1, y1, x2, y2 } = placement.leader;
+				group.insertBefore(createLine(x1, y1, x2, y2, "radar-blip-leader"), group.firstChild);
+			}
+		}
+	}
+
+	/**
+	 * Renumber blips; numbers follow segment and ring order, so a move can shift them
+	 */
+	private updateBlipNumbers(): void {
+		this.blipNumbers = getBlipNumbers(this.radarData);
+		this.blipsGroup.querySelectorAll(".radar-blip").forEach((group) => {
+			const id = group.getAttribute("data-blip-id");
+			const number = group.querySelector(".radar-blip-number");
+			if (id && number) {
+				number.textContent = String(this.blipNumbers.get(id) ?? "");
+			}
+		});
+	}
+
+	/**
+	 * Lay out labels on the next frame, so a batch of blip updates triggers one pass
+	 */
+	private scheduleLabelLayout(): void {
+		if (this.labelLayoutFrame !== null) return;
+		this.labelLayoutFrame = window.requestAnimationFrame(() => {
+			this.labelLayoutFrame = null;
+			this.layoutBlipLabels();
+		});
+	}
+
+	/**
+	 * Blip numbers shown on the dots in numbers mode (blip id → number)
+	 */
+	getBlipNumbers(): Map<string, number> {
+		return this.blipNumbers;
+	}
+
+	/**
+	 * Describe a blip for screen readers: title, ring and segment
+	 */
+	private getBlipLabel(blip: Blip): string {
+		const parts = [blip.title];
+		const priority = getPriorityFromRadius(blip.r, this.radarData.priorityLevels);
+		if (priority?.name) {
+			parts.push(`${priority.name} ring`);
+		}
+		const category = getCategoryFromAngle(blip.theta, this.radarData.categories);
+		if (category?.name) {
+			parts.push(`${category.name} segment`);
+		}
+		if (blip.orphaned) {
+			parts.push("note missing");
+		}
+		if (blip.unmatched) {
+			parts.push("no longer matches the note source");
+		}
+		const change = this.comparison?.changes.get(blip.id);
+		if (change && change !== "unchanged") {
+			parts.push(change === "new" ? "new" : change === "moved-in" ? "moved in" : "moved out");
+		}
+		return parts.join(", ");
 	}
 
 	/**
@@ -217,14 +524,117 @@ export class RadarRenderer {
 			setAttributes(blipGroup, {
 				transform: `translate(${pos.x},${pos.y})`,
 			});
+
+			// The ring and segment in the label depend on the position
+			const blip = this.radarData.blips.find((b) => b.id === blipId);
+			if (blip) {
+				blipGroup.setAttribute("aria-label", this.getBlipLabel(blip));
+			}
+			this.updateTrail(blipId);
+			this.scheduleLabelLayout();
 		}
 	}
 
+	/**
+	 * Update a single blip's position, color and title without a full render
+	 */
+	updateBlip(blip: Blip): void {
+		const blipGroup = this.blipsGroup.querySelector<SVGGElement>(`[data-blip-id="${blip.id}"]`);
+		if (!blipGroup) return;
+
+		this.updateBlipPosition(blip.id, blip.r, blip.theta);
+		blipGroup.classList.toggle("orphaned", !!blip.orphaned);
+		blipGroup.classList.toggle("unmatched", !!blip.unmatched);
+		blipGroup.setCssProps({ "--radar-blip-color": blip.color ?? "" });
+
+		const title = blipGroup.querySelector(".radar-blip-title");
+		if (title) {
+			title.textContent = blip.title;
+		}
+		blipGroup.setAttribute("aria-label", this.getBlipLabel(blip));
+		this.scheduleLabelLayout();
+	}
+
+	/**
+	 * Move keyboard focus to a blip
+	 */
+	focusBlip(blipId: string): void {
+		const blipGroup = this.blipsGroup.querySelector<SVGGElement>(`[data-blip-id="${blipId}"]`);
+		blipGroup?.focus();
+	}
+
+	/**
+	 * Highlight the selected blips
+	 */
+	setSelection(blipIds: string[]): void {
+		this.selectedIds = new Set(blipIds);
+		this.svg.querySelectorAll(".radar-blip, .radar-blip-trail").forEach((group) => {
+			const id = group.getAttribute("data-blip-id");
+			group.classList.toggle("selected", !!id && this.selectedIds.has(id));
+		});
+	}
+
+	/**
+	 * Dim or hide blips that don't match the current filter
+	 * @param filteredOutIds - Blips that don't match (empty = no filter)
+	 * @param hide - Hide instead of dim
+	 */
+	setFilter(filteredOutIds: string[], hide: boolean): void {
+		this.filteredOutIds = new Set(filteredOutIds);
+		this.hideFilteredOut = hide;
+		this.svg.querySelectorAll<SVGGElement>(".radar-blip, .radar-blip-trail").forEach((group) => {
+			const id = group.getAttribute("data-blip-id");
+			if (id) this.applyFilterClasses(group, id);
+		});
+		this.scheduleLabelLayout();
+	}
+
+	private applyFilterClasses(blipGroup: SVGGElement, blipId: string): void {
+		const filteredOut = this.filteredOutIds.has(blipId);
+		blipGroup.classList.toggle("dimmed", filteredOut && !this.hideFilteredOut);
+		blipGroup.classList.toggle("filtered-out", filteredOut && this.hideFilteredOut);
+	}
+
+	/**
+	 * Highlight the ring and segment a dragged blip will snap into, with their names
+	 * @param cell - Target cell, or null to remove the highlight
+	 */
+	setDropTarget(cell: RadarCell | null): void {
+		this.dropTargetGroup.innerHTML = "";
+		const bounds = cell ? getCellBounds(this.radarData, cell) : undefined;
+		if (!cell || !bounds) return;
+
+		const { center, maxRadius } = SVG_CONFIG;
+		const { band, span } = bounds;
+		this.dropTargetGroup.appendChild(createPath(
+			describeSector(center, center, band.inner * maxRadius, band.outer * maxRadius, span.start, span.end),
+			"radar-drop-target-cell"
+		));
+
+		const priority = this.radarData.priorityLevels.find((p) => p.id === cell.priorityId);
+		const category = this.radarData.categories.find((c) => c.id === cell.categoryId);
+		const names = [priority?.name || "Unnamed ring", ...(category ? [category.name || "Unnamed segment"] : [])];
+		const labelPosition = polarToCartesian(
+			(band.inner + band.outer) / 2,
+			(span.start + span.end) / 2,
+			maxRadius
+		);
+		this.dropTargetGroup.appendChild(createText(
+			center + labelPosition.x,
+			center + labelPosition.y,
+			names.join(" · "),
+			"radar-drop-target-label",
+			{ "dominant-baseline": "central" }
+		));
+	}
+
 	/**
 	 * Add a new blip to the render
 	 */
 	addBlip(blip: Blip): void {
+		this.renderTrail(blip);
 		this.renderBlip(blip);
+		this.scheduleLabelLayout();
 	}
 
 	/**
@@ -235,6 +645,8 @@ export class RadarRenderer {
 		if (blipGroup) {
 			blipGroup.remove();
 		}
+		this.trailsGroup.querySelector(`[data-blip-id="${blipId}"]`)?.remove();
+		this.scheduleLabelLayout();
 	}
 
 	/**
@@ -296,6 +708,9 @@ export class RadarRenderer {
 	 * Clean up
 	 */
 	destroy(): void {
+		if (this.labelLayoutFrame !== null) {
+			window.cancelAnimationFrame(this.labelLayoutFrame);
+		}
 		this.svg.remove();
 	}
 }
@@ -0,0 +1,180 @@
+/**
+ * Radar Source Modal
+ * Modal for choosing the notes that are kept on a radar automatically
+ */
+
+import { App, Modal, Setting } from "obsidian";
+import type { RadarSource, RadarSourceType } from "../types";
+
+const DEFAULT_SOURCE: RadarSource = {
+	type: "tag",
+	value: "",
+	onUnmatched: "flag",
+};
+
+const VALUE_LABELS: Record<RadarSourceType, { name: string; desc: string; placeholder: string }> = {
+	tag: { name: "Tag", desc: "Notes with this tag or one nested below it.", placeholder: "Project" },
+	folder: { name: "Folder", desc: "Notes in this folder and its subfolders; / for the whole vault.", placeholder: "Projects" },
+	property: { name: "Property", desc: "Notes that have this property.", placeholder: "Status" },
+};
+
+export class RadarSourceModal extends Modal {
+	private values: RadarSource;
+	private hasSource: boolean;
+	private onSubmit: (source: RadarSource | undefined) => void;
+
+	/**
+	 * @param onSubmit - Called with the new source, or undefined when the source is removed
+	 */
+	constructor(app: App, source: RadarSource | undefined, onSubmit: (source: RadarSource | undefined) => void) {
+		super(app);
+		this.values = { ...DEFAULT_SOURCE, ...source };
+		this.hasSource = !!source;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+
+	/**
+	 * Rebuild the form (needed when the source type changes)
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("h2", { text: "Note source" });
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Matching notes are added to the radar automatically, and kept in sync as notes change.",
+		});
+
+		new Setting(contentEl)
+			.setName("Match notes by")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("tag", "Tag")
+					.addOption("folder", "Folder")
+					.addOption("property", "Property")
+					.setValue(this.values.type)
+					.onChange((value) => {
+						this.values.type = value as RadarSourceType;
+						this.render();
+					})
+			);
+
+		const label = VALUE_LABELS[this.values.type];
+		new Setting(contentEl)
+			.setName(label.name)
+			.setDesc(label.desc)
+			.addText((text) =>
+				text
+					.setPlaceholder(label.placeholder)
+					.setValue(this.values.value)
+					.onChange((value) => {
+						this.values.value = value;
+					})
+			);
+
+		if (this.values.type === "property") {
+			new Setting(contentEl)
+				.setName("Property value")
+				.setDesc("Only notes where the property has this value. Leave empty for any value.")
+				.addText((text) =>
+					text
+						.setValue(this.values.propertyValue ?? "")
+						.onChange((value) => {
+							this.values.propertyValue = value;
+						})
+				);
+		}
+
+		new Setting(contentEl)
+			.setName("Notes that stop matching")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("flag", "Flag their blips")
+					.addOption("remove", "Remove their blips")
+					.setValue(this.values.onUnmatched)
+					.onChange((value) => {
+						this.values.onUnmatched = value === "remove" ? "remove" : "flag";
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Ring property")
+			.setDesc("Property whose value names the ring of new notes. Leave empty to use the plugin setting; notes without it go to the outermost ring.")
+			.addText((text) =>
+				text
+					.setValue(this.values.priorityProperty ?? "")
+					.onChange((value) => {
+						this.values.priorityProperty = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Segment property")
+			.setDesc("Property whose value names the segment of new notes. Leave empty to use the plugin setting; notes without it go to the emptiest segment.")
+			.addText((text) =>
+				text
+					.setValue(this.values.categoryProperty ?? "")
+					.onChange((value) => {
+						this.values.categoryProperty = value;
+					})
+			);
+
+		const buttons = new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Save")
+					.setCta()
+					.onClick(() => this.submit())
+			);
+		if (this.hasSource) {
+			buttons.addButton((btn) =>
+				btn
+					.setButtonText("Remove source")
+					.setWarning()
+					.onClick(() => {
+						this.close();
+						this.onSubmit(undefined);
+					})
+			);
+		}
+		buttons.addButton((btn) =>
+			btn.setButtonText("Cancel").onClick(() => {
+				this.close();
+			})
+		);
+	}
+
+	/**
+	 * Validate and hand the source back, without empty optional fields
+	 */
+	private submit(): void {
+		const value = this.values.value.trim().replace(this.values.type === "tag" ? /^#/ : /^$/, "");
+		if (!value) return;
+
+		const optional = (text: string | undefined) => text?.trim() || undefined;
+		const source: RadarSource = {
+			type: this.values.type,
+			value,
+			onUnmatched: this.values.onUnmatched,
+		};
+		const propertyValue = this.values.type === "property" ? optional(this.values.propertyValue) : undefined;
+		const priorityProperty = optional(this.values.priorityProperty);
+		const categoryProperty = optional(this.values.categoryProperty);
+		if (propertyValue) source.propertyValue = propertyValue;
+		if (priorityProperty) source.priorityProperty = priorityProperty;
+		if (categoryProperty) source.categoryProperty = categoryProperty;
+
+		this.close();
+		this.onSubmit(source);
+	}
+}
@@ -0,0 +1,342 @@
+/**
+ * Radar Structure Modal
+ * Editor for the priority rings and category segments of a radar
+ */
+
+import { App, Modal, Setting, debounce } from "obsidian";
+import type { RadarData, PriorityLevel, Category } from "../types";
+import { STRUCTURE_LIMITS } from "../constants";
+import { generateId } from "../utils/idGenerator";
+import {
+	sortPriorities,
+	sortCategories,
+	distributePriorities,
+	distributeCategories,
+} from "../utils/radarStructure";
+
+// Wait for a pause in typing before renaming rings and segments on the radar
+const NAME_DELAY = 400;
+
+export type StructureChangeCallback = (priorityLevels: PriorityLevel[], categories: Category[]) => void;
+
+export class RadarStructureModal extends Modal {
+	private priorities: PriorityLevel[];
+	private categories: Category[];
+	private onChange: StructureChangeCallback;
+	private onDone: () => void;
+	/** Whether a typed name has not been sent to the view yet */
+	private namePending = false;
+	private commitName = debounce(() => this.commit(false), NAME_DELAY, true);
+
+	/**
+	 * @param onChange - Called with a copy of the structure after every change
+	 * @param onDone - Called once when the modal closes
+	 */
+	constructor(app: App, radarData: RadarData, onChange: StructureChangeCallback, onDone: () => void) {
+		super(app);
+		this.onChange = onChange;
+		this.onDone = onDone;
+		// Work on sorted copies so rows follow the on-screen order
+		this.priorities = sortPriorities(radarData.priorityLevels).map((p) => ({ ...p }));
+		this.categories = sortCategories(radarData.categories).map((c) => ({ ...c }));
+	}
+
+	onOpen(): void {
+		this.render();
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (this.namePending) {
+			this.commitName.cancel();
+			this.commit(false);
+		}
+		this.onDone();
+	}
+
+	/**
+	 * Rebuild the modal content
+	 */
+	private render(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("radar-structure-modal");
+
+		contentEl.createEl("h2", { text: "Rings and segments" });
+
+		this.renderPriorities(contentEl);
+		this.renderCategories(contentEl);
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Done")
+					.setCta()
+					.onClick(() => this.close())
+			);
+	}
+
+	/**
+	 * Render the ring rows (innermost first)
+	 */
+	private renderPriorities(containerEl: HTMLElement): void {
+		const { minPriorities, maxPriorities } = STRUCTURE_LIMITS;
+
+		new Setting(containerEl)
+			.setName("Rings")
+			.setDesc(`Innermost ring first, ${minPriorities}-${maxPriorities} rings. Size is the outer edge in percent of the radius.`)
+			.setHeading();
+
+		this.priorities.forEach((priority, index) => {
+			const isLast = index === this.priorities.length - 1;
+			const setting = new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Ring name")
+						.setValue(priority.name)
+						.onChange((value) => {
+							priority.name = value;
+							this.namePending = true;
+							this.commitName();
+						})
+				)
+				.addText((text) => {
+					text
+						.setPlaceholder("Size")
+						.setValue(String(Math.round(priority.maxRadius * 100)))
+						.setDisabled(isLast)
+						.onChange((value) => {
+							const maxRadius = Number(value) / 100;
+							const valid = this.isValidRadius(index, maxRadius);
+							text.inputEl.toggleClass("radar-input-invalid", !valid);
+							if (valid) {
+								priority.maxRadius = maxRadius;
+								this.commit(false);
+							}
+						});
+					text.inputEl.addClass("radar-structure-number");
+				});
+
+			this.addRowControls(setting, index, this.priorities.length, minPriorities, {
+				onMove: (to) => this.swapPriorities(index, to),
+				onRemove: () => this.removePriority(index),
+			});
+		});
+
+		new Setting(containerEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Add ring")
+					.setDisabled(this.priorities.length >= maxPriorities)
+					.onClick(() => {
+						this.priorities.push({
+							id: generateId(),
+							name: `Priority ${this.priorities.length + 1}`,
+							maxRadius: 1,
+						});
+						this.priorities = distributePriorities(this.priorities);
+						this.commit(true);
+					})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Distribute evenly")
+					.onClick(() => {
+						this.priorities = distributePriorities(this.priorities);
+						this.commit(true);
+					})
+			);
+	}
+
+	/**
+	 * Render the segment rows (sorted by start angle)
+	 */
+	private renderCategories(containerEl: HTMLElement): void {
+		const { minCategories, maxCategories } = STRUCTURE_LIMITS;
+
+		new Setting(containerEl)
+			.setName("Segments")
+			.setDesc(`${minCategories}-${maxCategories} segments. Start angle in degrees, counterclockwise from 3 o'clock.`)
+			.setHeading();
+
+		this.categories.forEach((category, index) => {
+			const setting = new Setting(containerEl)
+				.addText((text) =>
+					text
+						.setPlaceholder("Unnamed")
+						.setValue(category.name)
+						.onChange((value) => {
+							category.name = value;
+							this.namePending = true;
+							this.commitName();
+						})
+				)
+				.addText((text) => {
+					text
+						.setPlaceholder("Angle")
+						.setValue(String(Math.round(category.startAngle)))
+						.onChange((value) => {
+							const startAngle = Number(value);
+							const valid = this.isValidAngle(index, startAngle);
+							text.inputEl.toggleClass("radar-input-invalid", !valid);
+							if (valid) {
+								category.startAngle = startAngle;
+								this.commit(false);
+							}
+						});
+					text.inputEl.addClass("radar-structure-number");
+				})
+				.addColorPicker((picker) =>
+					picker
+						.setValue(category.color ?? "#000000")
+						.onChange((value) => {
+							category.color = value;
+							this.commit(false);
+						})
+				)
+				.addExtraButton((btn) =>
+					btn
+						.setIcon("eraser")
+						.setTooltip("Clear color")
+						.setDisabled(!category.color)
+						.onClick(() => {
+							delete category.color;
+							this.commit(true);
+						})
+				);
+
+			this.addRowControls(setting, index, this.categories.length, minCategories, {
+				onMove: (to) => this.swapCategories(index, to),
+				onRemove: () => this.removeCategory(index),
+			});
+		});
+
+		new Setting(containerEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Add segment")
+					.setDisabled(this.categories.length >= maxCategories)
+					.onClick(() => {
+						this.categories.push({ id: generateId(), name: "", startAngle: 0 });
+						this.categories = distributeCategories(this.categories);
+						this.commit(true);
+					})
+			)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Distribute evenly")
+					.setDisabled(this.categories.length === 0)
+					.onClick(() => {
+						this.categories = distributeCategories(this.categories);
+						this.commit(true);
+					})
+			);
+	}
+
+	/**
+	 * Add move up/down and remove buttons to a row
+	 */
+	private addRowControls(
+		setting: Setting,
+		index: number,
+		count: number,
+		minCount: number,
+		handlers: { onMove: (to: number) => void; onRemove: () => void }
+	): void {
+		setting
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("arrow-up")
+					.setTooltip("Move up")
+					.setDisabled(index === 0)
+					.onClick(() => handlers.onMove(index - 1))
+			)
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("arrow-down")
+					.setTooltip("Move down")
+					.setDisabled(index === count - 1)
+					.onClick(() => handlers.onMove(index + 1))
+			)
+			.addExtraButton((btn) =>
+				btn
+					.setIcon("trash")
+					.setTooltip("Remove")
+					.setDisabled(count <= minCount)
+					.onClick(handlers.onRemove)
+			);
+	}
+
+	/**
+	 * A ring edge must stay between its neighbours; the outer ring always ends at the edge
+	 */
+	private isValidRadius(index: number, maxRadius: number): boolean {
+		const inner = this.priorities[index - 1]?.maxRadius ?? 0;
+		const outer = this.priorities[index + 1]?.maxRadius ?? 1;
+		return Number.isFinite(maxRadius) && maxRadius > inner && maxRadius < outer;
+	}
+
+	/**
+	 * A segment start must stay between its neighbours' starts
+	 */
+	private isValidAngle(index: number, startAngle: number): boolean {
+		const previous = this.categories[index - 1]?.startAngle ?? -1;
+		const next = this.categories[index + 1]?.startAngle ?? 360;
+		return Number.isFinite(startAngle) && startAngle > previous && startAngle < next;
+	}
+
+	/**
+	 * Swap two rings, keeping the ring sizes in place so the rings trade positions
+	 */
+	private swapPriorities(from: number, to: number): void {
+		const a = this.priorities[from];
+		const b = this.priorities[to];
+		if (!a || !b) return;
+		this.priorities[from] = { ...b, maxRadius: a.maxRadius };
+		this.priorities[to] = { ...a, maxRadius: b.maxRadius };
+		this.commit(true);
+	}
+
+	/**
+	 * Swap two segments, keeping the start angles in place
+	 */
+	private swapCategories(from: number, to: number): void {
+		const a = this.categories[from];
+		const b = this.categories[to];
+		if (!a || !b) return;
+		this.categories[from] = { ...b, startAngle: a.startAngle };
+		this.categories[to] = { ...a, startAngle: b.startAngle };
+		this.commit(true);
+	}
+
+	private removePriority(index: number): void {
+		this.priorities.splice(index, 1);
+		// The outermost ring always reaches the edge of the radar
+		const last = this.priorities[this.priorities.length - 1];
+		if (last) {
+			last.maxRadius = 1;
+		}
+		this.commit(true);
+	}
+
+	private removeCategory(index: number): void {
+		this.categories.splice(index, 1);
+		this.commit(true);
+	}
+
+	/**
+	 * Send a copy of the working structure to the view
+	 * @param refresh - Rebuild the modal (skipped while typing to keep focus)
+	 */
+	private commit(refresh: boolean): void {
+		this.namePending = false;
+		this.onChange(
+			this.priorities.map((p) => ({ ...p })),
+			this.categories.map((c) => ({ ...c }))
+		);
+		if (refresh) {
+			this.render();
+		}
+	}
+}
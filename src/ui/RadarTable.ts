@@ -0,0 +1,392 @@
+/**
+ * Radar Table
+ * Sortable table of the blips of a radar, with inline editing
+ */
+
+import { moment } from "obsidian";
+import type { RadarData, Blip, PriorityLevel, Category } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle } from "../utils/polarCoordinates";
+import { sortPriorities, sortCategories } from "../utils/radarStructure";
+
+export type RadarTableColumn = "title" | "type" | "note" | "priority" | "category" | "modified";
+
+export interface RadarTableOptions {
+	onTitleChange: (blipId: string, title: string) => void;
+	onPriorityChange: (blipId: string, priorityId: string) => void;
+	onCategoryChange: (blipId: string, categoryId: string) => void;
+	onOpenNote: (blipId: string) => void;
+	onRowClick: (blipId: string, event: MouseEvent) => void;
+	/** Modification time of a linked note, if it exists */
+	getNoteModified: (notePath: string) => number | undefined;
+}
+
+/** A blip with the values shown in its row */
+interface BlipRow {
+	blip: Blip;
+	priority?: PriorityLevel;
+	/** Ring order, innermost first */
+	priorityIndex: number;
+	category?: Category;
+	/** Segment order by start angle */
+	categoryIndex: number;
+	modified?: number;
+}
+
+/** The elements of a blip's row, kept to update the row in place */
+interface RowElements {
+	tr: HTMLTableRowElement;
+	titleInput: HTMLInputElement;
+	typeCell: HTMLTableCellElement;
+	noteCell: HTMLTableCellElement;
+	prioritySelect: HTMLSelectElement;
+	categorySelect: HTMLSelectElement | null;
+	modifiedCell: HTMLTableCellElement;
+}
+
+const COLUMNS: Array<{ id: RadarTableColumn; label: string }> = [
+	{ id: "title", label: "Title" },
+	{ id: "type", label: "Type" },
+	{ id: "note", label: "Linked note" },
+	{ id: "priority", label: "Priority" },
+	{ id: "category", label: "Category" },
+	{ id: "modified", label: "Last modified" },
+];
+
+export class RadarTable {
+	private container: HTMLElement;
+	private options: RadarTableOptions;
+	private radarData: RadarData | null = null;
+	private selectedIds = new Set<string>();
+	private filteredOutIds = new Set<string>();
+	private hideFilteredOut = false;
+	private sortColumn: RadarTableColumn = "title";
+	private sortAscending = true;
+	private body: HTMLTableSectionElement | null = null;
+	private rowElements = new Map<string, RowElements>();
+	/** Rings and segments the rows' dropdowns were built for */
+	private structureKey = "";
+
+	constructor(container: HTMLElement, options: RadarTableOptions) {
+		this.container = container;
+		this.options = options;
+	}
+
+	/**
+	 * Show new or changed radar data. Rows are updated in place, so an input being
+	 * edited keeps its focus and cursor; new rings or segments rebuild the table.
+	 */
+	update(radarData: RadarData): void {
+		this.radarData = radarData;
+		if (this.body && getStructureKey(radarData) === this.structureKey) {
+			this.updateRows();
+		} else {
+			this.render();
+		}
+	}
+
+	/**
+	 * Highlight the rows of the selected blips
+	 */
+	setSelection(blipIds: string[]): void {
+		this.selectedIds = new Set(blipIds);
+		this.container.querySelectorAll<HTMLElement>(".radar-table-row").forEach((row) => {
+			const id = row.dataset.blipId;
+			row.toggleClass("is-selected", !!id && this.selectedIds.has(id));
+		});
+	}
+
+	/**
+	 * Dim or hide the rows of blips that don't match the current filter
+	 */
+	setFilter(filteredOutIds: string[], hide: boolean): void {
+		this.filteredOutIds = new Set(filteredOutIds);
+		this.hideFilteredOut = hide;
+		this.container.querySelectorAll<HTMLElement>(".radar-table-row").forEach((row) => {
+			const id = row.dataset.blipId;
+			if (id) this.applyFilterClasses(row, id);
+		});
+	}
+
+	private applyFilterClasses(row: HTMLElement, blipId: string): void {
+		const filteredOut = this.filteredOutIds.has(blipId);
+		row.toggleClass("is-dimmed", filteredOut && !this.hideFilteredOut);
+		row.toggleClass("is-filtered-out", filteredOut && this.hideFilteredOut);
+	}
+
+	/**
+	 * Scroll a blip's row into view
+	 */
+	revealBlip(blipId: string): void {
+		const row = this.container.querySelector(`.radar-table-row[data-blip-id="${blipId}"]`);
+		row?.scrollIntoView({ block: "nearest" });
+	}
+
+	private render(): void {
+		this.container.empty();
+		this.body = null;
+		this.rowElements.clear();
+		if (!this.radarData) return;
+
+		const table = this.container.createEl("table", { cls: "radar-table" });
+		this.renderHeader(table);
+		this.body = table.createEl("tbody");
+		this.structureKey = getStructureKey(this.radarData);
+		this.updateRows();
+	}
+
+	/**
+	 * Add, update, remove and reorder rows to match the radar data
+	 */
+	private updateRows(): void {
+		const body = this.body;
+		if (!body || !this.radarData) return;
+
+		const rows = this.getRows(this.radarData);
+		body.querySelector(".radar-table-empty")?.parentElement?.remove();
+		if (rows.length === 0) {
+			const empty = body.createEl("tr").createEl("td", { cls: "radar-table-empty", text: "No blips yet" });
+			empty.colSpan = COLUMNS.length;
+		}
+
+		const priorities = sortPriorities(this.radarData.priorityLevels);
+		const categories = sortCategories(this.radarData.categories);
+		const ordered = rows.map((row) => {
+			let elements = this.rowElements.get(row.blip.id);
+			if (!elements) {
+				elements = this.createRow(body, row.blip.id, priorities, categories);
+				this.rowElements.set(row.blip.id, elements);
+			}
+			this.fillRow(elements, row);
+			return elements.tr;
+		});
+
+		const ids = new Set(rows.map((row) => row.blip.id));
+		for (const [blipId, elements] of this.rowElements) {
+			if (!ids.has(blipId)) {
+				elements.tr.remove();
+				this.rowElements.delete(blipId);
+			}
+		}
+
+		// Reorder around the row holding the focus: detaching it would blur the input
+		const focused = ordered.find((tr) => tr.contains(body.ownerDocument.activeElement));
+		const anchorIndex = focused ? ordered.indexOf(focused) : -1;
+		ordered.forEach((tr, index) => {
+			if (index < anchorIndex && focused) {
+				body.insertBefore(tr, focused);
+			} else if (index > anchorIndex) {
+				body.appendChild(tr);
+			}
+		});
+	}
+
+	/**
+	 * Column headers; clicking a header sorts by it, clicking again reverses
+	 */
+	private renderHeader(table: HTMLTableElement): void {
+		const headerRow = table.createEl("thead").createEl("tr");
+		for (const column of COLUMNS) {
+			const isSorted = column.id === this.sortColumn;
+			const th = headerRow.createEl("th", {
+				cls: "radar-table-header",
+				text: column.label,
+				attr: { "aria-sort": isSorted ? (this.sortAscending ? "ascending" : "descending") : "none" },
+			});
+			if (isSorted) {
+				th.createSpan({ cls: "radar-table-sort", text: this.sortAscending ? " ▲" : " ▼" });
+			}
+			th.addEventListener("click", () => {
+				if (isSorted) {
+					this.sortAscending = !this.sortAscending;
+				} else {
+					this.sortColumn = column.id;
+					this.sortAscending = true;
+				}
+				this.render();
+			});
+		}
+	}
+
+	/**
+	 * Create the controls of a row; handlers look the blip up when they run,
+	 * since the row outlives the blip objects it was created for
+	 */
+	private createRow(
+		body: HTMLTableSectionElement,
+		blipId: string,
+		priorities: PriorityLevel[],
+		categories: Category[]
+	): RowElements {
+		const tr = body.createEl("tr", { cls: "radar-table-row" });
+		tr.dataset.blipId = blipId;
+		tr.addEventListener("click", (event) => {
+			// Clicks on inputs and links edit or navigate instead of selecting
+			if ((event.target as HTMLElement).closest("input, select, a")) return;
+			this.options.onRowClick(blipId, event);
+		});
+
+		// Title (editable)
+		const titleInput = tr.createEl("td").createEl("input", { cls: "radar-table-input", type: "text" });
+		titleInput.addEventListener("change", () => {
+			const blip = this.findBlip(blipId);
+			if (!blip) return;
+			const title = titleInput.value.trim();
+			if (title && title !== blip.title) {
+				this.options.onTitleChange(blipId, title);
+			} else {
+				titleInput.value = blip.title;
+			}
+		});
+
+		const typeCell = tr.createEl("td");
+		const noteCell = tr.createEl("td");
+
+		// Priority (editable)
+		const prioritySelect = tr.createEl("td").createEl("select", { cls: "dropdown radar-table-select" });
+		for (const priority of priorities) {
+			prioritySelect.createEl("option", { value: priority.id, text: priority.name || "Unnamed ring" });
+		}
+		prioritySelect.addEventListener("change", () => {
+			this.options.onPriorityChange(blipId, prioritySelect.value);
+		});
+
+		// Category (editable when the radar has segments)
+		const categoryCell = tr.createEl("td");
+		let categorySelect: HTMLSelectElement | null = null;
+		if (categories.length > 0) {
+			const select = categoryCell.createEl("select", { cls: "dropdown radar-table-select" });
+			for (const category of categories) {
+				select.createEl("option", {
+					value: category.id,
+					text: category.name || `Segment at ${Math.round(category.startAngle)}°`,
+				});
+			}
+			select.addEventListener("change", () => {
+				this.options.onCategoryChange(blipId, select.value);
+			});
+			categorySelect = select;
+		}
+
+		const modifiedCell = tr.createEl("td", { cls: "radar-table-modified" });
+		return { tr, titleInput, typeCell, noteCell, prioritySelect, categorySelect, modifiedCell };
+	}
+
+	/**
+	 * Show a blip's current values in its row
+	 */
+	private fillRow(elements: RowElements, row: BlipRow): void {
+		const { blip } = row;
+		const { tr, titleInput } = elements;
+		tr.toggleClass("is-selected", this.selectedIds.has(blip.id));
+		tr.toggleClass("is-orphaned", !!blip.orphaned);
+		tr.toggleClass("is-unmatched", !!blip.unmatched);
+		this.applyFilterClasses(tr, blip.id);
+
+		// Leave a title that is being typed alone
+		if (titleInput !== titleInput.ownerDocument.activeElement) {
+			titleInput.value = blip.title;
+		}
+		elements.typeCell.setText(blip.type === "note" ? "Note" : "Text");
+
+		// Linked note
+		const noteText = !blip.notePath
+			? ""
+			: blip.orphaned
+				? `${blip.notePath} (missing)`
+				: blip.unmatched ? `${blip.notePath} (no longer matches)` : blip.notePath;
+		if (elements.noteCell.getText() !== noteText) {
+			elements.noteCell.empty();
+			if (noteText) {
+				const link = elements.noteCell.createEl("a", { cls: "internal-link", text: noteText });
+				link.addEventListener("click", (event) => {
+					event.preventDefault();
+					this.options.onOpenNote(blip.id);
+				});
+			}
+		}
+
+		elements.prioritySelect.value = row.priority?.id ?? "";
+		if (elements.categorySelect) {
+			elements.categorySelect.value = row.category?.id ?? "";
+		}
+		elements.modifiedCell.setText(row.modified ? moment(row.modified).format("YYYY-MM-DD HH:mm") : "");
+	}
+
+	private findBlip(blipId: string): Blip | undefined {
+		return this.radarData?.blips.find((blip) => blip.id === blipId);
+	}
+
+	/**
+	 * Build the rows in the current sort order
+	 */
+	private getRows(radarData: RadarData): BlipRow[] {
+		const priorities = sortPriorities(radarData.priorityLevels);
+		const categories = sortCategories(radarData.categories);
+
+		const rows = radarData.blips.map((blip): BlipRow => {
+			const priority = getPriorityFromRadius(blip.r, priorities);
+			const category = getCategoryFromAngle(blip.theta, categories);
+			return {
+				blip,
+				priority,
+				priorityIndex: priority ? priorities.indexOf(priority) : -1,
+				category,
+				categoryIndex: category ? categories.indexOf(category) : -1,
+				modified: this.getModified(blip),
+			};
+		});
+
+		const direction = this.sortAscending ? 1 : -1;
+		return rows.sort((a, b) => direction * this.compareRows(a, b));
+	}
+
+	private compareRows(a: BlipRow, b: BlipRow): number {
+		switch (this.sortColumn) {
+			case "title":
+				return a.blip.title.localeCompare(b.blip.title);
+			case "type":
+				return a.blip.type.localeCompare(b.blip.type);
+			case "note":
+				return (a.blip.notePath ?? "").localeCompare(b.blip.notePath ?? "");
+			case "priority":
+				return a.priorityIndex - b.priorityIndex || a.blip.r - b.blip.r;
+			case "category":
+				return a.categoryIndex - b.categoryIndex || a.blip.title.localeCompare(b.blip.title);
+			case "modified":
+				return (a.modified ?? 0) - (b.modified ?? 0);
+		}
+	}
+
+	/**
+	 * Latest change to the blip itself or to its linked note
+	 */
+	private getModified(blip: Blip): number | undefined {
+		const noteModified = blip.notePath && !blip.orphaned
+			? this.options.getNoteModified(blip.notePath)
+			: undefined;
+		if (blip.updatedAt === undefined) return noteModified;
+		if (noteModified === undefined) return blip.updatedAt;
+		return Math.max(blip.updatedAt, noteModified);
+	}
+
+	/**
+	 * Remove the table, e.g. when the view switches to another file
+	 */
+	clear(): void {
+		this.radarData = null;
+		this.selectedIds.clear();
+		this.container.empty();
+		this.body = null;
+		this.rowElements.clear();
+	}
+}
+
+/**
+ * Ids and names of the rings and segments, which the rows' dropdowns list
+ */
+function getStructureKey(radarData: RadarData): string {
+	return JSON.stringify([
+		sortPriorities(radarData.priorityLevels).map((p) => [p.id, p.name]),
+		sortCategories(radarData.categories).map((c) => [c.id, c.name, c.startAngle]),
+	]);
+}
@@ -0,0 +1,98 @@
+/**
+ * Radar Timeline
+ * Panel listing when blips moved to another ring or segment, newest first
+ */
+
+import type { RadarData } from "../types";
+import { describeMove, getBlipMoveEvents, BlipMoveEvent } from "../utils/blipHistory";
+
+export interface RadarTimelineOptions {
+	onBlipClick: (blipId: string, event: MouseEvent) => void;
+	/** Whether new moves are being recorded, for the empty state hint */
+	isRecording: () => boolean;
+}
+
+export class RadarTimeline {
+	private container: HTMLElement;
+	private options: RadarTimelineOptions;
+	private radarData: RadarData | null = null;
+	private selectedIds: string[] = [];
+
+	constructor(container: HTMLElement, options: RadarTimelineOptions) {
+		this.container = container;
+		this.options = options;
+	}
+
+	/**
+	 * Show new or changed radar data
+	 */
+	update(radarData: RadarData): void {
+		this.radarData = radarData;
+		this.render();
+	}
+
+	/**
+	 * Only show the moves of the selected blips (all blips when nothing is selected)
+	 */
+	setSelection(blipIds: string[]): void {
+		this.selectedIds = blipIds;
+		this.render();
+	}
+
+	private render(): void {
+		this.container.empty();
+		if (!this.radarData) return;
+
+		const filtered = this.selectedIds.length > 0;
+		this.container.createDiv({
+			cls: "radar-timeline-heading",
+			text: filtered ? `Timeline of ${this.selectedIds.length} selected` : "Timeline",
+		});
+
+		const events = getBlipMoveEvents(this.radarData, filtered ? this.selectedIds : undefined);
+		if (events.length === 0) {
+			this.container.createDiv({
+				cls: "radar-timeline-empty",
+				text: this.options.isRecording()
+					? "No ring or segment changes yet"
+					: "No ring or segment changes. Turn on blip history in the settings to record them.",
+			});
+			return;
+		}
+
+		// One group per day
+		let currentDay: string | null = null;
+		let list: HTMLElement | null = null;
+		for (const event of events) {
+			const day = new Date(event.timestamp).toLocaleDateString();
+			if (!list || day !== currentDay) {
+				currentDay = day;
+				this.container.createDiv({ cls: "radar-timeline-date", text: day });
+				list = this.container.createEl("ul", { cls: "radar-timeline-list" });
+			}
+			this.renderEvent(list, event);
+		}
+	}
+
+	private renderEvent(list: HTMLElement, event: BlipMoveEvent): void {
+		const item = list.createEl("li", { cls: "radar-timeline-item" });
+		item.toggleClass("is-selected", this.selectedIds.includes(event.blip.id));
+
+		item.createSpan({
+			cls: "radar-timeline-time",
+			text: new Date(event.timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }),
+		});
+		item.createSpan({ cls: "radar-timeline-title", text: event.blip.title });
+		item.createSpan({ cls: "radar-timeline-move", text: describeMove(event) });
+		item.addEventListener("click", (mouseEvent) => this.options.onBlipClick(event.blip.id, mouseEvent));
+	}
+
+	/**
+	 * Remove the timeline, e.g. when the view switches to another file
+	 */
+	clear(): void {
+		this.radarData = null;
+		this.selectedIds = [];
+		this.container.empty();
+	}
+}
@@ -1,6 +1,6 @@
 /**
  * Radar Toolbar
- * Toolbar component with add and zoom controls
+ * Toolbar component with add, filter, snapping, history, layout and zoom controls
  */
 
 import { setIcon } from "obsidian";
@@ -8,13 +8,27 @@ import { setIcon } from "obsidian";
 export interface RadarToolbarOptions {
 	onAddNote: () => void;
 	onAddText: () => void;
+	onEditStructure: () => void;
+	onUndo: () => void;
+	onRedo: () => void;
 	onZoomIn: () => void;
 	onZoomOut: () => void;
 	onResetZoom: () => void;
+	onChangeLayout: (event: MouseEvent) => void;
+	onFilterQueryChange: (query: string) => void;
+	onShowFilterMenu: (event: MouseEvent) => void;
+	onJumpToMatch: () => void;
+	onToggleSnap: () => void;
+	onShowHistoryMenu: (event: MouseEvent) => void;
 }
 
 export class RadarToolbar {
 	private container: HTMLElement;
+	private undoBtn: HTMLButtonElement | null = null;
+	private redoBtn: HTMLButtonElement | null = null;
+	private filterBtn: HTMLButtonElement | null = null;
+	private snapBtn: HTMLButtonElement | null = null;
+	private matchCountEl: HTMLElement | null = null;
 
 	constructor(container: HTMLElement, options: RadarToolbarOptions) {
 		this.container = container;
@@ -42,9 +56,88 @@ export class RadarToolbar {
 		addTextBtn.createSpan({ text: "Add text" });
 		addTextBtn.addEventListener("click", options.onAddText);
 
+		// Edit rings and segments button
+		const structureBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn",
+			attr: { "aria-label": "Edit rings and segments" },
+		});
+		setIcon(structureBtn, "settings-2");
+		structureBtn.createSpan({ text: "Rings" });
+		structureBtn.addEventListener("click", options.onEditStructure);
+
+		// Search and filter controls
+		const searchInput = this.container.createEl("input", {
+			cls: "radar-toolbar-search",
+			type: "search",
+			attr: { placeholder: "Filter blips...", "aria-label": "Filter blips" },
+		});
+		searchInput.addEventListener("input", () => options.onFilterQueryChange(searchInput.value));
+		searchInput.addEventListener("keydown", (event) => {
+			if (event.key === "Enter") {
+				event.preventDefault();
+				options.onJumpToMatch();
+			}
+		});
+
+		this.matchCountEl = this.container.createSpan({ cls: "radar-toolbar-match-count" });
+
+		this.filterBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
+			attr: { "aria-label": "Filter by ring or segment" },
+		});
+		setIcon(this.filterBtn, "filter");
+		this.filterBtn.addEventListener("click", options.onShowFilterMenu);
+
+		const jumpBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
+			attr: { "aria-label": "Jump to next match" },
+		});
+		setIcon(jumpBtn, "locate-fixed");
+		jumpBtn.addEventListener("click", options.onJumpToMatch);
+
 		// Spacer
 		this.container.createDiv({ cls: "radar-toolbar-spacer" });
 
+		// Snap dragged blips into rings and segments
+		this.snapBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
+			attr: { "aria-label": "Snap to rings and segments", "aria-pressed": "false" },
+		});
+		setIcon(this.snapBtn, "magnet");
+		this.snapBtn.addEventListener("click", options.onToggleSnap);
+
+		// Timeline, trails, snapshots and compare mode
+		const historyBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
+			attr: { "aria-label": "History and snapshots" },
+		});
+		setIcon(historyBtn, "history");
+		historyBtn.addEventListener("click", options.onShowHistoryMenu);
+
+		// Radar, table or split layout
+		const layoutBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
+			attr: { "aria-label": "Change layout" },
+		});
+		setIcon(layoutBtn, "layout-panel-left");
+		layoutBtn.addEventListener("click", options.onChangeLayout);
+
+		// History controls
+		this.undoBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
+			attr: { "aria-label": "Undo" },
+		});
+		setIcon(this.undoBtn, "undo-2");
+		this.undoBtn.addEventListener("click", options.onUndo);
+
+		this.redoBtn = this.container.createEl("button", {
+			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
+			attr: { "aria-label": "Redo" },
+		});
+		setIcon(this.redoBtn, "redo-2");
+		this.redoBtn.addEventListener("click", options.onRedo);
+		this.setHistoryState(false, false);
+
 		// Zoom controls
 		const zoomOutBtn = this.container.createEl("button", {
 			cls: "radar-toolbar-btn radar-toolbar-btn-icon",
@@ -67,4 +160,33 @@ export class RadarToolbar {
 		setIcon(zoomInBtn, "plus");
 		zoomInBtn.addEventListener("click", options.onZoomIn);
 	}
+
+	/**
+	 * Show how many blips match and whether ring or segment filters are on
+	 * @param matches - Number of matching blips, or null when nothing is filtered
+	 */
+	setFilterStatus(matches: number | null, total: number, quickFiltersActive: boolean): void {
+		this.matchCountEl?.setText(matches === null ? "" : `${matches} of ${total}`);
+		this.filterBtn?.toggleClass("is-active", quickFiltersActive);
+	}
+
+	/**
+	 * Show whether snapping is on
+	 */
+	setSnapState(enabled: boolean): void {
+		this.snapBtn?.toggleClass("is-active", enabled);
+		this.snapBtn?.setAttribute("aria-pressed", String(enabled));
+	}
+
+	/**
+	 * Enable or disable the undo and redo buttons
+	 */
+	setHistoryState(canUndo: boolean, canRedo: boolean): void {
+		if (this.undoBtn) {
+			this.undoBtn.disabled = !canUndo;
+		}
+		if (this.redoBtn) {
+			this.redoBtn.disabled = !canRedo;
+		}
+	}
 }
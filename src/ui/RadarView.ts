@@ -3,29 +3,140 @@
  * TextFileView subclass for displaying and interacting with a radar
  */
 
-import { TextFileView, WorkspaceLeaf, Menu } from "obsidian";
+import { TextFileView, WorkspaceLeaf, Menu, Notice, Scope, TFile, ViewStateResult, getAllTags } from "obsidian";
 import type RadarPlugin from "../main";
-import type { RadarData, Blip, ViewState } from "../types";
+import type { RadarData, Blip, ViewState, PriorityLevel, Category, RadarLayout } from "../types";
 import { VIEW_TYPE_RADAR, SVG_CONFIG, DEFAULT_VIEW_STATE } from "../constants";
 import { RadarRenderer } from "./RadarRenderer";
 import { RadarToolbar } from "./RadarToolbar";
-import { RadarInteractions } from "./RadarInteractions";
+import { RadarTable } from "./RadarTable";
+import { RadarLegend } from "./RadarLegend";
+import { RadarTimeline } from "./RadarTimeline";
+import { RadarInteractions, BlipMove, BlipClickEvent } from "./RadarInteractions";
+import { parseRadarData, repairRadarData, repairViewState, RadarValidationError } from "../data/radarSchema";
+import {
+	RadarHistory,
+	RadarEdit,
+	moveBlipEdit,
+	addBlipEdit,
+	removeBlipEdit,
+	updateBlipEdit,
+	compositeEdit,
+	structureEdit,
+	takeStructureSnapshot,
+	addSnapshotEdit,
+	removeSnapshotEdit,
+	sourceEdit,
+} from "../data/RadarHistory";
+import {
+	FrontmatterPlacement,
+	getBlipPlacement,
+	getFrontmatterPosition,
+} from "../data/frontmatterSync";
+import { SourceSyncChanges, planSourceSync } from "../data/radarSource";
+import { generateId } from "../utils/idGenerator";
+import {
+	RadarCell,
+	arrangeBlips,
+	findFreePosition,
+	getBlipCell,
+	matchCellByNames,
+	snapToCells,
+} from "../utils/blipArrangement";
+import type { PolarPoint } from "../utils/polarCoordinates";
+import {
+	BlipFilter,
+	NoteMetadata,
+	EMPTY_BLIP_FILTER,
+	isFilterActive,
+	getMatchingBlipIds,
+} from "../utils/blipFilter";
+import {
+	sortPriorities,
+	sortCategories,
+	getRadiusInPriority,
+	getAngleInCategory,
+	remapBlipPosition,
+} from "../utils/radarStructure";
 import { AddBlipModal } from "./AddBlipModal";
 import { AddTextModal } from "./AddTextModal";
+import { EditBlipModal } from "./EditBlipModal";
+import { RadarStructureModal } from "./RadarStructureModal";
+import { ChoiceModal } from "./ChoiceModal";
+import { ColorModal } from "./ColorModal";
+import { BlipPreview } from "./BlipPreview";
+import { RadarSourceModal } from "./RadarSourceModal";
+import { SnapshotModal, SnapshotTarget } from "./SnapshotModal";
+import { compareRadars, countChanges, RadarState } from "../utils/radarComparison";
+import { ByorEntry, ByorImportPlan, planByorImport } from "../utils/byor";
+
+/** Zoom level used when jumping to a search match */
+const JUMP_ZOOM = 2;
+
+/**
+ * Whether the focus is in a text field (the filter box, a table cell being edited...)
+ */
+function isEditingText(): boolean {
+	const element = document.activeElement;
+	return element instanceof HTMLInputElement
+		|| element instanceof HTMLTextAreaElement
+		|| element instanceof HTMLSelectElement
+		|| (element instanceof HTMLElement && element.isContentEditable);
+}
 
 export class RadarView extends TextFileView {
 	private plugin: RadarPlugin;
 	private radarData: RadarData | null = null;
 	private viewState: ViewState = { ...DEFAULT_VIEW_STATE };
+	/** View state from the workspace layout, waiting for its file to load */
+	private restoredViewState: ViewState | null = null;
 	private renderer: RadarRenderer | null = null;
 	private toolbar: RadarToolbar | null = null;
 	private interactions: RadarInteractions | null = null;
+	private table: RadarTable | null = null;
+	private legend: RadarLegend | null = null;
+	private timeline: RadarTimeline | null = null;
 	private mainContainer: HTMLElement | null = null;
+	private contentContainer: HTMLElement | null = null;
+	private compareBanner: HTMLElement | null = null;
 	private svgContainer: HTMLElement | null = null;
+	private history = new RadarHistory();
+	private selectedBlipIds: string[] = [];
+	private filter: BlipFilter = { ...EMPTY_BLIP_FILTER };
+	/** Matching blips in radar order, for "jump to next match" */
+	private matchingBlipIds: string[] = [];
+	private jumpIndex = -1;
+	/** Snapshot or radar file the radar is compared with, null outside compare mode */
+	private comparisonBaseline: { label: string; state: RadarState } | null = null;
+	private blipPreview: BlipPreview;
 
 	constructor(leaf: WorkspaceLeaf, plugin: RadarPlugin) {
 		super(leaf);
 		this.plugin = plugin;
+		this.blipPreview = new BlipPreview(this.app);
+
+		// Undo/redo shortcuts while the view has focus; text fields keep their own undo
+		this.scope = new Scope(this.app.scope);
+		this.scope.register(["Mod"], "z", () => {
+			if (isEditingText()) return true;
+			this.undo();
+			return false;
+		});
+		this.scope.register(["Mod", "Shift"], "z", () => {
+			if (isEditingText()) return true;
+			this.redo();
+			return false;
+		});
+		this.scope.register(["Mod"], "y", () => {
+			if (isEditingText()) return true;
+			this.redo();
+			return false;
+		});
+		this.scope.register([], "Escape", () => {
+			if (this.selectedBlipIds.length === 0) return;
+			this.interactions?.setSelection([]);
+			return false;
+		});
 	}
 
 	getViewType(): string {
@@ -40,6 +151,27 @@ export class RadarView extends TextFileView {
 		return "target";
 	}
 
+	/**
+	 * Zoom, pan, layout and toggles are kept with the workspace leaf rather than in the
+	 * file, so looking at a radar doesn't modify it
+	 */
+	getState(): Record<string, unknown> {
+		return { ...super.getState(), viewState: { ...this.viewState } };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const viewState = repairViewState((state as { viewState?: unknown } | null)?.viewState);
+		this.restoredViewState = viewState ?? null;
+		await super.setState(state, result);
+
+		// The same file was already open, so loading didn't pick the view state up
+		if (this.restoredViewState && this.radarData) {
+			this.viewState = { ...DEFAULT_VIEW_STATE, ...this.restoredViewState };
+			this.renderRadar();
+		}
+		this.restoredViewState = null;
+	}
+
 	/**
 	 * Called by TextFileView - return the current data to save
 	 */
@@ -59,19 +191,38 @@ export class RadarView extends TextFileView {
 		}
 
 		try {
-			this.radarData = JSON.parse(data) as RadarData;
-			this.renderRadar();
+			this.loadRadarData(parseRadarData(data));
 		} catch (error) {
-			console.error("Failed to parse radar data:", error);
-			this.showError("Failed to load radar data - invalid JSON");
+			console.error("Failed to load radar data:", error);
+			// Errors are shown where the radar would be
+			this.applyLayout("radar");
+			if (error instanceof RadarValidationError) {
+				this.showValidationErrors(error);
+			} else {
+				this.showError("Failed to load radar data");
+			}
 		}
 	}
 
+	/**
+	 * Show parsed radar data
+	 */
+	private loadRadarData(radarData: RadarData): void {
+		this.radarData = radarData;
+		// Files written by older versions keep a view state of their own
+		this.viewState = { ...DEFAULT_VIEW_STATE, ...radarData.viewState, ...this.restoredViewState };
+		this.restoredViewState = null;
+		this.renderRadar();
+	}
+
 	/**
 	 * Called by TextFileView - clear the view
 	 */
 	clear(): void {
 		this.radarData = null;
+		this.viewState = { ...DEFAULT_VIEW_STATE };
+		this.history.clear();
+		this.toolbar?.setHistoryState(false, false);
 		if (this.renderer) {
 			this.renderer.destroy();
 			this.renderer = null;
@@ -80,6 +231,17 @@ export class RadarView extends TextFileView {
 			this.interactions.destroy();
 			this.interactions = null;
 		}
+		this.blipPreview.destroy();
+		this.table?.clear();
+		this.legend?.clear();
+		this.timeline?.clear();
+		// Ring and segment ids belong to the previous file; the search text is kept
+		this.filter.priorityIds = [];
+		this.filter.categoryIds = [];
+		this.jumpIndex = -1;
+		// Compare mode belongs to the previous file
+		this.comparisonBaseline = null;
+		this.compareBanner?.empty();
 	}
 
 	async onOpen(): Promise<void> {
@@ -93,17 +255,70 @@ export class RadarView extends TextFileView {
 		// Create toolbar container
 		const toolbarContainer = this.mainContainer.createDiv({ cls: "radar-toolbar" });
 
+		// Summary of compare mode, empty (and hidden) otherwise
+		this.compareBanner = this.mainContainer.createDiv({ cls: "radar-compare-banner" });
+
+		// Radar and table side by side, one of them hidden unless the layout is split
+		this.contentContainer = this.mainContainer.createDiv({ cls: "radar-content" });
+
 		// Create SVG container
-		this.svgContainer = this.mainContainer.createDiv({ cls: "radar-svg-container" });
+		this.svgContainer = this.contentContainer.createDiv({ cls: "radar-svg-container" });
+
+		// Numbered blip list, shown next to the radar when blips are labelled with numbers
+		this.legend = new RadarLegend(this.contentContainer.createDiv({ cls: "radar-legend-container" }), {
+			onBlipClick: (blipId, event) => this.onListItemClick(blipId, event),
+		});
+
+		// Ring and segment changes, shown next to the radar or table when turned on
+		this.timeline = new RadarTimeline(this.contentContainer.createDiv({ cls: "radar-timeline-container" }), {
+			onBlipClick: (blipId, event) => this.onListItemClick(blipId, event),
+			isRecording: () => this.plugin.settings.recordBlipHistory,
+		});
+
+		// Create table
+		this.table = new RadarTable(this.contentContainer.createDiv({ cls: "radar-table-container" }), {
+			onTitleChange: (blipId, title) => this.updateBlip(blipId, { title }),
+			onPriorityChange: (blipId, priorityId) => this.moveBlipsToPriority([blipId], priorityId),
+			onCategoryChange: (blipId, categoryId) => this.moveBlipsToCategory([blipId], categoryId),
+			onOpenNote: (blipId) => {
+				const blip = this.radarData?.blips.find((b) => b.id === blipId);
+				if (blip) this.openNote(blip);
+			},
+			onRowClick: (blipId, event) => this.onListItemClick(blipId, event),
+			getNoteModified: (notePath) => {
+				const file = this.app.vault.getAbstractFileByPath(notePath);
+				return file instanceof TFile ? file.stat.mtime : undefined;
+			},
+		});
 
 		// Create toolbar
 		this.toolbar = new RadarToolbar(toolbarContainer, {
 			onAddNote: () => this.openAddNoteModal(),
 			onAddText: () => this.openAddTextModal(),
+			onEditStructure: () => this.openStructureModal(),
+			onUndo: () => this.undo(),
+			onRedo: () => this.redo(),
 			onZoomIn: () => this.zoomIn(),
 			onZoomOut: () => this.zoomOut(),
 			onResetZoom: () => this.resetZoom(),
+			onChangeLayout: (event) => this.showLayoutMenu(event),
+			onFilterQueryChange: (query) => {
+				this.filter.query = query;
+				this.jumpIndex = -1;
+				this.applyFilter();
+			},
+			onShowFilterMenu: (event) => this.showFilterMenu(event),
+			onJumpToMatch: () => this.jumpToNextMatch(),
+			onToggleSnap: () => this.toggleSnap(),
+			onShowHistoryMenu: (event) => this.showHistoryMenu(event),
 		});
+
+		// Tags and properties used by the filter can change while the radar is open
+		this.registerEvent(
+			this.app.metadataCache.on("changed", () => {
+				if (isFilterActive(this.filter)) this.applyFilter();
+			})
+		);
 	}
 
 	async onClose(): Promise<void> {
@@ -127,10 +342,14 @@ export class RadarView extends TextFileView {
 
 		// Clear container
 		this.svgContainer.empty();
+		this.selectedBlipIds = [];
 
 		// Create renderer
+		const labelMode = this.plugin.settings.blipLabels;
 		this.renderer = new RadarRenderer(this.svgContainer, this.radarData, {
 			blipRadius: this.plugin.settings.blipRadius,
+			labelMode,
+			showTrails: this.viewState.showTrails ?? false,
 		});
 
 		// Create interactions handler
@@ -138,166 +357,1474 @@ export class RadarView extends TextFileView {
 			this.renderer.getSvgElement(),
 			this.renderer.getBlipsGroup(),
 			{
-				onBlipMove: (blipId, r, theta) => this.onBlipMove(blipId, r, theta),
+				onBlipMove: (blipId, r, theta, snap) => this.onBlipMove(blipId, r, theta, snap),
+				onBlipsMove: (moves, snap) => this.onBlipsMove(moves, snap),
+				// Nudges of one blip in a row undo together
+				onBlipNudge: (blipId, r, theta) => this.onBlipMove(blipId, r, theta, false, `nudge:${blipId}`),
 				onBlipClick: (blipId, event) => this.onBlipClick(blipId, event),
+				onBlipDelete: (blipId) => this.onBlipDelete(blipId),
+				onSelectionChange: (blipIds) => this.onSelectionChange(blipIds),
 				onZoomChange: (zoom) => this.onZoomChange(zoom),
 				onPanChange: (panX, panY) => this.onPanChange(panX, panY),
+				snapToCells: this.viewState.snapToCells ?? false,
+				onDragOver: (position, snap) => this.onDragOver(position, snap),
+				onBlipHover: (blipId, blipGroup, event) => this.onBlipHover(blipId, blipGroup, event),
+				onBlipHoverEnd: () => this.blipPreview.hide(),
 			}
 		);
+		this.toolbar?.setSnapState(this.viewState.snapToCells ?? false);
+
+		// Restore the saved zoom and pan
+		const { zoom, panX, panY } = this.viewState;
+		this.renderer.setTransform(zoom, panX, panY);
+		this.interactions.setZoom(zoom);
+		this.interactions.setPan(panX, panY);
 
+		this.table?.update(this.radarData);
+		this.table?.setSelection([]);
+		this.contentContainer?.toggleClass("radar-numbered", labelMode === "numbers");
+		this.legend?.setSelection([]);
+		this.updateLegend();
+		this.timeline?.setSelection([]);
+		this.contentContainer?.toggleClass("radar-show-timeline", this.viewState.showTimeline ?? false);
+		this.updateTimeline();
+		this.updateComparison();
+		this.applyFilter();
+		this.applyLayout(this.viewState.layout ?? "radar");
 	}
 
 	/**
-	 * Handle blip click (not drag)
+	 * Redraw with the current settings (label mode, blip size)
 	 */
-	private onBlipClick(blipId: string, event: MouseEvent | TouchEvent): void {
-		const blip = this.radarData?.blips.find((b) => b.id === blipId);
-		if (!blip) return;
+	redraw(): void {
+		this.renderRadar();
+	}
 
-		const menu = new Menu();
+	/**
+	 * Refresh the timeline panel while it is shown
+	 */
+	private updateTimeline(): void {
+		if (this.radarData && this.viewState.showTimeline) {
+			this.timeline?.update(this.radarData);
+		}
+	}
 
-		// If it's a note blip, offer to open the note
-		if (blip.type === "note" && blip.notePath) {
+	/**
+	 * Offer the timeline panel and blip trails
+	 */
+	private showHistoryMenu(event: MouseEvent): void {
+		const menu = new Menu();
+		menu.addItem((item) =>
+			item
+				.setTitle("Show timeline")
+				.setIcon("history")
+				.setChecked(this.viewState.showTimeline ?? false)
+				.onClick(() => this.toggleTimeline())
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Show trails")
+				.setIcon("route")
+				.setChecked(this.viewState.showTrails ?? false)
+				.onClick(() => this.toggleTrails())
+		);
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle("Take snapshot...")
+				.setIcon("camera")
+				.onClick(() => this.openSnapshotModal())
+		);
+		menu.addItem((item) =>
+			item
+				.setTitle("Compare with snapshot...")
+				.setIcon("git-compare")
+				.onClick(() => this.openCompareModal())
+		);
+		if (this.comparisonBaseline) {
 			menu.addItem((item) =>
 				item
-					.setTitle("Open note")
-					.setIcon("file")
-					.onClick(() => {
-						if (blip.notePath) {
-							void this.app.workspace.openLinkText(blip.notePath, "");
-						}
-					})
+					.setTitle("Stop comparing")
+					.setIcon("x")
+					.onClick(() => this.stopComparing())
 			);
 		}
+		menu.showAtMouseEvent(event);
+	}
 
-		menu.addItem((item) =>
-			item
-				.setTitle("Remove from radar")
-				.setIcon("trash")
-				.onClick(() => this.removeBlip(blipId))
-		);
+	/**
+	 * Ask for a label and freeze the radar in the file or in a file of its own
+	 */
+	openSnapshotModal(): void {
+		if (!this.radarData) return;
 
-		// Handle both mouse and touch events for menu positioning
-		if (event instanceof MouseEvent) {
-			menu.showAtMouseEvent(event);
-		} else {
-			// For touch events, use the touch position
-			const touch = event.changedTouches[0];
-			if (touch) {
-				menu.showAtPosition({ x: touch.clientX, y: touch.clientY });
-			}
+		new SnapshotModal(this.app, (label, target) => {
+			void this.takeSnapshot(label, target);
+		}).open();
+	}
+
+	private async takeSnapshot(label: string, target: SnapshotTarget): Promise<void> {
+		const radarData = this.radarData;
+		if (!radarData || !this.file) return;
+
+		const store = this.plugin.radarStore;
+		const snapshot = store.createSnapshot(radarData, label);
+		if (target === "radar") {
+			this.applyEdit(addSnapshotEdit(snapshot));
+			new Notice(`Snapshot "${label}" saved in the radar`);
+			return;
+		}
+
+		// Characters Obsidian doesn't allow in file names
+		const name = `${this.file.basename} - ${label}`.replace(/[\\/:*?"<>|#^[\]]/g, "-");
+		const folder = this.file.parent ?? undefined;
+		try {
+			const file = await store.createRadar(name, folder, store.createRadarDataFromSnapshot(snapshot));
+			new Notice(`Snapshot saved as ${file.path}`);
+		} catch (error) {
+			console.error("Failed to save snapshot:", error);
+			new Notice(`Could not save the snapshot as "${name}". A file with that name may already exist.`);
 		}
 	}
 
 	/**
-	 * Handle blip move (drag end)
+	 * Pick a snapshot in this file, or a radar file next to it, to compare the radar with
 	 */
-	private onBlipMove(blipId: string, r: number, theta: number): void {
-		if (!this.radarData) return;
+	openCompareModal(): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
 
-		this.plugin.radarStore.updateBlipPosition(this.radarData, blipId, r, theta);
-		this.requestSave();
+		const store = this.plugin.radarStore;
+		const options: Array<{ label: string; load: () => Promise<RadarState> }> = [];
+		for (const snapshot of [...(radarData.snapshots ?? [])].reverse()) {
+			options.push({
+				label: `${snapshot.label} (${new Date(snapshot.createdAt).toLocaleDateString()})`,
+				load: () => Promise.resolve(snapshot),
+			});
+		}
+		const siblings = store.listRadarFiles().filter((file) => file !== this.file && file.parent === this.file?.parent);
+		for (const file of siblings) {
+			options.push({ label: `${file.basename} (radar file)`, load: () => store.loadRadar(file) });
+		}
+
+		if (options.length === 0) {
+			new Notice("No snapshots yet. Take a snapshot first, or keep snapshot files next to this radar.");
+			return;
+		}
+
+		new ChoiceModal(this.app, options, (option) => option.label, "Compare with...", (option) => {
+			option.load().then(
+				(state) => this.compareWith(option.label, state),
+				(error) => {
+					console.error("Failed to load snapshot:", error);
+					new Notice(`Could not read ${option.label}`);
+				}
+			);
+		}).open();
 	}
 
 	/**
-	 * Handle zoom change
+	 * Enter compare mode: mark blips that are new or moved since the baseline
 	 */
-	private onZoomChange(zoom: number): void {
-		this.viewState.zoom = zoom;
-		this.renderer?.setZoom(zoom);
+	private compareWith(label: string, state: RadarState): void {
+		this.comparisonBaseline = {
+			label,
+			state: {
+				priorityLevels: state.priorityLevels.map((p) => ({ ...p })),
+				categories: state.categories.map((c) => ({ ...c })),
+				blips: state.blips.map((blip) => ({ ...blip })),
+			},
+		};
+		this.updateComparison();
 	}
 
 	/**
-	 * Handle pan change
+	 * Leave compare mode
 	 */
-	private onPanChange(panX: number, panY: number): void {
-		this.viewState.panX = panX;
-		this.viewState.panY = panY;
-		this.renderer?.setPan(panX, panY);
+	stopComparing(): void {
+		this.comparisonBaseline = null;
+		this.updateComparison();
 	}
 
 	/**
-	 * Open modal to add a note blip
+	 * Whether the radar is being compared with a snapshot
 	 */
-	private openAddNoteModal(): void {
-		if (!this.radarData) return;
+	isComparing(): boolean {
+		return this.comparisonBaseline !== null;
+	}
 
-		const modal = new AddBlipModal(this.app, (notePath, title) => {
-			this.addBlip({
-				type: "note",
-				title,
-				notePath,
-				r: 0.5, // Default to middle
-				theta: Math.random() * 360, // Random angle
-			});
-		});
-		modal.open();
+	/**
+	 * Whether the radar file holds any snapshots
+	 */
+	hasSnapshots(): boolean {
+		return (this.radarData?.snapshots?.length ?? 0) > 0;
 	}
 
 	/**
-	 * Open modal to add a text blip
+	 * Pick a snapshot stored in the radar file and delete it
 	 */
-	private openAddTextModal(): void {
-		if (!this.radarData) return;
+	openDeleteSnapshotModal(): void {
+		const radarData = this.radarData;
+		if (!radarData?.snapshots?.length) return;
 
-		const modal = new AddTextModal(this.app, (title) => {
-			this.addBlip({
-				type: "text",
-				title,
-				r: 0.5,
-				theta: Math.random() * 360,
+		new ChoiceModal(
+			this.app,
+			[...radarData.snapshots].reverse(),
+			(snapshot) => `${snapshot.label} (${new Date(snapshot.createdAt).toLocaleDateString()})`,
+			"Delete snapshot...",
+			(snapshot) => {
+				const index = radarData.snapshots?.indexOf(snapshot) ?? -1;
+				if (index === -1) return;
+				this.applyEdit(removeSnapshotEdit(snapshot, index));
+				new Notice(`Snapshot "${snapshot.label}" deleted. Undo to restore it.`);
+			}
+		).open();
+	}
+
+	/**
+	 * Recompute the differences after a change, and show them on the radar and in the banner
+	 */
+	private updateComparison(): void {
+		const banner = this.compareBanner;
+		banner?.empty();
+		const baseline = this.comparisonBaseline;
+		if (!baseline || !this.radarData) {
+			this.renderer?.setComparison(null);
+			return;
+		}
+
+		const comparison = compareRadars(baseline.state, this.radarData);
+		this.renderer?.setComparison(comparison);
+		if (!banner) return;
+
+		const counts = countChanges(comparison);
+		banner.createSpan({ cls: "radar-compare-banner-label", text: `Compared with ${baseline.label}` });
+		const summary: Array<[string, number]> = [
+			["new", counts.new],
+			["moved-in", counts["moved-in"]],
+			["moved-out", counts["moved-out"]],
+			["removed", counts.removed],
+		];
+		for (const [kind, count] of summary) {
+			banner.createSpan({
+				cls: `radar-compare-count radar-compare-count-${kind}`,
+				text: `${count} ${kind.replace("-", " ")}`,
 			});
-		});
-		modal.open();
+		}
+		const stopButton = banner.createEl("button", { cls: "radar-compare-stop", text: "Stop comparing" });
+		stopButton.addEventListener("click", () => this.stopComparing());
 	}
 
 	/**
-	 * Add a blip to the radar
+	 * Show or hide the timeline panel
 	 */
-	private addBlip(blipData: Omit<Blip, "id">): void {
-		if (!this.radarData) return;
+	toggleTimeline(): void {
+		const show = !this.viewState.showTimeline;
+		this.viewState.showTimeline = show;
+		this.contentContainer?.toggleClass("radar-show-timeline", show);
+		this.updateTimeline();
+		this.saveViewState();
+	}
 
-		const blip = this.plugin.radarStore.addBlip(this.radarData, blipData);
-		this.renderer?.addBlip(blip);
-		this.requestSave();
+	/**
+	 * Show or hide the past positions of blips
+	 */
+	toggleTrails(): void {
+		const show = !this.viewState.showTrails;
+		this.viewState.showTrails = show;
+		this.renderer?.setShowTrails(show);
+		this.saveViewState();
 	}
 
 	/**
-	 * Remove a blip from the radar
+	 * Refresh the numbered legend; blips may have been renumbered by a move
 	 */
-	private removeBlip(blipId: string): void {
+	private updateLegend(): void {
 		if (!this.radarData) return;
 
-		this.plugin.radarStore.removeBlip(this.radarData, blipId);
-		this.renderer?.removeBlip(blipId);
-		this.requestSave();
+		if (this.plugin.settings.blipLabels === "numbers") {
+			this.legend?.update(this.radarData);
+		} else {
+			this.legend?.clear();
+		}
 	}
 
 	/**
-	 * Zoom controls
+	 * Dim or hide the blips that don't match the filter
 	 */
-	private zoomIn(): void {
-		const newZoom = Math.min(
-			this.viewState.zoom + SVG_CONFIG.zoomStep,
-			SVG_CONFIG.maxZoom
+	private applyFilter(): void {
+		if (!this.radarData) return;
+
+		const { blips } = this.radarData;
+		const matching = isFilterActive(this.filter)
+			? getMatchingBlipIds(this.radarData, this.filter, (notePath) => this.getNoteMetadata(notePath))
+			: null;
+		this.matchingBlipIds = blips.filter((b) => !matching || matching.has(b.id)).map((b) => b.id);
+
+		const filteredOut = matching ? blips.filter((b) => !matching.has(b.id)).map((b) => b.id) : [];
+		this.renderer?.setFilter(filteredOut, this.filter.hideNonMatches);
+		this.table?.setFilter(filteredOut, this.filter.hideNonMatches);
+		this.legend?.setFilter(filteredOut, this.filter.hideNonMatches);
+		this.toolbar?.setFilterStatus(
+			matching ? matching.size : null,
+			blips.length,
+			this.filter.priorityIds.length > 0 || this.filter.categoryIds.length > 0
 		);
-		this.onZoomChange(newZoom);
 	}
 
-	private zoomOut(): void {
-		const newZoom = Math.max(
-			this.viewState.zoom - SVG_CONFIG.zoomStep,
-			SVG_CONFIG.minZoom
+	/**
+	 * Tags and frontmatter of a linked note, for filtering
+	 */
+	private getNoteMetadata(notePath: string): NoteMetadata | undefined {
+		const file = this.app.vault.getAbstractFileByPath(notePath);
+		const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+		if (!cache) return undefined;
+
+		return {
+			tags: (getAllTags(cache) ?? []).map((tag) => tag.replace(/^#/, "")),
+			properties: cache.frontmatter ?? {},
+		};
+	}
+
+	/**
+	 * Quick filters per ring and segment, and dim or hide
+	 */
+	private showFilterMenu(event: MouseEvent): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const menu = new Menu();
+		const toggle = (ids: string[], id: string) =>
+			ids.includes(id) ? ids.filter((existing) => existing !== id) : [...ids, id];
+
+		for (const priority of sortPriorities(radarData.priorityLevels)) {
+			menu.addItem((item) =>
+				item
+					.setTitle(`Ring: ${priority.name || "Unnamed ring"}`)
+					.setChecked(this.filter.priorityIds.includes(priority.id))
+					.onClick(() => {
+						this.filter.priorityIds = toggle(this.filter.priorityIds, priority.id);
+						this.applyFilter();
+					})
+			);
+		}
+
+		if (radarData.categories.length > 0) {
+			menu.addSeparator();
+			for (const category of sortCategories(radarData.categories)) {
+				menu.addItem((item) =>
+					item
+						.setTitle(`Segment: ${category.name || `at ${Math.round(category.startAngle)}°`}`)
+						.setChecked(this.filter.categoryIds.includes(category.id))
+						.onClick(() => {
+							this.filter.categoryIds = toggle(this.filter.categoryIds, category.id);
+							this.applyFilter();
+						})
+				);
+			}
+		}
+
+		menu.addSeparator();
+		menu.addItem((item) =>
+			item
+				.setTitle("Hide non-matching blips")
+				.setChecked(this.filter.hideNonMatches)
+				.onClick(() => {
+					this.filter.hideNonMatches = !this.filter.hideNonMatches;
+					this.applyFilter();
+				})
 		);
-		this.onZoomChange(newZoom);
+		menu.addItem((item) =>
+			item
+				.setTitle("Clear ring and segment filters")
+				.setIcon("x")
+				.setDisabled(this.filter.priorityIds.length === 0 && this.filter.categoryIds.length === 0)
+				.onClick(() => {
+					this.filter.priorityIds = [];
+					this.filter.categoryIds = [];
+					this.applyFilter();
+				})
+		);
+
+		menu.showAtMouseEvent(event);
 	}
 
-	private resetZoom(): void {
-		// Reset both zoom and pan
-		this.onZoomChange(1);
-		this.onPanChange(0, 0);
-		this.interactions?.setZoom(1);
-		this.interactions?.setPan(0, 0);
+	/**
+	 * Center the radar on the next matching blip and select it
+	 */
+	private jumpToNextMatch(): void {
+		if (this.matchingBlipIds.length === 0) {
+			new Notice("No matching blips");
+			return;
+		}
+
+		this.jumpIndex = (this.jumpIndex + 1) % this.matchingBlipIds.length;
+		const blipId = this.matchingBlipIds[this.jumpIndex];
+		if (!blipId) return;
+
+		this.interactions?.centerOnBlip(blipId, JUMP_ZOOM);
+		this.interactions?.setSelection([blipId]);
+	}
+
+	/**
+	 * Offer the radar, table and split layouts
+	 */
+	private showLayoutMenu(event: MouseEvent): void {
+		const current = this.viewState.layout ?? "radar";
+		const layouts: Array<{ layout: RadarLayout; title: string; icon: string }> = [
+			{ layout: "radar", title: "Radar", icon: "target" },
+			{ layout: "table", title: "Table", icon: "table" },
+			{ layout: "split", title: "Radar and table", icon: "columns-2" },
+		];
+
+		const menu = new Menu();
+		for (const { layout, title, icon } of layouts) {
+			menu.addItem((item) =>
+				item
+					.setTitle(title)
+					.setIcon(icon)
+					.setChecked(layout === current)
+					.onClick(() => this.setLayout(layout))
+			);
+		}
+		menu.showAtMouseEvent(event);
+	}
+
+	/**
+	 * Switch layout
+	 */
+	private setLayout(layout: RadarLayout): void {
+		this.viewState.layout = layout;
+		this.applyLayout(layout);
+		this.saveViewState();
+	}
+
+	private applyLayout(layout: RadarLayout): void {
+		if (!this.contentContainer) return;
+
+		for (const name of ["radar", "table", "split"]) {
+			this.contentContainer.toggleClass(`radar-layout-${name}`, name === layout);
+		}
+	}
+
+	/**
+	 * Select a blip from its table row or legend entry (shift or Mod adds to the selection)
+	 */
+	private onListItemClick(blipId: string, event: MouseEvent): void {
+		if (!this.interactions) return;
+
+		if (event.shiftKey || event.metaKey || event.ctrlKey) {
+			const ids = new Set(this.selectedBlipIds);
+			if (ids.has(blipId)) {
+				ids.delete(blipId);
+			} else {
+				ids.add(blipId);
+			}
+			this.interactions.setSelection([...ids]);
+		} else {
+			this.interactions.setSelection([blipId]);
+		}
+	}
+
+	/**
+	 * Preview a blip under the pointer or held on a touch screen
+	 */
+	private onBlipHover(blipId: string, blipGroup: SVGGElement, event: MouseEvent): void {
+		const blip = this.radarData?.blips.find((b) => b.id === blipId);
+		if (!blip || !this.radarData || !this.file) return;
+		this.blipPreview.show(blip, this.radarData, blipGroup, event, this.file.path);
+	}
+
+	/**
+	 * Handle blip click (not drag)
+	 */
+	private onBlipClick(blipId: string, event: BlipClickEvent): void {
+		const blip = this.radarData?.blips.find((b) => b.id === blipId);
+		if (!blip) return;
+
+		// Clicking one of several selected blips acts on the whole selection
+		if (this.selectedBlipIds.length > 1 && this.selectedBlipIds.includes(blipId)) {
+			this.showBulkMenu(event);
+			return;
+		}
+
+		const menu = new Menu();
+
+		// If it's a note blip, offer to open the note, or to relink it once the note is gone
+		if (blip.type === "note" && blip.notePath && !blip.orphaned) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Open note")
+					.setIcon("file")
+					.onClick(() => this.openNote(blip))
+			);
+		}
+
+		if (blip.type === "note" && blip.orphaned) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Relink note")
+					.setIcon("link")
+					.onClick(() => this.openRelinkModal(blip))
+			);
+		}
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Edit blip")
+				.setIcon("pencil")
+				.onClick(() => this.openEditBlipModal(blip))
+		);
+
+		if (blip.history?.length) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Clear history")
+					.setIcon("history")
+					.onClick(() => this.updateBlip(blipId, { history: undefined }))
+			);
+		}
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Remove from radar")
+				.setIcon("trash")
+				.onClick(() => this.removeBlip(blipId))
+		);
+
+		this.showMenu(menu, event);
+	}
+
+	/**
+	 * Context menu for a multi-blip selection
+	 */
+	private showBulkMenu(event: BlipClickEvent): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const ids = [...this.selectedBlipIds];
+		const menu = new Menu();
+
+		menu.addItem((item) =>
+			item
+				.setTitle(`Move ${ids.length} blips to ring...`)
+				.setIcon("circle-dot")
+				.onClick(() => {
+					new ChoiceModal(
+						this.app,
+						sortPriorities(radarData.priorityLevels),
+						(priority) => priority.name || "Unnamed ring",
+						"Choose a ring...",
+						(priority) => this.moveBlipsToPriority(ids, priority.id)
+					).open();
+				})
+		);
+
+		if (radarData.categories.length > 0) {
+			menu.addItem((item) =>
+				item
+					.setTitle(`Move ${ids.length} blips to segment...`)
+					.setIcon("pie-chart")
+					.onClick(() => {
+						new ChoiceModal(
+							this.app,
+							sortCategories(radarData.categories),
+							(category) => category.name || `Segment at ${Math.round(category.startAngle)}°`,
+							"Choose a segment...",
+							(category) => this.moveBlipsToCategory(ids, category.id)
+						).open();
+					})
+			);
+		}
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Auto-arrange their rings and segments")
+				.setIcon("layout-grid")
+				.onClick(() => this.autoArrange(ids))
+		);
+
+		menu.addItem((item) =>
+			item
+				.setTitle(`Recolor ${ids.length} blips...`)
+				.setIcon("palette")
+				.onClick(() => {
+					new ColorModal(this.app, `Recolor ${ids.length} blips`, undefined, (color) => {
+						this.recolorBlips(ids, color);
+					}).open();
+				})
+		);
+
+		menu.addItem((item) =>
+			item
+				.setTitle(`Remove ${ids.length} blips from radar`)
+				.setIcon("trash")
+				.onClick(() => this.removeBlips(ids))
+		);
+
+		this.showMenu(menu, event);
+	}
+
+	/**
+	 * Show a menu at the mouse or touch position
+	 */
+	private showMenu(menu: Menu, event: BlipClickEvent): void {
+		// Handle mouse, touch and keyboard events for menu positioning
+		if (event instanceof MouseEvent) {
+			menu.showAtMouseEvent(event);
+		} else if (event instanceof KeyboardEvent) {
+			// Open below the focused blip
+			const rect = (event.target as Element).getBoundingClientRect();
+			menu.showAtPosition({ x: rect.left, y: rect.bottom });
+		} else {
+			// For touch events, use the touch position
+			const touch = event.changedTouches[0];
+			if (touch) {
+				menu.showAtPosition({ x: touch.clientX, y: touch.clientY });
+			}
+		}
+	}
+
+	/**
+	 * Handle blip move (drag end) or keyboard nudge
+	 * @param snap - Place the blip in a clear spot of the ring and segment it was dropped in
+	 * @param mergeKey - Join the previous undo step with the same key (repeated nudges)
+	 */
+	private onBlipMove(blipId: string, r: number, theta: number, snap: boolean, mergeKey?: string): void {
+		const radarData = this.radarData;
+		const blip = radarData?.blips.find((b) => b.id === blipId);
+		if (!radarData || !blip) return;
+
+		const [move] = snap ? snapToCells(radarData, [{ blipId, r, theta }]) : [{ blipId, r, theta }];
+		if (!move) return;
+
+		this.applyEdit(moveBlipEdit(this.plugin.radarStore, blipId, { r: blip.r, theta: blip.theta }, move), true, mergeKey);
+		this.renderer?.updateBlipPosition(blipId, move.r, move.theta);
+		this.syncFrontmatter([blip]);
+	}
+
+	/**
+	 * Highlight the ring and segment under a dragged blip while snapping
+	 */
+	private onDragOver(position: PolarPoint | null, snap: boolean): void {
+		const cell = this.radarData && position && snap ? getBlipCell(position, this.radarData) : undefined;
+		this.renderer?.setDropTarget(cell ?? null);
+	}
+
+	/**
+	 * Turn snapping on or off
+	 */
+	private toggleSnap(): void {
+		const enabled = !this.viewState.snapToCells;
+		this.viewState.snapToCells = enabled;
+		this.interactions?.setSnapToCells(enabled);
+		this.toolbar?.setSnapState(enabled);
+		this.saveViewState();
+		if (enabled) {
+			new Notice("Dropped blips now snap into their ring and segment. Hold the alt key while dropping to place them freely.");
+		}
+	}
+
+	/**
+	 * Delete key on a focused blip: remove it (or the whole selection it belongs to)
+	 * and keep keyboard focus on the radar
+	 */
+	private onBlipDelete(blipId: string): void {
+		const blips = this.radarData?.blips;
+		if (!blips) return;
+
+		const ids = this.selectedBlipIds.length > 1 && this.selectedBlipIds.includes(blipId)
+			? [...this.selectedBlipIds]
+			: [blipId];
+		// Focus moves to the blip that followed the removed one in tab order
+		const index = blips.findIndex((b) => b.id === blipId);
+		const remaining = blips.filter((b) => !ids.includes(b.id));
+		const next = blips.slice(index).find((b) => !ids.includes(b.id)) ?? remaining[remaining.length - 1];
+
+		if (ids.length > 1) {
+			this.removeBlips(ids);
+		} else {
+			this.removeBlip(blipId);
+		}
+
+		if (next) {
+			this.renderer?.focusBlip(next.id);
+		}
+	}
+
+	/**
+	 * Handle a multi-blip drag
+	 */
+	private onBlipsMove(dropped: BlipMove[], snap: boolean): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const moves = snap ? snapToCells(radarData, dropped) : dropped;
+		const edits = moves.flatMap((move) => {
+			const blip = radarData.blips.find((b) => b.id === move.blipId);
+			return blip
+				? [moveBlipEdit(this.plugin.radarStore, move.blipId, { r: blip.r, theta: blip.theta }, move)]
+				: [];
+		});
+		this.applyEdit(compositeEdit(`Move ${edits.length} blips`, edits));
+		for (const move of moves) {
+			this.renderer?.updateBlipPosition(move.blipId, move.r, move.theta);
+		}
+		this.syncFrontmatter(radarData.blips.filter((blip) => moves.some((move) => move.blipId === blip.id)));
+	}
+
+	/**
+	 * Track and highlight the selected blips
+	 */
+	private onSelectionChange(blipIds: string[]): void {
+		const changed = blipIds.length !== this.selectedBlipIds.length
+			|| blipIds.some((id) => !this.selectedBlipIds.includes(id));
+		if (changed) this.history.endMerge();
+		this.selectedBlipIds = blipIds;
+		this.renderer?.setSelection(blipIds);
+		this.table?.setSelection(blipIds);
+		this.legend?.setSelection(blipIds);
+		this.timeline?.setSelection(blipIds);
+		const [blipId] = blipIds;
+		if (blipId && blipIds.length === 1) {
+			this.table?.revealBlip(blipId);
+		}
+	}
+
+	/**
+	 * Move blips into a ring, keeping their relative depth inside the ring
+	 */
+	private moveBlipsToPriority(blipIds: string[], priorityId: string): void {
+		this.moveBlips(blipIds, "Move blips to ring", (blip, radar) => ({
+			r: getRadiusInPriority(blip.r, radar.priorityLevels, priorityId),
+			theta: blip.theta,
+		}));
+	}
+
+	/**
+	 * Move blips into a segment, keeping their relative angle inside the segment
+	 */
+	private moveBlipsToCategory(blipIds: string[], categoryId: string): void {
+		this.moveBlips(blipIds, "Move blips to segment", (blip, radar) => ({
+			r: blip.r,
+			theta: getAngleInCategory(blip.theta, radar.categories, categoryId),
+		}));
+	}
+
+	/**
+	 * Move several blips as one undo step
+	 */
+	private moveBlips(
+		blipIds: string[],
+		label: string,
+		getPosition: (blip: Blip, radar: RadarData) => { r: number; theta: number }
+	): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const blips = radarData.blips.filter((blip) => blipIds.includes(blip.id));
+		const edits = blips.map((blip) => moveBlipEdit(
+			this.plugin.radarStore,
+			blip.id,
+			{ r: blip.r, theta: blip.theta },
+			getPosition(blip, radarData)
+		));
+		this.applyEdit(compositeEdit(label, edits));
+		this.renderer?.updateData(radarData);
+		this.syncFrontmatter(blips);
+	}
+
+	/**
+	 * Write the ring and segment of note blips into their notes' properties
+	 * @param blips - Blips that moved (default: every blip, e.g. after rings were renamed)
+	 * @param previous - Rings and segments before they were renamed
+	 */
+	private syncFrontmatter(blips?: Blip[], previous?: Pick<RadarData, "priorityLevels" | "categories">): void {
+		if (!this.radarData || !this.file) return;
+		void this.plugin.frontmatterSync.writeBlips(this.radarData, this.file.path, blips ?? this.radarData.blips, previous);
+	}
+
+	/**
+	 * Move the blips of a note into the ring and segment named by its properties
+	 */
+	applyFrontmatterPlacement(notePath: string, placement: FrontmatterPlacement): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const positions = new Map<string, { r: number; theta: number }>();
+		for (const blip of radarData.blips) {
+			const position = blip.notePath === notePath ? getFrontmatterPosition(blip, radarData, placement) : null;
+			if (position) positions.set(blip.id, position);
+		}
+		if (positions.size === 0) return;
+
+		this.moveBlips([...positions.keys()], "Move blips from note properties", (blip) => positions.get(blip.id) ?? blip);
+	}
+
+	/**
+	 * Apply a renamed or deleted note to the blips linking to it. The vault change
+	 * can't be undone from the radar, so neither is this.
+	 * @param change - Updates the titles, note paths or orphaned flags of a copy of the radar
+	 *   and returns whether anything changed
+	 */
+	applyNoteChange(change: (radar: RadarData) => boolean): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const changed: RadarData = { ...radarData, blips: radarData.blips.map((blip) => ({ ...blip })) };
+		if (!change(changed)) return;
+
+		const store = this.plugin.radarStore;
+		const edits = changed.blips.flatMap((after, index) => {
+			const before = radarData.blips[index];
+			if (!before || (before.title === after.title && before.notePath === after.notePath && before.orphaned === after.orphaned)) {
+				return [];
+			}
+			return [updateBlipEdit(
+				store,
+				before.id,
+				{ title: before.title, notePath: before.notePath, orphaned: before.orphaned },
+				{ title: after.title, notePath: after.notePath, orphaned: after.orphaned }
+			)];
+		});
+		this.applyEdit(compositeEdit("Follow note changes", edits), false);
+		this.renderer?.updateData(radarData);
+	}
+
+	/**
+	 * Add blips for notes that match the radar's source and flag or remove blips
+	 * of notes that stopped matching. This runs in the background after notes change
+	 * and is not added to the undo history: the next sync would only redo it.
+	 */
+	syncSource(): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const changes = planSourceSync(this.plugin, radarData);
+		if (!changes) return;
+
+		this.applyEdit(compositeEdit("Sync with note source", this.getSourceSyncEdits(changes)), false);
+		this.afterSourceSync(changes);
+	}
+
+	/**
+	 * Edits that apply the planned changes of a source sync
+	 */
+	private getSourceSyncEdits(changes: SourceSyncChanges): RadarEdit[] {
+		const store = this.plugin.radarStore;
+		return [
+			...changes.flagged.map((blipId) => updateBlipEdit(store, blipId, { unmatched: undefined }, { unmatched: true })),
+			...changes.unflagged.map((blipId) => updateBlipEdit(store, blipId, { unmatched: true }, { unmatched: undefined })),
+			// Remove from the end so the recorded indices stay valid on undo
+			...[...changes.removed].reverse().map(({ blip, index }) => removeBlipEdit(store, blip, index)),
+			...changes.added.map((blip) => addBlipEdit(store, blip)),
+		];
+	}
+
+	/**
+	 * Redraw after a source sync and write the placement of added note blips into their notes
+	 */
+	private afterSourceSync(changes: SourceSyncChanges | null): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		this.renderer?.updateData(radarData);
+		const added = radarData.blips.filter((blip) => changes?.added.some((b) => b.id === blip.id));
+		if (added.length > 0) {
+			this.syncFrontmatter(added);
+		}
+	}
+
+	/**
+	 * Place the entries of a Build Your Own Radar sheet on the radar as one undo step:
+	 * missing rings and quadrants are created, blips with the same title are moved
+	 * and the rest are added as text blips
+	 * @returns The import plan, with the entries that could not be placed (their ring or
+	 * quadrant would exceed the limits); null without a radar
+	 */
+	importByor(entries: ByorEntry[]): ByorImportPlan | null {
+		const radarData = this.radarData;
+		if (!radarData) return null;
+
+		const plan = planByorImport(radarData, entries);
+		const store = this.plugin.radarStore;
+		const edits: RadarEdit[] = [];
+
+		// Existing blips keep their ring and segment in the new layout before they move
+		const positions = new Map<string, { r: number; theta: number }>();
+		for (const blip of radarData.blips) {
+			positions.set(blip.id, plan.structureChanged
+				? remapBlipPosition(blip, radarData.priorityLevels, radarData.categories, plan.priorityLevels, plan.categories)
+				: { r: blip.r, theta: blip.theta });
+		}
+		if (plan.structureChanged) {
+			const before = takeStructureSnapshot(radarData);
+			const after = {
+				priorityLevels: plan.priorityLevels,
+				categories: plan.categories,
+				positions: Object.fromEntries(positions),
+			};
+			edits.push(structureEdit(store, before, after));
+		}
+		for (const update of plan.updates) {
+			const blip = radarData.blips.find((b) => b.id === update.blipId);
+			const from = positions.get(update.blipId);
+			if (!blip || !from) continue;
+			if (from.r !== update.position.r || from.theta !== update.position.theta) {
+				edits.push(moveBlipEdit(store, blip.id, from, update.position));
+			}
+			if (update.description !== undefined) {
+				edits.push(updateBlipEdit(store, blip.id, { description: blip.description }, { description: update.description }));
+			}
+		}
+		edits.push(...plan.added.map((blip) => addBlipEdit(store, blip)));
+		if (edits.length === 0) return plan;
+
+		this.applyEdit(compositeEdit("Import from Build Your Own Radar", edits));
+		this.renderer?.updateData(radarData);
+		if (plan.structureChanged) {
+			this.syncFrontmatter();
+		} else {
+			const moved = radarData.blips.filter((blip) => plan.updates.some((u) => u.blipId === blip.id));
+			if (moved.length > 0) this.syncFrontmatter(moved);
+		}
+		return plan;
+	}
+
+	/**
+	 * Blips that are new since the radar this one is compared with,
+	 * or else since the latest snapshot in the file (none without snapshots)
+	 */
+	getNewBlipIds(): Set<string> {
+		const radarData = this.radarData;
+		const baseline = this.comparisonBaseline?.state ?? radarData?.snapshots?.[radarData.snapshots.length - 1];
+		if (!radarData || !baseline) return new Set();
+
+		const { changes } = compareRadars(baseline, radarData);
+		return new Set([...changes].filter(([, change]) => change === "new").map(([blipId]) => blipId));
+	}
+
+	/**
+	 * Choose, change or remove the notes that are kept on the radar automatically
+	 */
+	openSourceModal(): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		new RadarSourceModal(this.app, radarData.source, (source) => {
+			const store = this.plugin.radarStore;
+			const edits: RadarEdit[] = [sourceEdit(radarData.source, source)];
+			if (!source) {
+				// Without a source there is nothing for blips to stop matching,
+				// and the blips it added are kept as if added by hand
+				for (const blip of radarData.blips) {
+					if (!blip.unmatched && !blip.sourced) continue;
+					edits.push(updateBlipEdit(
+						store,
+						blip.id,
+						{ unmatched: blip.unmatched, sourced: blip.sourced },
+						{ unmatched: undefined, sourced: undefined }
+					));
+				}
+			}
+
+			// The first sync is part of the same undo step as the source change
+			const changes = source ? planSourceSync(this.plugin, { ...radarData, source }) : null;
+			if (changes) {
+				edits.push(...this.getSourceSyncEdits(changes));
+			}
+			this.applyEdit(compositeEdit(source ? "Change note source" : "Remove note source", edits));
+			this.afterSourceSync(changes);
+		}).open();
+	}
+
+	/**
+	 * Spread blips evenly inside their ring and segment, as one undo step
+	 * @param blipIds - Only arrange the cells these blips are in (default: the whole radar)
+	 */
+	autoArrange(blipIds?: string[]): void {
+		if (!this.radarData) return;
+
+		const positions = arrangeBlips(this.radarData, blipIds);
+		if (positions.size === 0) {
+			new Notice("No blips to arrange");
+			return;
+		}
+		this.moveBlips([...positions.keys()], "Auto-arrange blips", (blip) => positions.get(blip.id) ?? blip);
+	}
+
+	/**
+	 * Give several blips the same color (undefined = theme color)
+	 */
+	private recolorBlips(blipIds: string[], color: string | undefined): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const blips = radarData.blips.filter((blip) => blipIds.includes(blip.id));
+		const edits = blips.map((blip) =>
+			updateBlipEdit(this.plugin.radarStore, blip.id, { color: blip.color }, { color })
+		);
+		this.applyEdit(compositeEdit("Recolor blips", edits));
+		for (const blip of blips) {
+			this.renderer?.updateBlip(blip);
+		}
+	}
+
+	/**
+	 * Remove several blips as one undo step
+	 */
+	private removeBlips(blipIds: string[]): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		// Remove from the end so the recorded indices stay valid on undo
+		const edits = radarData.blips
+			.map((blip, index) => ({ blip, index }))
+			.filter(({ blip }) => blipIds.includes(blip.id))
+			.reverse()
+			.map(({ blip, index }) => removeBlipEdit(this.plugin.radarStore, { ...blip }, index));
+		this.applyEdit(compositeEdit(`Remove ${edits.length} blips`, edits));
+		for (const blipId of blipIds) {
+			this.renderer?.removeBlip(blipId);
+		}
+		this.interactions?.setSelection([]);
+	}
+
+	/**
+	 * Handle zoom change
+	 */
+	private onZoomChange(zoom: number): void {
+		this.viewState.zoom = zoom;
+		this.renderer?.setZoom(zoom);
+		this.saveViewState();
+	}
+
+	/**
+	 * Handle pan change
+	 */
+	private onPanChange(panX: number, panY: number): void {
+		this.viewState.panX = panX;
+		this.viewState.panY = panY;
+		this.renderer?.setPan(panX, panY);
+		this.saveViewState();
+	}
+
+	/**
+	 * Remember zoom, pan and toggles in the workspace layout (debounced by Obsidian)
+	 */
+	private saveViewState(): void {
+		void this.app.workspace.requestSaveLayout();
+	}
+
+	/**
+	 * Open modal to add a note blip
+	 */
+	private openAddNoteModal(): void {
+		if (!this.radarData) return;
+
+		const modal = new AddBlipModal(this.app, (notePath, title) => {
+			this.placeNewBlip({ type: "note", title, notePath });
+		});
+		modal.open();
+	}
+
+	/**
+	 * Open modal to add a text blip
+	 */
+	private openAddTextModal(): void {
+		if (!this.radarData) return;
+
+		const modal = new AddTextModal(this.app, (title, description) => {
+			this.placeNewBlip({ type: "text", title, ...(description && { description }) });
+		});
+		modal.open();
+	}
+
+	/**
+	 * Position and add a new blip according to the placement setting
+	 */
+	private placeNewBlip(blip: Omit<Blip, "id" | "r" | "theta">): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const mode = this.plugin.settings.newBlipPlacement;
+		if (mode === "random") {
+			this.addBlip({
+				...blip,
+				r: 0.5, // Default to middle
+				theta: Math.random() * 360, // Random angle
+			});
+			return;
+		}
+
+		const inferred = mode === "infer" && blip.notePath ? this.inferCell(blip.notePath) : {};
+		this.chooseCell(inferred, (cell) => {
+			const position = findFreePosition(radarData, cell) ?? { r: 0.5, theta: Math.random() * 360 };
+			this.addBlip({ ...blip, ...position });
+		});
+	}
+
+	/**
+	 * Ring and segment named by a note's tags or property values
+	 */
+	private inferCell(notePath: string): Partial<RadarCell> {
+		if (!this.radarData) return {};
+
+		const metadata = this.getNoteMetadata(notePath);
+		if (!metadata) return {};
+
+		const values = [...metadata.tags];
+		for (const value of Object.values(metadata.properties)) {
+			for (const item of Array.isArray(value) ? value : [value]) {
+				if (typeof item === "string") values.push(item);
+			}
+		}
+		return matchCellByNames(this.radarData, values);
+	}
+
+	/**
+	 * Ask for whatever part of a ring and segment is still missing
+	 */
+	private chooseCell(known: Partial<RadarCell>, onChoose: (cell: RadarCell) => void): void {
+		const radarData = this.radarData;
+		if (!radarData) return;
+
+		const { priorityId, categoryId } = known;
+		if (!priorityId) {
+			new ChoiceModal(
+				this.app,
+				sortPriorities(radarData.priorityLevels),
+				(priority) => priority.name || "Unnamed ring",
+				"Choose a ring for the new blip...",
+				(priority) => this.chooseCell({ ...known, priorityId: priority.id }, onChoose)
+			).open();
+			return;
+		}
+		if (!categoryId && radarData.categories.length > 0) {
+			new ChoiceModal(
+				this.app,
+				sortCategories(radarData.categories),
+				(category) => category.name || `Segment at ${Math.round(category.startAngle)}°`,
+				"Choose a segment for the new blip...",
+				(category) => this.chooseCell({ ...known, categoryId: category.id }, onChoose)
+			).open();
+			return;
+		}
+		onChoose({ priorityId, categoryId });
+	}
+
+	/**
+	 * Open the note linked to a blip
+	 */
+	private openNote(blip: Blip): void {
+		if (!blip.notePath) return;
+
+		if (!this.app.vault.getAbstractFileByPath(blip.notePath)) {
+			new Notice(`Note not found: ${blip.notePath}`);
+			return;
+		}
+		void this.app.workspace.openLinkText(blip.notePath, "");
+	}
+
+	/**
+	 * Open modal to link an orphaned blip to another note
+	 */
+	private openRelinkModal(blip: Blip): void {
+		const modal = new AddBlipModal(this.app, (notePath, title) => {
+			this.updateBlip(blip.id, {
+				notePath,
+				orphaned: undefined,
+				...(this.plugin.settings.syncTitleOnRename && { title }),
+			});
+		});
+		modal.open();
+	}
+
+	/**
+	 * Open modal to edit a blip's properties
+	 */
+	private openEditBlipModal(blip: Blip): void {
+		const modal = new EditBlipModal(this.app, blip, (updates) => {
+			// Picking an existing note fixes an orphaned blip
+			const noteExists = !!updates.notePath && !!this.app.vault.getAbstractFileByPath(updates.notePath);
+			this.updateBlip(blip.id, {
+				...updates,
+				orphaned: updates.type === "note" && !noteExists ? blip.orphaned : undefined,
+			});
+		});
+		modal.open();
+	}
+
+	/**
+	 * Apply edited properties to a blip
+	 */
+	private updateBlip(blipId: string, updates: Partial<Blip>): void {
+		const blip = this.radarData?.blips.find((b) => b.id === blipId);
+		if (!blip) return;
+
+		// Remember the current value of every field being changed
+		const before: Record<string, unknown> = {};
+		for (const key of Object.keys(updates)) {
+			before[key] = blip[key as keyof Blip];
+		}
+		this.applyEdit(updateBlipEdit(this.plugin.radarStore, blipId, before as Partial<Blip>, updates));
+		this.renderer?.updateBlip(blip);
+	}
+
+	/**
+	 * Open modal to edit rings and segments
+	 */
+	private openStructureModal(): void {
+		if (!this.radarData) return;
+
+		// Changes are shown live; the whole session becomes a single undo step
+		const before = takeStructureSnapshot(this.radarData);
+		const modal = new RadarStructureModal(
+			this.app,
+			this.radarData,
+			(priorityLevels, categories) => this.updateStructure(priorityLevels, categories),
+			() => {
+				if (!this.radarData) return;
+				const after = takeStructureSnapshot(this.radarData);
+				if (JSON.stringify(before) !== JSON.stringify(after)) {
+					this.history.push(structureEdit(this.plugin.radarStore, before, after));
+					this.updateHistoryState();
+					this.syncFrontmatter(undefined, before);
+				}
+			}
+		);
+		modal.open();
+	}
+
+	/**
+	 * Replace rings and segments and redraw
+	 */
+	private updateStructure(priorityLevels: PriorityLevel[], categories: Category[]): void {
+		if (!this.radarData) return;
+
+		this.plugin.radarStore.updateStructure(this.radarData, priorityLevels, categories);
+		this.renderer?.updateData(this.radarData);
+		this.updateTimeline();
+		this.updateComparison();
+		this.requestSave();
+	}
+
+	/**
+	 * Add a blip to the radar
+	 */
+	private addBlip(blipData: Omit<Blip, "id">): void {
+		if (!this.radarData) return;
+
+		const blip: Blip = { ...blipData, id: generateId() };
+		this.applyEdit(addBlipEdit(this.plugin.radarStore, blip));
+		const added = this.radarData.blips.find((b) => b.id === blip.id);
+		if (added) {
+			this.renderer?.addBlip(added);
+			this.syncFrontmatter([added]);
+		}
+	}
+
+	/**
+	 * Remove a blip from the radar
+	 */
+	private removeBlip(blipId: string): void {
+		const index = this.radarData?.blips.findIndex((b) => b.id === blipId) ?? -1;
+		const blip = this.radarData?.blips[index];
+		if (!blip) return;
+
+		this.applyEdit(removeBlipEdit(this.plugin.radarStore, { ...blip }, index));
+		this.renderer?.removeBlip(blipId);
+	}
+
+	/**
+	 * Apply an edit, record it for undo and save
+	 * Callers update the renderer for the parts they changed.
+	 * @param record - Add the edit to the undo history (off for background syncs)
+	 * @param mergeKey - Join the previous undo step when it had the same key (see RadarHistory.push)
+	 */
+	private applyEdit(edit: RadarEdit, record = true, mergeKey?: string): void {
+		if (!this.radarData) return;
+
+		edit.apply(this.radarData);
+		if (record) {
+			this.history.push(edit, mergeKey);
+			this.updateHistoryState();
+		}
+		this.table?.update(this.radarData);
+		this.updateLegend();
+		this.updateTimeline();
+		this.updateComparison();
+		this.applyFilter();
+		this.requestSave();
+	}
+
+	/**
+	 * Revert the last edit
+	 */
+	undo(): void {
+		if (!this.radarData) return;
+
+		const placements = this.getBlipPlacements();
+		const previous = { priorityLevels: this.radarData.priorityLevels, categories: this.radarData.categories };
+		const edit = this.history.undo(this.radarData);
+		if (edit) {
+			this.afterHistoryChange(placements, previous);
+		}
+	}
+
+	/**
+	 * Re-apply the last undone edit
+	 */
+	redo(): void {
+		if (!this.radarData) return;
+
+		const placements = this.getBlipPlacements();
+		const previous = { priorityLevels: this.radarData.priorityLevels, categories: this.radarData.categories };
+		const edit = this.history.redo(this.radarData);
+		if (edit) {
+			this.afterHistoryChange(placements, previous);
+		}
+	}
+
+	/**
+	 * Whether a radar is loaded (not an unreadable file)
+	 */
+	hasRadar(): boolean {
+		return this.radarData !== null;
+	}
+
+	/**
+	 * Whether the open radar follows a tag, folder or property
+	 */
+	hasNoteSource(): boolean {
+		return !!this.radarData?.source;
+	}
+
+	canUndo(): boolean {
+		return this.history.canUndo();
+	}
+
+	canRedo(): boolean {
+		return this.history.canRedo();
+	}
+
+	/**
+	 * Rendered SVG and data of the open radar, for exporting
+	 */
+	getExportSource(): { svg: SVGSVGElement; radarData: RadarData } | null {
+		if (!this.radarData || !this.renderer) return null;
+		return { svg: this.renderer.getSvgElement(), radarData: this.radarData };
+	}
+
+	/**
+	 * Ring and segment names of every blip, keyed by blip id
+	 */
+	private getBlipPlacements(): Map<string, string> {
+		const placements = new Map<string, string>();
+		const radarData = this.radarData;
+		if (!radarData) return placements;
+
+		for (const blip of radarData.blips) {
+			const { priorityName, categoryName } = getBlipPlacement(blip, radarData);
+			placements.set(blip.id, `${priorityName ?? ""}\n${categoryName ?? ""}`);
+		}
+		return placements;
+	}
+
+	/**
+	 * Redraw and save after undo or redo
+	 * @param placements - Ring and segment names of the blips before the change; only
+	 * blips whose ring or segment changed (including renamed ones) are synced to their notes
+	 * @param previous - Rings and segments before the change
+	 */
+	private afterHistoryChange(
+		placements: Map<string, string>,
+		previous: Pick<RadarData, "priorityLevels" | "categories">
+	): void {
+		if (!this.radarData) return;
+
+		this.renderer?.updateData(this.radarData);
+		this.table?.update(this.radarData);
+		this.updateLegend();
+		this.updateTimeline();
+		this.updateComparison();
+		this.applyFilter();
+		this.updateHistoryState();
+		this.requestSave();
+
+		const current = this.getBlipPlacements();
+		this.syncFrontmatter(
+			this.radarData.blips.filter((blip) => placements.get(blip.id) !== current.get(blip.id)),
+			previous
+		);
+	}
+
+	/**
+	 * Enable or disable the undo/redo toolbar buttons
+	 */
+	private updateHistoryState(): void {
+		this.toolbar?.setHistoryState(this.history.canUndo(), this.history.canRedo());
+	}
+
+	/**
+	 * Zoom controls
+	 */
+	private zoomIn(): void {
+		const newZoom = Math.min(
+			this.viewState.zoom + SVG_CONFIG.zoomStep,
+			SVG_CONFIG.maxZoom
+		);
+		this.onZoomChange(newZoom);
+		this.interactions?.setZoom(newZoom);
+	}
+
+	private zoomOut(): void {
+		const newZoom = Math.max(
+			this.viewState.zoom - SVG_CONFIG.zoomStep,
+			SVG_CONFIG.minZoom
+		);
+		this.onZoomChange(newZoom);
+		this.interactions?.setZoom(newZoom);
+	}
+
+	private resetZoom(): void {
+		// Reset both zoom and pan
+		this.onZoomChange(1);
+		this.onPanChange(0, 0);
+		this.interactions?.setZoom(1);
+		this.interactions?.setPan(0, 0);
+	}
+
+	/**
+	 * Show the problems found in the file, with a repair button when possible
+	 */
+	private showValidationErrors(error: RadarValidationError): void {
+		if (!this.svgContainer) return;
+
+		this.svgContainer.empty();
+		const panel = this.svgContainer.createDiv({ cls: "radar-error-panel" });
+		panel.createEl("h3", { text: "This radar file could not be loaded" });
+
+		const list = panel.createEl("ul", { cls: "radar-error-list" });
+		for (const issue of error.issues) {
+			const item = list.createEl("li");
+			item.createEl("code", { text: issue.path });
+			item.appendText(` ${issue.message}`);
+		}
+
+		if (!error.canRepair) {
+			panel.createEl("p", { text: "Fix the file contents by hand and reopen it." });
+			return;
+		}
+
+		panel.createEl("p", {
+			text: "Repairing clamps positions into the radar, normalizes angles, regenerates missing or duplicate ids and drops entries that cannot be read.",
+		});
+		const repairBtn = panel.createEl("button", { text: "Repair file", cls: "mod-cta" });
+		repairBtn.addEventListener("click", () => {
+			this.loadRadarData(repairRadarData(error.data));
+			this.requestSave();
+		});
 	}
 
 	/**
@@ -0,0 +1,74 @@
+/**
+ * Snapshot Modal
+ * Modal for naming a snapshot and choosing where it is stored
+ */
+
+import { App, Modal, Setting } from "obsidian";
+
+/** Inside the radar file, or as a radar file of its own next to it */
+export type SnapshotTarget = "radar" | "file";
+
+export class SnapshotModal extends Modal {
+	private label: string;
+	private target: SnapshotTarget = "radar";
+	private onSubmit: (label: string, target: SnapshotTarget) => void;
+
+	constructor(app: App, onSubmit: (label: string, target: SnapshotTarget) => void) {
+		super(app);
+		this.label = `Snapshot ${new Date().toLocaleDateString()}`;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+
+		contentEl.createEl("h2", { text: "Take snapshot" });
+
+		new Setting(contentEl)
+			.setName("Label")
+			.setDesc("Name for this state of the radar, such as a volume or quarter.")
+			.addText((text) =>
+				text
+					.setValue(this.label)
+					.onChange((value) => {
+						this.label = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Save")
+			.setDesc("Snapshots in the radar file can be compared from the radar. A separate file is a radar of its own that can be opened, shared and compared too.")
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("radar", "In this radar file")
+					.addOption("file", "As a separate radar file")
+					.setValue(this.target)
+					.onChange((value) => {
+						this.target = value === "file" ? "file" : "radar";
+					})
+			);
+
+		new Setting(contentEl)
+			.addButton((btn) =>
+				btn
+					.setButtonText("Take snapshot")
+					.setCta()
+					.onClick(() => {
+						if (this.label.trim()) {
+							this.close();
+							this.onSubmit(this.label.trim(), this.target);
+						}
+					})
+			)
+			.addButton((btn) =>
+				btn.setButtonText("Cancel").onClick(() => {
+					this.close();
+				})
+			);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
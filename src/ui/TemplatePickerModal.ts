@@ -0,0 +1,39 @@
+/**
+ * Template Picker Modal
+ * Modal for choosing the template of a new radar
+ */
+
+import { App, FuzzyMatch, FuzzySuggestModal } from "obsidian";
+import type { RadarTemplate } from "../types";
+
+export class TemplatePickerModal extends FuzzySuggestModal<RadarTemplate> {
+	private templates: RadarTemplate[];
+	private onSubmit: (template: RadarTemplate) => void;
+
+	constructor(app: App, templates: RadarTemplate[], onSubmit: (template: RadarTemplate) => void) {
+		super(app);
+		this.templates = templates;
+		this.onSubmit = onSubmit;
+		this.setPlaceholder("Choose a template for the new radar...");
+	}
+
+	getItems(): RadarTemplate[] {
+		return this.templates;
+	}
+
+	getItemText(template: RadarTemplate): string {
+		return template.name;
+	}
+
+	renderSuggestion(match: FuzzyMatch<RadarTemplate>, el: HTMLElement): void {
+		el.createDiv({ text: match.item.name });
+		el.createEl("small", {
+			text: match.item.description,
+			cls: "radar-template-description",
+		});
+	}
+
+	onChooseItem(template: RadarTemplate, evt: MouseEvent | KeyboardEvent): void {
+		this.onSubmit(template);
+	}
+}
@@ -0,0 +1,116 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RadarData } from "../types";
+import { polarToCartesian, PolarPoint } from "./polarCoordinates";
+import { getBlipCell, getCellPositions, arrangeBlips, findFreePosition, snapToCells, matchCellByNames } from "./blipArrangement";
+
+function radar(): RadarData {
+	return {
+		schemaVersion: 1,
+		priorityLevels: [
+			{ id: "adopt", name: "Adopt", maxRadius: 0.5 },
+			{ id: "hold", name: "Hold", maxRadius: 1 },
+		],
+		categories: [
+			{ id: "tools", name: "Tools", startAngle: 0 },
+			{ id: "techniques", name: "Techniques", startAngle: 90 },
+		],
+		blips: [
+			{ id: "a", type: "text", title: "A", r: 0.1, theta: 10 },
+			{ id: "b", type: "text", title: "B", r: 0.11, theta: 11 },
+			{ id: "c", type: "text", title: "C", r: 0.4, theta: 80 },
+			{ id: "d", type: "text", title: "D", r: 0.9, theta: 200 },
+		],
+	};
+}
+
+function distance(a: PolarPoint, b: PolarPoint): number {
+	const p = polarToCartesian(a.r, a.theta, 1);
+	const q = polarToCartesian(b.r, b.theta, 1);
+	return Math.hypot(p.x - q.x, p.y - q.y);
+}
+
+describe("getBlipCell", () => {
+	it("finds the ring and segment of a position", () => {
+		assert.deepEqual(getBlipCell({ r: 0.9, theta: 200 }, radar()), { priorityId: "hold", categoryId: "techniques" });
+	});
+});
+
+describe("getCellPositions", () => {
+	it("places every position inside the cell, off its edges", () => {
+		const band = { inner: 0.5, outer: 1 };
+		const span = { start: 0, end: 90 };
+		const positions = getCellPositions(band, span, 7);
+		assert.equal(positions.length, 7);
+		for (const position of positions) {
+			assert.ok(position.r > band.inner && position.r < band.outer);
+			assert.ok(position.theta > span.start && position.theta < span.end);
+		}
+	});
+
+	it("returns nothing for no blips", () => {
+		assert.deepEqual(getCellPositions({ inner: 0, outer: 1 }, { start: 0, end: 360 }, 0), []);
+	});
+});
+
+describe("arrangeBlips", () => {
+	it("spreads crowded blips apart without leaving their cells", () => {
+		const data = radar();
+		const positions = arrangeBlips(data);
+		assert.equal(positions.size, data.blips.length);
+
+		for (const blip of data.blips) {
+			const position = positions.get(blip.id);
+			assert.ok(position);
+			assert.deepEqual(getBlipCell(position, data), getBlipCell(blip, data));
+		}
+		const a = positions.get("a");
+		const b = positions.get("b");
+		assert.ok(a && b && distance(a, b) > distance({ r: 0.1, theta: 10 }, { r: 0.11, theta: 11 }));
+	});
+
+	it("only arranges the cells of the given blips", () => {
+		assert.deepEqual([...arrangeBlips(radar(), ["d"]).keys()], ["d"]);
+	});
+});
+
+describe("findFreePosition", () => {
+	it("finds a spot in the cell away from the blips there", () => {
+		const data = radar();
+		const position = findFreePosition(data, { priorityId: "adopt", categoryId: "tools" });
+		assert.ok(position);
+		assert.deepEqual(getBlipCell(position, data), { priorityId: "adopt", categoryId: "tools" });
+		for (const blip of data.blips) {
+			assert.ok(distance(position, blip) > 0.05);
+		}
+	});
+
+	it("keeps a preferred position that is already clear", () => {
+		const near = { r: 0.75, theta: 45 };
+		assert.deepEqual(findFreePosition(radar(), { priorityId: "hold", categoryId: "tools" }, { near }), near);
+	});
+
+	it("gives up for a ring that does not exist", () => {
+		assert.equal(findFreePosition(radar(), { priorityId: "missing" }), undefined);
+	});
+});
+
+describe("snapToCells", () => {
+	it("keeps blips dropped together apart in the cell they were dropped in", () => {
+		const data = radar();
+		const [first, second] = snapToCells(data, [
+			{ blipId: "c", r: 0.75, theta: 45 },
+			{ blipId: "d", r: 0.75, theta: 45 },
+		]);
+		assert.ok(first && second);
+		assert.deepEqual(first, { blipId: "c", r: 0.75, theta: 45 });
+		assert.deepEqual(getBlipCell(second, data), { priorityId: "hold", categoryId: "tools" });
+		assert.ok(distance(first, second) > 0.05);
+	});
+});
+
+describe("matchCellByNames", () => {
+	it("matches ring and segment names case-insensitively", () => {
+		assert.deepEqual(matchCellByNames(radar(), ["hold", " TOOLS ", "other"]), { priorityId: "hold", categoryId: "tools" });
+	});
+});
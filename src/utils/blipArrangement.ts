@@ -0,0 +1,281 @@
+/**
+ * Blip Arrangement
+ * Spread blips evenly inside their ring and segment, and find free spots for new,
+ * and snapped blips
+ */
+
+import type { RadarData, Blip } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle, polarToCartesian, PolarPoint } from "./polarCoordinates";
+import {
+	getRingBand,
+	getSegmentSpan,
+	getSpanFraction,
+	normalizeAngle,
+	RingBand,
+	SegmentSpan,
+} from "./radarStructure";
+
+/** One ring of one segment; the whole ring when the radar has no segments */
+export interface RadarCell {
+	priorityId: string;
+	categoryId?: string;
+}
+
+const FULL_CIRCLE: SegmentSpan = { start: 0, end: 360 };
+// Extra candidate layouts tried when looking for a free spot
+const FREE_POSITION_ATTEMPTS = 6;
+// Distance (normalized radius) a dropped blip keeps from its neighbours and from cell edges
+const MIN_SPACING = 0.07;
+const EDGE_MARGIN = 0.02;
+
+/**
+ * The ring and segment a blip is in
+ */
+export function getBlipCell(blip: Pick<Blip, "r" | "theta">, radarData: RadarData): RadarCell | undefined {
+	const priority = getPriorityFromRadius(blip.r, radarData.priorityLevels);
+	if (!priority) {
+		return undefined;
+	}
+	const category = getCategoryFromAngle(blip.theta, radarData.categories);
+	return { priorityId: priority.id, categoryId: category?.id };
+}
+
+/**
+ * Radial and angular extent of a cell
+ */
+export function getCellBounds(
+	radarData: RadarData,
+	cell: RadarCell
+): { band: RingBand; span: SegmentSpan } | undefined {
+	const band = getRingBand(radarData.priorityLevels, cell.priorityId);
+	const span = cell.categoryId ? getSegmentSpan(radarData.categories, cell.categoryId) : FULL_CIRCLE;
+	return band && span ? { band, span } : undefined;
+}
+
+function isSameCell(a: RadarCell | undefined, b: RadarCell): boolean {
+	return !!a && a.priorityId === b.priorityId && a.categoryId === b.categoryId;
+}
+
+/**
+ * Evenly spaced positions inside a cell, in arcs from the inner edge outwards.
+ * The number of arcs makes the radial and angular spacing about equal, and outer
+ * arcs get more positions because they are longer. Positions keep half a spacing
+ * away from the cell edges, so they never land on a boundary.
+ */
+export function getCellPositions(band: RingBand, span: SegmentSpan, count: number): PolarPoint[] {
+	if (count <= 0) {
+		return [];
+	}
+
+	const depth = band.outer - band.inner;
+	const angle = ((span.end - span.start) * Math.PI) / 180;
+	const middle = (band.inner + band.outer) / 2;
+	let rows = Math.max(1, Math.min(count, Math.round(Math.sqrt((depth * count) / (middle * angle)))));
+
+	// Fewer arcs when the inner ones would stay empty
+	let counts = splitByWeight(count, getRowRadii(band, rows));
+	while (rows > 1 && counts.includes(0)) {
+		rows--;
+		counts = splitByWeight(count, getRowRadii(band, rows));
+	}
+
+	const positions: PolarPoint[] = [];
+	getRowRadii(band, rows).forEach((r, row) => {
+		const inRow = counts[row] ?? 0;
+		for (let i = 0; i < inRow; i++) {
+			const theta = span.start + ((i + 0.5) * (span.end - span.start)) / inRow;
+			positions.push({ r, theta: normalizeAngle(theta) });
+		}
+	});
+	return positions;
+}
+
+function getRowRadii(band: RingBand, rows: number): number[] {
+	const depth = band.outer - band.inner;
+	return Array.from({ length: rows }, (_, row) => band.inner + ((row + 0.5) * depth) / rows);
+}
+
+/**
+ * Split a count into whole parts proportional to the weights (largest remainder)
+ */
+function splitByWeight(count: number, weights: number[]): number[] {
+	const total = weights.reduce((sum, weight) => sum + weight, 0);
+	const exact = weights.map((weight) => (total > 0 ? (count * weight) / total : count / weights.length));
+	const parts = exact.map(Math.floor);
+	let remaining = count - parts.reduce((sum, part) => sum + part, 0);
+
+	const byRemainder = exact
+		.map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+		.sort((a, b) => b.remainder - a.remainder);
+	for (const { index } of byRemainder) {
+		if (remaining <= 0) break;
+		parts[index] = (parts[index] ?? 0) + 1;
+		remaining--;
+	}
+	return parts;
+}
+
+/**
+ * New positions that spread blips evenly inside their cells.
+ * Blips keep their ring and segment, and their order: inner blips stay inner,
+ * and blips keep their angular order within each arc.
+ *
+ * @param blipIds - Only arrange the cells these blips are in (default: all cells)
+ * @returns Blip id → new position, for every blip in the arranged cells
+ */
+export function arrangeBlips(radarData: RadarData, blipIds?: string[]): Map<string, PolarPoint> {
+	const cells = new Map<string, { cell: RadarCell; blips: Blip[] }>();
+	for (const blip of radarData.blips) {
+		const cell = getBlipCell(blip, radarData);
+		if (!cell) continue;
+		const key = `${cell.priorityId}/${cell.categoryId ?? ""}`;
+		const entry = cells.get(key) ?? { cell, blips: [] };
+		entry.blips.push(blip);
+		cells.set(key, entry);
+	}
+
+	const positions = new Map<string, PolarPoint>();
+	for (const { cell, blips } of cells.values()) {
+		if (blipIds && !blips.some((blip) => blipIds.includes(blip.id))) continue;
+		const bounds = getCellBounds(radarData, cell);
+		if (!bounds) continue;
+
+		const targets = getCellPositions(bounds.band, bounds.span, blips.length);
+		const byRadius = [...blips].sort((a, b) => a.r - b.r);
+		const fraction = (point: PolarPoint) => getSpanFraction(point.theta, bounds.span);
+
+		// Targets come arc by arc; fill each arc with the next blips by radius, in angle order
+		let start = 0;
+		while (start < targets.length) {
+			const rowRadius = targets[start]?.r;
+			let end = start;
+			while (end < targets.length && targets[end]?.r === rowRadius) end++;
+
+			const rowBlips = byRadius.slice(start, end).sort((a, b) => fraction(a) - fraction(b));
+			rowBlips.forEach((blip, index) => {
+				const target = targets[start + index];
+				if (target) positions.set(blip.id, target);
+			});
+			start = end;
+		}
+	}
+	return positions;
+}
+
+/**
+ * A position inside a cell away from the blips already there.
+ * Without `near` this is the most open spot; with it, the spot closest to `near`
+ * that keeps a minimum spacing (or `near` itself when it already does).
+ *
+ * @param options.excludeId - A blip to ignore, e.g. the one being moved
+ * @param options.near - Preferred position, e.g. where a blip was dropped
+ */
+export function findFreePosition(
+	radarData: RadarData,
+	cell: RadarCell,
+	options: { excludeId?: string; near?: PolarPoint } = {}
+): PolarPoint | undefined {
+	const bounds = getCellBounds(radarData, cell);
+	if (!bounds) {
+		return undefined;
+	}
+
+	const occupied = radarData.blips
+		.filter((blip) => blip.id !== options.excludeId && isSameCell(getBlipCell(blip, radarData), cell))
+		.map((blip) => polarToCartesian(blip.r, blip.theta, 1));
+	const clearance = (position: PolarPoint) => {
+		const point = polarToCartesian(position.r, position.theta, 1);
+		return occupied.reduce(
+			(nearest, other) => Math.min(nearest, Math.hypot(point.x - other.x, point.y - other.y)),
+			Infinity
+		);
+	};
+
+	const { near } = options;
+	if (near && clearance(near) >= MIN_SPACING && isClearOfEdges(near, bounds.band, bounds.span)) {
+		return near;
+	}
+
+	// Candidates: the even layouts for one more blip and a few denser ones
+	const candidates: PolarPoint[] = [];
+	for (let extra = 1; extra <= FREE_POSITION_ATTEMPTS; extra++) {
+		candidates.push(...getCellPositions(bounds.band, bounds.span, occupied.length + extra));
+	}
+
+	if (near) {
+		const target = polarToCartesian(near.r, near.theta, 1);
+		const distanceToNear = (position: PolarPoint) => {
+			const point = polarToCartesian(position.r, position.theta, 1);
+			return Math.hypot(point.x - target.x, point.y - target.y);
+		};
+		const [closest] = candidates
+			.filter((candidate) => clearance(candidate) >= MIN_SPACING)
+			.sort((a, b) => distanceToNear(a) - distanceToNear(b));
+		if (closest) {
+			return closest;
+		}
+	}
+
+	// The most open spot
+	let best: PolarPoint | undefined;
+	let bestDistance = -1;
+	for (const candidate of candidates) {
+		const distance = clearance(candidate);
+		if (distance > bestDistance) {
+			best = candidate;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
+
+/**
+ * Whether a position keeps a small margin from the ring lines and segment dividers
+ */
+function isClearOfEdges(position: PolarPoint, band: RingBand, span: SegmentSpan): boolean {
+	if ((band.inner > 0 && position.r - band.inner < EDGE_MARGIN) || band.outer - position.r < EDGE_MARGIN) {
+		return false;
+	}
+	if (span.end - span.start >= 360) {
+		return true;
+	}
+	const toRadians = Math.PI / 180;
+	const offset = normalizeAngle(position.theta - span.start);
+	return position.r * offset * toRadians >= EDGE_MARGIN &&
+		position.r * (span.end - span.start - offset) * toRadians >= EDGE_MARGIN;
+}
+
+/**
+ * Final positions of blips dropped with snapping: each goes to the ring and segment it
+ * was dropped in, at the drop position or the nearest spot clear of its neighbours.
+ * Blips are placed one after another, so blips dropped together also keep apart.
+ */
+export function snapToCells<T extends PolarPoint & { blipId: string }>(radarData: RadarData, drops: T[]): T[] {
+	const working: RadarData = { ...radarData, blips: radarData.blips.map((blip) => ({ ...blip })) };
+	return drops.map((drop) => {
+		const cell = getBlipCell(drop, working);
+		const position = cell ? findFreePosition(working, cell, { excludeId: drop.blipId, near: drop }) : undefined;
+		const snapped = { ...drop, ...(position && { r: position.r, theta: position.theta }) };
+
+		const blip = working.blips.find((b) => b.id === drop.blipId);
+		if (blip) {
+			blip.r = snapped.r;
+			blip.theta = snapped.theta;
+		}
+		return snapped;
+	});
+}
+
+/**
+ * Find a ring and segment whose names appear among a note's tags or property values
+ * (case-insensitive), for placing a new blip
+ */
+export function matchCellByNames(radarData: RadarData, values: string[]): Partial<RadarCell> {
+	const normalized = new Set(values.map((value) => value.trim().toLowerCase()));
+	const matches = (name: string) => !!name && normalized.has(name.toLowerCase());
+
+	return {
+		priorityId: radarData.priorityLevels.find((priority) => matches(priority.name))?.id,
+		categoryId: radarData.categories.find((category) => matches(category.name))?.id,
+	};
+}
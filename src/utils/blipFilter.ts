@@ -0,0 +1,117 @@
+/**
+ * Blip Filter
+ * Match blips against a search query and ring/segment quick filters
+ */
+
+import type { RadarData, Blip } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle } from "./polarCoordinates";
+
+export interface BlipFilter {
+	/**
+	 * Space-separated terms, all of which must match:
+	 * - `#tag` matches a tag of the linked note
+	 * - `key:value` matches a frontmatter property containing the value
+	 * - anything else matches the title, note path, tags or property values
+	 */
+	query: string;
+	/** Only blips in these rings (empty = all rings) */
+	priorityIds: string[];
+	/** Only blips in these segments (empty = all segments) */
+	categoryIds: string[];
+	/** Hide non-matching blips instead of dimming them */
+	hideNonMatches: boolean;
+}
+
+/** Tags and frontmatter of a linked note */
+export interface NoteMetadata {
+	/** Tags without the leading # */
+	tags: string[];
+	properties: Record<string, unknown>;
+}
+
+export const EMPTY_BLIP_FILTER: BlipFilter = {
+	query: "",
+	priorityIds: [],
+	categoryIds: [],
+	hideNonMatches: false,
+};
+
+/**
+ * Whether the filter excludes anything
+ */
+export function isFilterActive(filter: BlipFilter): boolean {
+	return filter.query.trim() !== "" || filter.priorityIds.length > 0 || filter.categoryIds.length > 0;
+}
+
+/**
+ * Get the ids of the blips that match the filter
+ * @param getNoteMetadata - Tags and properties of a linked note, if it exists
+ */
+export function getMatchingBlipIds(
+	radarData: RadarData,
+	filter: BlipFilter,
+	getNoteMetadata: (notePath: string) => NoteMetadata | undefined
+): Set<string> {
+	const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+	const matching = new Set<string>();
+
+	for (const blip of radarData.blips) {
+		if (filter.priorityIds.length > 0) {
+			const priority = getPriorityFromRadius(blip.r, radarData.priorityLevels);
+			if (!priority || !filter.priorityIds.includes(priority.id)) continue;
+		}
+		if (filter.categoryIds.length > 0) {
+			const category = getCategoryFromAngle(blip.theta, radarData.categories);
+			if (!category || !filter.categoryIds.includes(category.id)) continue;
+		}
+
+		const metadata = blip.notePath ? getNoteMetadata(blip.notePath) : undefined;
+		if (terms.every((term) => matchesTerm(blip, term, metadata))) {
+			matching.add(blip.id);
+		}
+	}
+	return matching;
+}
+
+/**
+ * Match one lowercase search term
+ */
+function matchesTerm(blip: Blip, term: string, metadata: NoteMetadata | undefined): boolean {
+	const tags = metadata?.tags.map((tag) => tag.toLowerCase()) ?? [];
+	const properties = Object.entries(metadata?.properties ?? {});
+
+	if (term.startsWith("#")) {
+		const tag = term.slice(1);
+		// Nested tags match their parents: #project matches #project/alpha
+		return tags.some((t) => t === tag || t.startsWith(`${tag}/`));
+	}
+
+	const separator = term.indexOf(":");
+	if (separator > 0) {
+		const key = term.slice(0, separator);
+		const value = term.slice(separator + 1);
+		return properties.some(([name, propertyValue]) =>
+			name.toLowerCase() === key && propertyToText(propertyValue).includes(value)
+		);
+	}
+
+	return (
+		blip.title.toLowerCase().includes(term) ||
+		(blip.notePath?.toLowerCase().includes(term) ?? false) ||
+		tags.some((tag) => tag.includes(term)) ||
+		properties.some(([, value]) => propertyToText(value).includes(term))
+	);
+}
+
+/**
+ * Lowercase text of a frontmatter value (lists are joined)
+ */
+function propertyToText(value: unknown): string {
+	if (Array.isArray(value)) {
+		return value.map(propertyToText).join(" ");
+	}
+	if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+		return String(value).toLowerCase();
+	}
+	return "";
+}
@@ -0,0 +1,75 @@
+/**
+ * Blip History
+ * Ring and segment changes of blips, derived from their recorded history entries
+ */
+
+import type { RadarData, Blip } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle, PolarPoint } from "./polarCoordinates";
+
+/** Ring and segment a blip was in */
+export interface BlipPlace extends PolarPoint {
+	priorityName?: string;
+	categoryName?: string;
+}
+
+/** One change of ring or segment */
+export interface BlipMoveEvent {
+	blip: Blip;
+	/** When the move happened (ms since epoch) */
+	timestamp: number;
+	from: BlipPlace;
+	to: BlipPlace;
+}
+
+/**
+ * Current ring and segment of a blip
+ */
+export function getCurrentPlace(blip: Blip, radarData: RadarData): BlipPlace {
+	return {
+		r: blip.r,
+		theta: blip.theta,
+		priorityName: getPriorityFromRadius(blip.r, radarData.priorityLevels)?.name || undefined,
+		categoryName: getCategoryFromAngle(blip.theta, radarData.categories)?.name || undefined,
+	};
+}
+
+/**
+ * Every recorded move of the given blips, newest first.
+ * Each history entry is where a blip was until it moved; it moved to the next entry,
+ * or to where it is now for the latest one.
+ *
+ * @param blipIds - Only these blips (default: all blips)
+ */
+export function getBlipMoveEvents(radarData: RadarData, blipIds?: string[]): BlipMoveEvent[] {
+	const events: BlipMoveEvent[] = [];
+	for (const blip of radarData.blips) {
+		if (blipIds && !blipIds.includes(blip.id)) continue;
+
+		const history = blip.history ?? [];
+		history.forEach((entry, index) => {
+			events.push({
+				blip,
+				timestamp: entry.timestamp,
+				from: entry,
+				to: history[index + 1] ?? getCurrentPlace(blip, radarData),
+			});
+		});
+	}
+	return events.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Describe a move, e.g. "Assess → Adopt" or "Assess → Adopt, Tools → Platforms"
+ */
+export function describeMove(event: BlipMoveEvent): string {
+	const parts: string[] = [];
+	const { from, to } = event;
+	if (from.priorityName !== to.priorityName) {
+		parts.push(`${from.priorityName ?? "Unnamed ring"} → ${to.priorityName ?? "Unnamed ring"}`);
+	}
+	if (from.categoryName !== to.categoryName) {
+		parts.push(`${from.categoryName ?? "Unnamed segment"} → ${to.categoryName ?? "Unnamed segment"}`);
+	}
+	// Same names on both sides: the rings or segments were renamed or unnamed
+	return parts.join(", ") || "Moved to another ring or segment";
+}
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RadarData } from "../types";
+import { parseByor, serializeByor, radarToByor, planByorImport, ByorEntry } from "./byor";
+import { getBlipCell } from "./blipArrangement";
+
+function radar(): RadarData {
+	return {
+		schemaVersion: 1,
+		priorityLevels: [
+			{ id: "adopt", name: "Adopt", maxRadius: 0.5 },
+			{ id: "hold", name: "Hold", maxRadius: 1 },
+		],
+		categories: [
+			{ id: "tools", name: "Tools", startAngle: 0 },
+			{ id: "techniques", name: "Techniques", startAngle: 180 },
+		],
+		blips: [{ id: "b1", type: "text", title: "Linting", r: 0.25, theta: 90 }],
+	};
+}
+
+function entry(name: string, ring: string, quadrant: string, description = ""): ByorEntry {
+	return { name, ring, quadrant, isNew: false, description };
+}
+
+describe("parseByor", () => {
+	it("reads quoted commas, line breaks and doubled quotes", () => {
+		const csv = 'name,ring,quadrant,isNew,description\n"Lint, strict",Adopt,Tools,TRUE,"Two\nlines with ""quotes"""\n';
+		assert.deepEqual(parseByor(csv, "csv"), [
+			{ name: "Lint, strict", ring: "Adopt", quadrant: "Tools", isNew: true, description: 'Two\nlines with "quotes"' },
+		]);
+	});
+
+	it("skips a byte order mark, CRLF line ends and blank lines, with columns in any order", () => {
+		const csv = "\uFEFFRing,Name,Quadrant\r\nHold,Linting,Tools\r\n\r\n";
+		assert.deepEqual(parseByor(csv, "csv"), [entry("Linting", "Hold", "Tools")]);
+	});
+
+	it("names the missing columns", () => {
+		assert.throws(() => parseByor("name,description\nLinting,x\n", "csv"), /missing columns: ring, quadrant/);
+	});
+
+	it("reads JSON entries and drops ones without a name", () => {
+		const json = JSON.stringify([
+			{ name: "Linting", ring: "Hold", quadrant: "Tools", isNew: "yes", description: 3 },
+			{ ring: "Hold", quadrant: "Tools" },
+		]);
+		assert.deepEqual(parseByor(json, "json"), [
+			{ name: "Linting", ring: "Hold", quadrant: "Tools", isNew: true, description: "3" },
+		]);
+	});
+
+	it("rejects JSON that is not a list", () => {
+		assert.throws(() => parseByor("{}", "json"), /expected a list/);
+	});
+});
+
+describe("serializeByor", () => {
+	it("writes CSV that reads back the same", () => {
+		const entries = [
+			{ name: 'Say "hi"', ring: "Adopt", quadrant: "Tools", isNew: true, description: "One,\ntwo" },
+			entry("Linting", "Hold", "Techniques"),
+		];
+		const csv = serializeByor(entries, "csv");
+		assert.ok(csv.startsWith("name,ring,quadrant,isNew,description\n"));
+		assert.deepEqual(parseByor(csv, "csv"), entries);
+		assert.deepEqual(parseByor(serializeByor(entries, "json"), "json"), entries);
+	});
+});
+
+describe("radarToByor", () => {
+	it("names the ring and quadrant of each blip and marks new ones", () => {
+		assert.deepEqual(radarToByor(radar(), new Set(["b1"])), [
+			{ name: "Linting", ring: "Adopt", quadrant: "Tools", isNew: true, description: "" },
+		]);
+	});
+});
+
+describe("planByorImport", () => {
+	it("adds blips to matching cells without changing the structure", () => {
+		const data = radar();
+		const plan = planByorImport(data, [entry("Pairing", "hold", "techniques")]);
+
+		assert.equal(plan.structureChanged, false);
+		assert.equal(plan.addedRings, 0);
+		assert.equal(plan.addedSegments, 0);
+		const [blip] = plan.added;
+		assert.ok(blip);
+		assert.deepEqual(getBlipCell(blip, data), { priorityId: "hold", categoryId: "techniques" });
+	});
+
+	it("moves a blip with the same title and updates its description", () => {
+		const plan = planByorImport(radar(), [entry("linting", "Hold", "Tools", "Still useful")]);
+
+		assert.equal(plan.added.length, 0);
+		const [update] = plan.updates;
+		assert.equal(update?.blipId, "b1");
+		assert.equal(update?.description, "Still useful");
+		assert.ok(update && update.position.r > 0.5);
+	});
+
+	it("keeps a blip that is already in its cell where it is", () => {
+		const plan = planByorImport(radar(), [entry("Linting", "Adopt", "Tools")]);
+		assert.deepEqual(plan.updates, [{ blipId: "b1", position: { r: 0.25, theta: 90 } }]);
+	});
+
+	it("adds missing rings and segments and reports them", () => {
+		const plan = planByorImport(radar(), [entry("Wasm", "Assess", "Platforms")]);
+
+		assert.equal(plan.structureChanged, true);
+		assert.equal(plan.addedRings, 1);
+		assert.equal(plan.addedSegments, 1);
+		assert.deepEqual(plan.priorityLevels.map((p) => [p.name, p.maxRadius]), [["Adopt", 1 / 3], ["Hold", 2 / 3], ["Assess", 1]]);
+		assert.deepEqual(plan.categories.map((c) => [c.name, c.startAngle]), [["Tools", 0], ["Techniques", 120], ["Platforms", 240]]);
+
+		const [blip] = plan.added;
+		const cell = blip && getBlipCell(blip, { ...radar(), priorityLevels: plan.priorityLevels, categories: plan.categories });
+		assert.equal(plan.priorityLevels.find((p) => p.id === cell?.priorityId)?.name, "Assess");
+		assert.equal(plan.categories.find((c) => c.id === cell?.categoryId)?.name, "Platforms");
+	});
+
+	it("names unnamed rings before adding new ones", () => {
+		const data = radar();
+		data.priorityLevels[1] = { id: "hold", name: "", maxRadius: 1 };
+		const plan = planByorImport(data, [entry("Wasm", "Assess", "Tools")]);
+
+		assert.equal(plan.addedRings, 0);
+		assert.deepEqual(plan.priorityLevels.map((p) => [p.name, p.maxRadius]), [["Adopt", 0.5], ["Assess", 1]]);
+	});
+});
@@ -0,0 +1,312 @@
+/**
+ * Build Your Own Radar
+ * Reading and writing the CSV and JSON formats of the Thoughtworks BYOR tool
+ * (name, ring, quadrant, isNew, description), and planning an import into a radar
+ */
+
+import type { RadarData, Blip, PriorityLevel, Category } from "../types";
+import { STRUCTURE_LIMITS } from "../constants";
+import { generateId } from "./idGenerator";
+import { getPriorityFromRadius, getCategoryFromAngle, PolarPoint } from "./polarCoordinates";
+import {
+	sortPriorities,
+	sortCategories,
+	distributePriorities,
+	distributeCategories,
+	remapBlipPosition,
+	normalizeAngle,
+} from "./radarStructure";
+import { findFreePosition, getBlipCell, getCellBounds, RadarCell } from "./blipArrangement";
+
+/** One row of a BYOR sheet */
+export interface ByorEntry {
+	name: string;
+	ring: string;
+	quadrant: string;
+	isNew: boolean;
+	description: string;
+}
+
+export type ByorFormat = "csv" | "json";
+
+const COLUMNS: Array<keyof ByorEntry> = ["name", "ring", "quadrant", "isNew", "description"];
+
+function parseBoolean(value: unknown): boolean {
+	if (typeof value === "boolean") return value;
+	return typeof value === "string" && ["true", "yes", "1"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold commas,
+ * line breaks and doubled quotes)
+ */
+function parseCsvRows(content: string): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = "";
+	let quoted = false;
+
+	for (let i = 0; i < content.length; i++) {
+		const char = content[i];
+		if (quoted) {
+			if (char === '"' && content[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"') {
+			quoted = true;
+		} else if (char === ",") {
+			row.push(field);
+			field = "";
+		} else if (char === "\n" || char === "\r") {
+			if (char === "\r" && content[i + 1] === "\n") i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = "";
+		} else {
+			field += char;
+		}
+	}
+	if (field || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+	// Blank lines are not entries
+	return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Read BYOR entries from CSV with a header row; columns may come in any order
+ * @throws Error when the name, ring or quadrant column is missing
+ */
+function parseByorCsv(content: string): ByorEntry[] {
+	// Spreadsheet exports may start with a byte order mark
+	const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ""));
+	if (!header) {
+		return [];
+	}
+
+	const columns = header.map((name) => name.trim().toLowerCase());
+	const indexOf = (column: string) => columns.indexOf(column.toLowerCase());
+	const missing = ["name", "ring", "quadrant"].filter((column) => indexOf(column) === -1);
+	if (missing.length > 0) {
+		throw new Error(`missing column${missing.length > 1 ? "s" : ""}: ${missing.join(", ")}`);
+	}
+
+	return rows.map((fields) => {
+		const read = (column: string) => fields[indexOf(column)]?.trim() ?? "";
+		return {
+			name: read("name"),
+			ring: read("ring"),
+			quadrant: read("quadrant"),
+			isNew: parseBoolean(read("isNew")),
+			description: read("description"),
+		};
+	});
+}
+
+/**
+ * Read BYOR entries from a JSON list of objects
+ * @throws Error when the JSON is invalid or not a list
+ */
+function parseByorJson(content: string): ByorEntry[] {
+	const raw: unknown = JSON.parse(content);
+	if (!Array.isArray(raw)) {
+		throw new Error("expected a list of entries");
+	}
+
+	const text = (value: unknown) => (typeof value === "string" || typeof value === "number" ? String(value).trim() : "");
+	return raw
+		.filter((item): item is Record<string, unknown> => typeof item === "object" && item !== null)
+		.map((item) => ({
+			name: text(item.name),
+			ring: text(item.ring),
+			quadrant: text(item.quadrant),
+			isNew: parseBoolean(item.isNew),
+			description: text(item.description),
+		}));
+}
+
+/**
+ * Read a BYOR file. Entries without a name are dropped.
+ * @throws Error describing why the file cannot be read
+ */
+export function parseByor(content: string, format: ByorFormat): ByorEntry[] {
+	const entries = format === "csv" ? parseByorCsv(content) : parseByorJson(content);
+	return entries.filter((entry) => entry.name);
+}
+
+function quoteCsv(value: string): string {
+	return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write BYOR entries in the given format
+ */
+export function serializeByor(entries: ByorEntry[], format: ByorFormat): string {
+	if (format === "json") {
+		return JSON.stringify(entries, null, 2);
+	}
+	const lines = [COLUMNS.join(",")];
+	for (const entry of entries) {
+		lines.push(COLUMNS.map((column) => quoteCsv(String(entry[column]))).join(","));
+	}
+	return `${lines.join("\n")}\n`;
+}
+
+/**
+ * BYOR entries for the blips of a radar, with ring and quadrant names from their position
+ * @param newBlipIds - Blips to mark as new
+ */
+export function radarToByor(radarData: RadarData, newBlipIds: Set<string>): ByorEntry[] {
+	return radarData.blips.map((blip) => ({
+		name: blip.title,
+		ring: getPriorityFromRadius(blip.r, radarData.priorityLevels)?.name ?? "",
+		quadrant: getCategoryFromAngle(blip.theta, radarData.categories)?.name ?? "",
+		isNew: newBlipIds.has(blip.id),
+		description: blip.description ?? "",
+	}));
+}
+
+/** Everything an import changes */
+export interface ByorImportPlan {
+	/** Rings and segments after the import (unchanged when nothing was added) */
+	priorityLevels: PriorityLevel[];
+	categories: Category[];
+	/** Whether rings or segments were added or named */
+	structureChanged: boolean;
+	/**
+	 * Number of rings and segments added. Adding any spreads all rings (or segments)
+	 * evenly, so the existing boundaries move too.
+	 */
+	addedRings: number;
+	addedSegments: number;
+	/** Existing blips with the same title, moved into their ring and quadrant */
+	updates: Array<{ blipId: string; position: PolarPoint; description?: string }>;
+	/** New text blips */
+	added: Blip[];
+	/** Entries left out because their ring or quadrant could not be created */
+	skipped: ByorEntry[];
+}
+
+/**
+ * Work out an import: rings and quadrants are matched by name (case-insensitive);
+ * missing ones take the place of unnamed rings and segments, or are added outside
+ * the existing rings and after the existing segments while the limits allow.
+ * Entries whose title matches a blip update that blip instead of adding one.
+ */
+export function planByorImport(radarData: RadarData, entries: ByorEntry[]): ByorImportPlan {
+	const key = (name: string) => name.trim().toLowerCase();
+	let structureChanged = false;
+
+	// Rings, innermost first, in the order BYOR entries name them
+	const priorities = sortPriorities(radarData.priorityLevels).map((p) => ({ ...p }));
+	const categories = sortCategories(radarData.categories).map((c) => ({ ...c }));
+	const findOrCreate = <T extends { id: string; name: string }>(
+		items: T[],
+		name: string,
+		limit: number,
+		create: (name: string) => T
+	): T | undefined => {
+		const existing = items.find((item) => key(item.name) === key(name));
+		if (existing) return existing;
+
+		const unnamed = items.find((item) => !item.name.trim());
+		if (unnamed) {
+			unnamed.name = name;
+			structureChanged = true;
+			return unnamed;
+		}
+		if (items.length >= limit) return undefined;
+
+		const item = create(name);
+		items.push(item);
+		structureChanged = true;
+		return item;
+	};
+
+	const cells = new Map<ByorEntry, { priorityId: string; categoryId?: string }>();
+	const skipped: ByorEntry[] = [];
+	for (const entry of entries) {
+		const priority = entry.ring
+			? findOrCreate(priorities, entry.ring, STRUCTURE_LIMITS.maxPriorities, (name) => ({ id: generateId(), name, maxRadius: 1 }))
+			: priorities[priorities.length - 1];
+		const category = entry.quadrant
+			? findOrCreate(categories, entry.quadrant, STRUCTURE_LIMITS.maxCategories, (name) => ({ id: generateId(), name, startAngle: 0 }))
+			: undefined;
+		if (!priority || (entry.quadrant && !category)) {
+			skipped.push(entry);
+			continue;
+		}
+		cells.set(entry, { priorityId: priority.id, categoryId: category?.id });
+	}
+
+	// New rings and segments share the space evenly with the existing ones
+	const addedRings = priorities.length - radarData.priorityLevels.length;
+	const addedSegments = categories.length - radarData.categories.length;
+	const priorityLevels = addedRings > 0 ? distributePriorities(priorities) : priorities;
+	const newCategories = addedSegments > 0 ? distributeCategories(categories) : categories;
+
+	// Place blips in the new layout, one after another so they keep apart
+	const working: RadarData = {
+		...radarData,
+		priorityLevels,
+		categories: newCategories,
+		blips: radarData.blips.map((blip) => ({
+			...blip,
+			...remapBlipPosition(blip, radarData.priorityLevels, radarData.categories, priorityLevels, newCategories),
+		})),
+	};
+	const updates: ByorImportPlan["updates"] = [];
+	const added: Blip[] = [];
+	for (const [entry, cell] of cells) {
+		const existing = working.blips.find((blip) => key(blip.title) === key(entry.name));
+		const current = existing && getBlipCell(existing, working);
+		const inCell = current?.priorityId === cell.priorityId && (!cell.categoryId || current.categoryId === cell.categoryId);
+		const position = existing && inCell
+			? { r: existing.r, theta: existing.theta }
+			: findFreePosition(working, cell, { excludeId: existing?.id }) ?? getCellCenter(working, cell);
+		if (!position) {
+			skipped.push(entry);
+			continue;
+		}
+
+		if (existing) {
+			existing.r = position.r;
+			existing.theta = position.theta;
+			updates.push({
+				blipId: existing.id,
+				position,
+				...(entry.description && entry.description !== existing.description && { description: entry.description }),
+			});
+			continue;
+		}
+
+		const blip: Blip = {
+			id: generateId(),
+			type: "text",
+			title: entry.name,
+			...position,
+			...(entry.description && { description: entry.description }),
+		};
+		working.blips.push(blip);
+		added.push(blip);
+	}
+
+	return { priorityLevels, categories: newCategories, structureChanged, addedRings, addedSegments, updates, added, skipped };
+}
+
+/**
+ * Middle of a cell's ring band and segment arc
+ */
+function getCellCenter(radarData: RadarData, cell: RadarCell): PolarPoint | undefined {
+	const bounds = getCellBounds(radarData, cell);
+	if (!bounds) return undefined;
+	const { band, span } = bounds;
+	return { r: (band.inner + band.outer) / 2, theta: normalizeAngle((span.start + span.end) / 2) };
+}
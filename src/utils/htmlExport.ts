@@ -0,0 +1,307 @@
+/**
+ * HTML Export
+ * A single self-contained page for browsing a radar outside Obsidian: the exported SVG,
+ * hover tooltips, a clickable ring and segment legend and a panel with blip details
+ */
+
+import type { RadarData, Blip } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle } from "./polarCoordinates";
+import { sortPriorities, sortCategories } from "./radarStructure";
+import type { ExportPalette } from "./svgExport";
+
+/** Blip text converted to HTML by the caller */
+export interface HtmlBlipContent {
+	/** Rendered description */
+	description?: string;
+	/** Plain-text start of the description, for the tooltip */
+	summary?: string;
+	/** Rendered content of the linked note */
+	note?: string;
+}
+
+/** What the page script knows about a blip */
+interface PageBlip {
+	id: string;
+	title: string;
+	ring: string;
+	segment: string;
+	ringName: string;
+	segmentName: string;
+	summary: string;
+	description: string;
+	note: string;
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+function getPageBlip(blip: Blip, radarData: RadarData, content: HtmlBlipContent | undefined): PageBlip {
+	const priority = getPriorityFromRadius(blip.r, radarData.priorityLevels);
+	const category = getCategoryFromAngle(blip.theta, radarData.categories);
+	return {
+		id: blip.id,
+		title: blip.title,
+		ring: priority?.id ?? "",
+		segment: category?.id ?? "",
+		ringName: priority ? priority.name || "Unnamed ring" : "",
+		segmentName: category ? category.name || "Unnamed segment" : "",
+		summary: content?.summary ?? "",
+		description: content?.description ?? "",
+		note: content?.note ?? "",
+	};
+}
+
+function getStyles(palette: ExportPalette): string {
+	return `
+:root { color-scheme: ${palette.id}; }
+* { box-sizing: border-box; }
+body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; background: ${palette.background}; color: ${palette.text}; }
+header { padding: 16px 24px; border-bottom: 1px solid ${palette.border}; }
+h1 { margin: 0; font-size: 22px; }
+header p { margin: 4px 0 0; color: ${palette.mutedText}; font-size: 13px; }
+main { display: flex; flex-wrap: wrap; gap: 24px; padding: 24px; align-items: flex-start; }
+.radar { flex: 1 1 480px; max-width: 760px; }
+.radar svg { width: 100%; height: auto; display: block; }
+.radar-blip { cursor: pointer; outline: none; transition: opacity 0.15s; }
+.radar-blip:focus .radar-blip-circle, .radar-blip.is-active .radar-blip-circle { stroke: ${palette.text}; stroke-width: 2; }
+.is-dimmed { opacity: 0.15; }
+aside { flex: 1 1 280px; max-width: 420px; display: flex; flex-direction: column; gap: 20px; }
+h2 { font-size: 14px; margin: 0 0 8px; }
+h3 { font-size: 13px; margin: 12px 0 4px; color: ${palette.mutedText}; }
+ul { list-style: none; margin: 0; padding: 0; }
+button { font: inherit; color: inherit; background: none; border: 1px solid transparent; border-radius: 4px; padding: 2px 6px; cursor: pointer; text-align: left; }
+button:hover, button:focus { border-color: ${palette.border}; outline: none; }
+button[aria-pressed="true"] { border-color: ${palette.accent}; color: ${palette.accent}; }
+.legend li { display: flex; align-items: center; gap: 6px; }
+.swatch { width: 12px; height: 12px; border-radius: 2px; flex: none; }
+.show-all { margin-top: 8px; color: ${palette.mutedText}; }
+.details { border: 1px solid ${palette.border}; border-radius: 6px; padding: 12px 16px; }
+.details .place { color: ${palette.mutedText}; font-size: 13px; margin: 0 0 8px; }
+.details .note { border-top: 1px solid ${palette.border}; margin-top: 12px; }
+.details img { max-width: 100%; }
+.hint { color: ${palette.mutedText}; font-size: 13px; margin: 0; }
+.blip-list li li button { width: 100%; }
+#tooltip { position: fixed; pointer-events: none; max-width: 280px; padding: 8px 10px; border-radius: 6px; font-size: 12px; background: ${palette.text}; color: ${palette.background}; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.25); }
+#tooltip .place { opacity: 0.75; }
+#tooltip p { margin: 4px 0 0; }
+`;
+}
+
+/**
+ * Page script: tooltips, the details panel and legend filtering.
+ * Runs in the exported page, not in Obsidian.
+ */
+const PAGE_SCRIPT = `
+(function () {
+	var data = JSON.parse(document.getElementById("radar-data").textContent);
+	var blips = {};
+	data.blips.forEach(function (blip) { blips[blip.id] = blip; });
+	var tooltip = document.getElementById("tooltip");
+	var details = document.getElementById("details");
+	var filter = { ring: "", segment: "" };
+
+	function text(value) {
+		var element = document.createElement("span");
+		element.textContent = value;
+		return element.innerHTML;
+	}
+
+	function place(blip) {
+		return [blip.ringName, blip.segmentName].filter(Boolean).join(" \\u00b7 ");
+	}
+
+	function showTooltip(blip, x, y) {
+		tooltip.innerHTML = "<strong>" + text(blip.title) + "</strong>" +
+			(place(blip) ? "<div class=\\"place\\">" + text(place(blip)) + "</div>" : "") +
+			(blip.summary ? "<p>" + text(blip.summary) + "</p>" : "");
+		tooltip.hidden = false;
+		moveTooltip(x, y);
+	}
+
+	function moveTooltip(x, y) {
+		var left = Math.min(x + 14, window.innerWidth - tooltip.offsetWidth - 8);
+		var top = y + 14 + tooltip.offsetHeight > window.innerHeight ? y - tooltip.offsetHeight - 8 : y + 14;
+		tooltip.style.left = left + "px";
+		tooltip.style.top = top + "px";
+	}
+
+	function showDetails(id) {
+		var blip = blips[id];
+		if (!blip) return;
+		details.innerHTML = "<h2>" + text(blip.title) + "</h2>" +
+			(place(blip) ? "<p class=\\"place\\">" + text(place(blip)) + "</p>" : "") +
+			(blip.description || (blip.note ? "" : "<p class=\\"hint\\">No description</p>")) +
+			(blip.note ? "<div class=\\"note\\">" + blip.note + "</div>" : "");
+		document.querySelectorAll(".radar-blip").forEach(function (element) {
+			element.classList.toggle("is-active", element.getAttribute("data-blip-id") === id);
+		});
+	}
+
+	function applyFilter() {
+		document.querySelectorAll("[data-blip-id]").forEach(function (element) {
+			var blip = blips[element.getAttribute("data-blip-id")];
+			if (!blip || element.closest("#details")) return;
+			var match = (!filter.ring || blip.ring === filter.ring) && (!filter.segment || blip.segment === filter.segment);
+			element.classList.toggle("is-dimmed", !match);
+		});
+		document.querySelectorAll("[data-ring]").forEach(function (button) {
+			button.setAttribute("aria-pressed", String(button.getAttribute("data-ring") === filter.ring));
+		});
+		document.querySelectorAll("[data-segment]").forEach(function (button) {
+			button.setAttribute("aria-pressed", String(button.getAttribute("data-segment") === filter.segment));
+		});
+	}
+
+	document.querySelectorAll(".radar-blip").forEach(function (element) {
+		var blip = blips[element.getAttribute("data-blip-id")];
+		if (!blip) return;
+		element.setAttribute("tabindex", "0");
+		element.setAttribute("role", "button");
+		element.setAttribute("aria-label", blip.title + (place(blip) ? ", " + place(blip) : ""));
+		element.addEventListener("mouseenter", function (event) { showTooltip(blip, event.clientX, event.clientY); });
+		element.addEventListener("mousemove", function (event) { moveTooltip(event.clientX, event.clientY); });
+		element.addEventListener("mouseleave", function () { tooltip.hidden = true; });
+		element.addEventListener("focus", function () {
+			var box = element.getBoundingClientRect();
+			showTooltip(blip, box.right, box.bottom);
+		});
+		element.addEventListener("blur", function () { tooltip.hidden = true; });
+		element.addEventListener("keydown", function (event) {
+			if (event.key === "Enter" || event.key === " ") {
+				event.preventDefault();
+				showDetails(blip.id);
+			}
+		});
+	});
+
+	document.addEventListener("click", function (event) {
+		var target = event.target.closest("[data-blip-id], [data-ring], [data-segment], .show-all");
+		if (!target) return;
+		event.preventDefault();
+		if (target.hasAttribute("data-ring")) {
+			var ring = target.getAttribute("data-ring");
+			filter.ring = filter.ring === ring ? "" : ring;
+			applyFilter();
+		} else if (target.hasAttribute("data-segment")) {
+			var segment = target.getAttribute("data-segment");
+			filter.segment = filter.segment === segment ? "" : segment;
+			applyFilter();
+		} else if (target.classList.contains("show-all")) {
+			filter = { ring: "", segment: "" };
+			applyFilter();
+		} else {
+			showDetails(target.getAttribute("data-blip-id"));
+		}
+	});
+})();
+`;
+
+/**
+ * Legend of rings (innermost first) and segments with their colors; each entry
+ * is a button that dims the blips outside it
+ */
+function buildLegend(radarData: RadarData, palette: ExportPalette): string {
+	const parts: string[] = [];
+	const priorities = sortPriorities(radarData.priorityLevels);
+	parts.push("<h2>Rings</h2><ul>");
+	for (const priority of priorities) {
+		parts.push(`<li><button type="button" data-ring="${escapeHtml(priority.id)}" aria-pressed="false">${escapeHtml(priority.name || "Unnamed ring")}</button></li>`);
+	}
+	parts.push("</ul>");
+
+	const categories = sortCategories(radarData.categories);
+	if (categories.length > 0) {
+		parts.push("<h2>Segments</h2><ul>");
+		for (const category of categories) {
+			parts.push(
+				`<li><span class="swatch" style="background: ${escapeHtml(category.color ?? palette.border)}"></span>` +
+				`<button type="button" data-segment="${escapeHtml(category.id)}" aria-pressed="false">${escapeHtml(category.name || "Unnamed segment")}</button></li>`
+			);
+		}
+		parts.push("</ul>");
+	}
+	parts.push(`<button type="button" class="show-all">Show all blips</button>`);
+	return parts.join("");
+}
+
+/**
+ * Blips by segment and ring, nearest to the center first
+ */
+function buildBlipList(blips: PageBlip[], radarData: RadarData): string {
+	const parts: string[] = ["<h2>Blips</h2>"];
+	const byPosition = new Map(radarData.blips.map((blip) => [blip.id, blip.r]));
+	const segments: Array<{ id: string; name: string }> = radarData.categories.length > 0
+		? sortCategories(radarData.categories).map((c) => ({ id: c.id, name: c.name || "Unnamed segment" }))
+		: [{ id: "", name: "" }];
+
+	for (const segment of segments) {
+		const segmentBlips = blips.filter((blip) => blip.segment === segment.id);
+		if (segmentBlips.length === 0) continue;
+		if (segment.name) parts.push(`<h3>${escapeHtml(segment.name)}</h3>`);
+		parts.push(`<ul class="blip-list">`);
+		for (const priority of sortPriorities(radarData.priorityLevels)) {
+			const ringBlips = segmentBlips
+				.filter((blip) => blip.ring === priority.id)
+				.sort((a, b) => (byPosition.get(a.id) ?? 0) - (byPosition.get(b.id) ?? 0));
+			if (ringBlips.length === 0) continue;
+			parts.push(`<li>${escapeHtml(priority.name || "Unnamed ring")}<ul>`);
+			for (const blip of ringBlips) {
+				parts.push(`<li><button type="button" data-blip-id="${escapeHtml(blip.id)}">${escapeHtml(blip.title)}</button></li>`);
+			}
+			parts.push("</ul></li>");
+		}
+		parts.push("</ul>");
+	}
+	return parts.join("");
+}
+
+/**
+ * Build the page
+ * @param svg - Exported radar SVG without a legend (see buildExportSvg)
+ * @param content - Rendered descriptions and note contents by blip id
+ */
+export function buildHtmlExport(
+	svg: SVGSVGElement,
+	radarData: RadarData,
+	palette: ExportPalette,
+	title: string,
+	content: Map<string, HtmlBlipContent>
+): string {
+	const blips = radarData.blips.map((blip) => getPageBlip(blip, radarData, content.get(blip.id)));
+	// "<" is escaped so note content can't end the script element
+	const json = JSON.stringify({ blips }).replace(/</g, "\\u003c");
+	const exported = new Date().toLocaleDateString();
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${getStyles(palette)}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(title)}</h1>
+<p>${radarData.blips.length} blips, exported ${escapeHtml(exported)}. Hover over a blip for a summary and select it for details.</p>
+</header>
+<main>
+<div class="radar">${new XMLSerializer().serializeToString(svg)}</div>
+<aside>
+<section class="legend">${buildLegend(radarData, palette)}</section>
+<section class="details" id="details" aria-live="polite"><p class="hint">Select a blip to see its description.</p></section>
+<section>${buildBlipList(blips, radarData)}</section>
+</aside>
+</main>
+<div id="tooltip" role="tooltip" hidden></div>
+<script type="application/json" id="radar-data">${json}</script>
+<script>${PAGE_SCRIPT}</script>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,88 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RadarData } from "../types";
+import { estimateTextWidth, truncateLabel, layoutLabels, getBlipNumbers, LabelInput, LabelPlacement } from "./labelLayout";
+
+const DOT_RADIUS = 6;
+const LABEL_HEIGHT = 13;
+
+function labelBox(input: LabelInput, placement: LabelPlacement) {
+	const width = estimateTextWidth(placement.text);
+	const x = input.x + placement.x;
+	const y = input.y + placement.y;
+	return { left: x - width / 2, right: x + width / 2, top: y - LABEL_HEIGHT / 2, bottom: y + LABEL_HEIGHT / 2 };
+}
+
+describe("truncateLabel", () => {
+	it("keeps labels that fit", () => {
+		assert.equal(truncateLabel("Linting", 100), "Linting");
+	});
+
+	it("ends shortened labels with an ellipsis within the width", () => {
+		const label = truncateLabel("Continuous delivery pipelines", 60);
+		assert.ok(label.endsWith("…"));
+		assert.ok(estimateTextWidth(label) <= 60);
+	});
+});
+
+describe("layoutLabels", () => {
+	it("puts a lone label above its dot", () => {
+		const [placement] = layoutLabels([{ id: "a", x: 0, y: 0, text: "Linting" }], DOT_RADIUS, 300);
+		assert.ok(placement);
+		assert.equal(placement.x, 0);
+		assert.ok(placement.y < -DOT_RADIUS);
+		assert.equal(placement.leader, null);
+	});
+
+	it("keeps labels of close blips apart and clear of the dots", () => {
+		const inputs: LabelInput[] = [
+			{ id: "a", x: 0, y: 0, text: "Linting" },
+			{ id: "b", x: 0, y: -20, text: "Pairing" },
+			{ id: "c", x: 30, y: -10, text: "Testing" },
+		];
+		const boxes = layoutLabels(inputs, DOT_RADIUS, 300).map((placement, index) => {
+			const input = inputs[index];
+			assert.ok(input);
+			return labelBox(input, placement);
+		});
+
+		const overlaps = (a: typeof boxes[number], b: typeof boxes[number]) =>
+			a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+		boxes.forEach((box, index) => {
+			boxes.slice(index + 1).forEach((other) => assert.ok(!overlaps(box, other)));
+			for (const dot of inputs) {
+				const dotBox = { left: dot.x - DOT_RADIUS, right: dot.x + DOT_RADIUS, top: dot.y - DOT_RADIUS, bottom: dot.y + DOT_RADIUS };
+				assert.ok(!overlaps(box, dotBox));
+			}
+		});
+	});
+
+	it("stays inside the drawing", () => {
+		const [placement] = layoutLabels([{ id: "a", x: 0, y: -290, text: "Linting" }], DOT_RADIUS, 300);
+		assert.ok(placement);
+		assert.ok(labelBox({ id: "a", x: 0, y: -290, text: "Linting" }, placement).top >= -300);
+	});
+});
+
+describe("getBlipNumbers", () => {
+	it("numbers blips by segment, then ring, then title", () => {
+		const radar: RadarData = {
+			schemaVersion: 1,
+			priorityLevels: [
+				{ id: "outer", name: "Hold", maxRadius: 1 },
+				{ id: "inner", name: "Adopt", maxRadius: 0.5 },
+			],
+			categories: [
+				{ id: "second", name: "Techniques", startAngle: 180 },
+				{ id: "first", name: "Tools", startAngle: 0 },
+			],
+			blips: [
+				{ id: "d", type: "text", title: "Pairing", r: 0.2, theta: 200 },
+				{ id: "c", type: "text", title: "Zed", r: 0.8, theta: 10 },
+				{ id: "b", type: "text", title: "Make", r: 0.2, theta: 10 },
+				{ id: "a", type: "text", title: "Git", r: 0.3, theta: 20 },
+			],
+		};
+		assert.deepEqual([...getBlipNumbers(radar)], [["a", 1], ["b", 2], ["c", 3], ["d", 4]]);
+	});
+});
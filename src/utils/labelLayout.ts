@@ -0,0 +1,201 @@
+/**
+ * Label Layout
+ * Places blip titles so they don't overlap each other or other blips,
+ * and numbers blips for the numbered legend
+ */
+
+import type { RadarData } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle } from "./polarCoordinates";
+import { sortPriorities, sortCategories } from "./radarStructure";
+
+/** A blip label to place, positions relative to the radar center */
+export interface LabelInput {
+	id: string;
+	/** Blip position */
+	x: number;
+	y: number;
+	text: string;
+}
+
+/** Where a label ended up */
+export interface LabelPlacement {
+	id: string;
+	/** Possibly truncated label text */
+	text: string;
+	truncated: boolean;
+	/** Label center, relative to the blip position */
+	x: number;
+	y: number;
+	/** Line from the dot to a label placed further away, relative to the blip position */
+	leader: { x1: number; y1: number; x2: number; y2: number } | null;
+}
+
+interface Box {
+	left: number;
+	top: number;
+	right: number;
+	bottom: number;
+}
+
+// Text size estimate for the 11px title font. Measuring with getBBox() only works
+// while the SVG is displayed, and the radar may be hidden (table layout) or detached (export).
+const CHAR_WIDTH = 6.5;
+const LABEL_HEIGHT = 13;
+// Gap between the dot and a label next to it
+const LABEL_GAP = 3;
+// Extra distances tried for labels with a leader line
+const LEADER_STEPS = [18, 36];
+// Longest label in pixels before truncation, then the fallback when nothing fits
+const MAX_LABEL_WIDTHS = [120, 60];
+const ELLIPSIS = "…";
+
+// Preferred directions: above, below, right, left, then the diagonals
+const DIAGONAL = Math.SQRT1_2;
+const DIRECTIONS: Array<[number, number]> = [
+	[0, -1],
+	[0, 1],
+	[1, 0],
+	[-1, 0],
+	[DIAGONAL, -DIAGONAL],
+	[-DIAGONAL, -DIAGONAL],
+	[DIAGONAL, DIAGONAL],
+	[-DIAGONAL, DIAGONAL],
+];
+
+/**
+ * Estimate the rendered width of a label
+ */
+export function estimateTextWidth(text: string): number {
+	return text.length * CHAR_WIDTH;
+}
+
+/**
+ * Shorten a label to a maximum width, ending it with an ellipsis
+ */
+export function truncateLabel(text: string, maxWidth: number): string {
+	if (estimateTextWidth(text) <= maxWidth) {
+		return text;
+	}
+	const maxChars = Math.max(1, Math.floor(maxWidth / CHAR_WIDTH) - 1);
+	return text.slice(0, maxChars).trimEnd() + ELLIPSIS;
+}
+
+function overlaps(a: Box, b: Box): boolean {
+	return a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+}
+
+/**
+ * Place labels greedily: each label takes the first position next to its dot
+ * (above, below, beside, diagonal) that stays clear of all dots and earlier labels,
+ * then positions further out with a leader line, then the same with a shorter text.
+ * Labels that still collide stay above their dot.
+ *
+ * @param dotRadius - Blip circle radius
+ * @param bound - Half the drawing size; labels stay within -bound..bound
+ */
+export function layoutLabels(inputs: LabelInput[], dotRadius: number, bound: number): LabelPlacement[] {
+	const obstacles: Box[] = inputs.map((input) => ({
+		left: input.x - dotRadius,
+		top: input.y - dotRadius,
+		right: input.x + dotRadius,
+		bottom: input.y + dotRadius,
+	}));
+
+	const fits = (box: Box) =>
+		box.left >= -bound && box.right <= bound && box.top >= -bound && box.bottom <= bound &&
+		!obstacles.some((obstacle) => overlaps(box, obstacle));
+
+	return inputs.map((input) => {
+		for (const maxWidth of MAX_LABEL_WIDTHS) {
+			const text = truncateLabel(input.text, maxWidth);
+			const width = estimateTextWidth(text);
+
+			for (const extra of [0, ...LEADER_STEPS]) {
+				for (const [dx, dy] of DIRECTIONS) {
+					const placement = getCandidate(input, text, width, dotRadius, dx, dy, extra);
+					const box = toBox(input, placement, width);
+					if (fits(box)) {
+						obstacles.push(box);
+						return placement;
+					}
+				}
+			}
+		}
+
+		// Nothing fits: keep the default position above the dot
+		const text = truncateLabel(input.text, MAX_LABEL_WIDTHS[MAX_LABEL_WIDTHS.length - 1] ?? 0);
+		const placement = getCandidate(input, text, estimateTextWidth(text), dotRadius, 0, -1, 0);
+		obstacles.push(toBox(input, placement, estimateTextWidth(text)));
+		return placement;
+	});
+}
+
+/**
+ * Label position in one direction from the dot
+ * @param extra - Additional distance; anything above 0 gets a leader line
+ */
+function getCandidate(
+	input: LabelInput,
+	text: string,
+	width: number,
+	dotRadius: number,
+	dx: number,
+	dy: number,
+	extra: number
+): LabelPlacement {
+	const distance = dotRadius + LABEL_GAP + extra;
+	// Offset the center by half the label size so the nearest edge sits at the distance
+	const halfX = Math.sign(dx) * (width / 2);
+	const halfY = Math.sign(dy) * (LABEL_HEIGHT / 2);
+	const x = dx * distance + halfX;
+	const y = dy * distance + halfY;
+
+	return {
+		id: input.id,
+		text,
+		truncated: text !== input.text,
+		x,
+		y,
+		leader: extra > 0
+			? { x1: dx * dotRadius, y1: dy * dotRadius, x2: x - halfX, y2: y - halfY }
+			: null,
+	};
+}
+
+function toBox(input: LabelInput, placement: LabelPlacement, width: number): Box {
+	const centerX = input.x + placement.x;
+	const centerY = input.y + placement.y;
+	return {
+		left: centerX - width / 2,
+		top: centerY - LABEL_HEIGHT / 2,
+		right: centerX + width / 2,
+		bottom: centerY + LABEL_HEIGHT / 2,
+	};
+}
+
+/**
+ * Number blips for the numbered legend: by segment, then ring (innermost first), then title
+ * @returns Blip id → number starting at 1
+ */
+export function getBlipNumbers(radarData: RadarData): Map<string, number> {
+	const priorities = sortPriorities(radarData.priorityLevels);
+	const categories = sortCategories(radarData.categories);
+
+	const keyed = radarData.blips.map((blip) => {
+		const priority = getPriorityFromRadius(blip.r, priorities);
+		const category = getCategoryFromAngle(blip.theta, categories);
+		return {
+			blip,
+			categoryIndex: category ? categories.indexOf(category) : -1,
+			priorityIndex: priority ? priorities.indexOf(priority) : -1,
+		};
+	});
+
+	keyed.sort((a, b) =>
+		a.categoryIndex - b.categoryIndex ||
+		a.priorityIndex - b.priorityIndex ||
+		a.blip.title.localeCompare(b.blip.title)
+	);
+
+	return new Map(keyed.map(({ blip }, index) => [blip.id, index + 1]));
+}
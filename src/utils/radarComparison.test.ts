@@ -0,0 +1,66 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Blip } from "../types";
+import { compareRadars, countChanges, RadarState } from "./radarComparison";
+
+function state(blips: Blip[]): RadarState {
+	return {
+		priorityLevels: [
+			{ id: "adopt", name: "Adopt", maxRadius: 0.5 },
+			{ id: "hold", name: "Hold", maxRadius: 1 },
+		],
+		categories: [{ id: "tools", name: "Tools", startAngle: 0 }],
+		blips,
+	};
+}
+
+function blip(id: string, title: string, r: number, extra: Partial<Blip> = {}): Blip {
+	return { id, type: "text", title, r, theta: 10, ...extra };
+}
+
+describe("compareRadars", () => {
+	it("classifies new, moved and removed blips", () => {
+		const before = state([
+			blip("in", "Moves in", 0.8),
+			blip("out", "Moves out", 0.2),
+			blip("same", "Stays", 0.3),
+			blip("gone", "Removed", 0.3),
+		]);
+		const after = state([
+			blip("in", "Moves in", 0.3),
+			blip("out", "Moves out", 0.7),
+			blip("same", "Stays", 0.4),
+			blip("new", "Added", 0.3),
+		]);
+		const comparison = compareRadars(before, after);
+
+		assert.deepEqual(Object.fromEntries(comparison.changes), {
+			in: "moved-in",
+			out: "moved-out",
+			same: "unchanged",
+			new: "new",
+		});
+		assert.deepEqual(Object.fromEntries(comparison.previousPositions), {
+			in: { r: 0.8, theta: 10 },
+			out: { r: 0.2, theta: 10 },
+		});
+		assert.deepEqual(comparison.removed.map((b) => b.id), ["gone"]);
+		assert.deepEqual(countChanges(comparison), { new: 1, "moved-in": 1, "moved-out": 1, unchanged: 1, removed: 1 });
+	});
+
+	it("matches blips by note, then title, when their ids differ", () => {
+		const before = state([
+			blip("old-note", "Old title", 0.8, { type: "note", notePath: "Git.md" }),
+			blip("old-text", "Pairing", 0.8),
+		]);
+		const after = state([
+			blip("new-note", "New title", 0.2, { type: "note", notePath: "Git.md" }),
+			blip("new-text", " pairing ", 0.8),
+		]);
+		const comparison = compareRadars(before, after);
+
+		assert.equal(comparison.changes.get("new-note"), "moved-in");
+		assert.equal(comparison.changes.get("new-text"), "unchanged");
+		assert.deepEqual(comparison.removed, []);
+	});
+});
@@ -0,0 +1,107 @@
+/**
+ * Radar Comparison
+ * Differences between an earlier state of a radar (a snapshot) and a later one,
+ * classified like the markers of published tech radars
+ */
+
+import type { RadarData, Blip } from "../types";
+import { getPriorityFromRadius, PolarPoint } from "./polarCoordinates";
+import { sortPriorities } from "./radarStructure";
+
+/** The parts of a radar that are compared, shared by radars and snapshots */
+export type RadarState = Pick<RadarData, "priorityLevels" | "categories" | "blips">;
+
+/**
+ * How a blip changed since the baseline: added, moved to an inner ring,
+ * moved to an outer ring, or still in the same ring
+ */
+export type BlipChange = "new" | "moved-in" | "moved-out" | "unchanged";
+
+export interface RadarComparison {
+	/** Blip id (in the later radar) → change */
+	changes: Map<string, BlipChange>;
+	/** Baseline position of blips that moved in or out, by blip id */
+	previousPositions: Map<string, PolarPoint>;
+	/** Baseline blips that are no longer on the radar */
+	removed: Blip[];
+}
+
+/**
+ * Ring index counted from the center, or -1 outside every ring
+ */
+function getRingIndex(blip: Blip, state: RadarState): number {
+	const priority = getPriorityFromRadius(blip.r, state.priorityLevels);
+	return priority ? sortPriorities(state.priorityLevels).findIndex((p) => p.id === priority.id) : -1;
+}
+
+/**
+ * Find the baseline blip for each blip of the later radar: same id, otherwise the same
+ * note, otherwise the same title (ids differ when a snapshot was edited as its own file)
+ */
+function matchBlips(before: Blip[], after: Blip[]): Map<string, Blip> {
+	const matches = new Map<string, Blip>();
+	const unmatched = new Set(before);
+	const claim = (blip: Blip, predicate: (candidate: Blip) => boolean) => {
+		if (matches.has(blip.id)) return;
+		for (const candidate of unmatched) {
+			if (predicate(candidate)) {
+				matches.set(blip.id, candidate);
+				unmatched.delete(candidate);
+				return;
+			}
+		}
+	};
+
+	for (const blip of after) claim(blip, (candidate) => candidate.id === blip.id);
+	for (const blip of after) {
+		if (blip.notePath) claim(blip, (candidate) => candidate.notePath === blip.notePath);
+	}
+	for (const blip of after) {
+		claim(blip, (candidate) => candidate.title.trim().toLowerCase() === blip.title.trim().toLowerCase());
+	}
+	return matches;
+}
+
+/**
+ * Compare a baseline radar state with a later one
+ */
+export function compareRadars(before: RadarState, after: RadarState): RadarComparison {
+	const matches = matchBlips(before.blips, after.blips);
+	const changes = new Map<string, BlipChange>();
+	const previousPositions = new Map<string, PolarPoint>();
+
+	for (const blip of after.blips) {
+		const previous = matches.get(blip.id);
+		if (!previous) {
+			changes.set(blip.id, "new");
+			continue;
+		}
+
+		const ringBefore = getRingIndex(previous, before);
+		const ringAfter = getRingIndex(blip, after);
+		if (ringBefore === ringAfter || ringBefore === -1 || ringAfter === -1) {
+			changes.set(blip.id, "unchanged");
+			continue;
+		}
+		changes.set(blip.id, ringAfter < ringBefore ? "moved-in" : "moved-out");
+		previousPositions.set(blip.id, { r: previous.r, theta: previous.theta });
+	}
+
+	const matched = new Set(matches.values());
+	return {
+		changes,
+		previousPositions,
+		removed: before.blips.filter((blip) => !matched.has(blip)),
+	};
+}
+
+/**
+ * Number of blips per kind of change, for a summary line
+ */
+export function countChanges(comparison: RadarComparison): Record<BlipChange | "removed", number> {
+	const counts = { new: 0, "moved-in": 0, "moved-out": 0, unchanged: 0, removed: comparison.removed.length };
+	for (const change of comparison.changes.values()) {
+		counts[change]++;
+	}
+	return counts;
+}
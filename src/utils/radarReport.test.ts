@@ -0,0 +1,97 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RadarData } from "../types";
+import { buildRadarReport, findReportBlocks, replaceReportBlocks } from "./radarReport";
+
+function radar(): RadarData {
+	return {
+		schemaVersion: 1,
+		priorityLevels: [
+			{ id: "adopt", name: "Adopt", maxRadius: 0.5 },
+			{ id: "hold", name: "Hold", maxRadius: 1 },
+		],
+		categories: [
+			{ id: "tools", name: "Tools", startAngle: 0 },
+			{ id: "techniques", name: "", startAngle: 180 },
+		],
+		blips: [
+			{ id: "a", type: "text", title: "Make", r: 0.8, theta: 10 },
+			{ id: "b", type: "note", title: "Git", notePath: "Notes/Git.md", r: 0.3, theta: 10 },
+			{ id: "c", type: "note", title: "Pairing", notePath: "Notes/Pair programming.md", r: 0.1, theta: 10 },
+			{ id: "d", type: "text", title: "*Bold* [x] #tag", r: 0.2, theta: 10 },
+			{ id: "e", type: "note", title: "Gone", notePath: "Notes/Gone.md", orphaned: true, r: 0.9, theta: 10 },
+		],
+	};
+}
+
+const linkText = (notePath: string) => notePath.replace(/\.md$/, "");
+
+function reportLines(): string[] {
+	return buildRadarReport(radar(), "Radars/Tech.radar", linkText).split("\n");
+}
+
+describe("buildRadarReport", () => {
+	it("wraps the report in markers naming the radar", () => {
+		const lines = reportLines();
+		assert.equal(lines[0], "<!-- radar-report: Radars/Tech.radar -->");
+		assert.match(lines[1] ?? "", /^\*5 blips in \[\[Radars\/Tech\.radar\|Tech\]\], updated /);
+		assert.equal(lines[lines.length - 1], "<!-- /radar-report -->");
+	});
+
+	it("lists rings per segment with blips nearest to the center first", () => {
+		const lines = reportLines();
+		const tools = lines.indexOf("## Tools");
+		assert.deepEqual(lines.slice(tools, tools + 10), [
+			"## Tools",
+			"",
+			"- **Adopt**",
+			"\t- [[Notes/Pair programming|Pairing]]",
+			"\t- \\*Bold\\* \\[x\\] \\#tag",
+			"\t- [[Notes/Git]]",
+			"- **Hold**",
+			"\t- Make",
+			"\t- Gone",
+			"",
+		]);
+	});
+
+	it("names unnamed segments and marks empty ones", () => {
+		const lines = reportLines();
+		const unnamed = lines.indexOf("## Unnamed segment");
+		assert.notEqual(unnamed, -1);
+		assert.equal(lines[unnamed + 2], "*No blips*");
+	});
+
+	it("uses a markdown link for titles that would break a wiki-link", () => {
+		const data = radar();
+		data.blips = [{ id: "a", type: "note", title: "A|B", notePath: "Notes/Git.md", r: 0.1, theta: 10 }];
+		assert.ok(buildRadarReport(data, "Tech.radar", linkText).includes("\t- [A\\|B](<Notes/Git>)"));
+	});
+});
+
+describe("replaceReportBlocks", () => {
+	const note = [
+		"Intro",
+		"<!-- radar-report: One.radar -->",
+		"old one",
+		"<!-- /radar-report -->",
+		"Middle",
+		"<!-- radar-report: Two.radar -->",
+		"old two",
+		"<!-- /radar-report -->",
+		"Outro",
+	].join("\n");
+
+	it("finds every block with its radar", () => {
+		assert.deepEqual(findReportBlocks(note).map((block) => block.radarPath), ["One.radar", "Two.radar"]);
+	});
+
+	it("replaces built blocks and keeps the rest of the note", () => {
+		const result = replaceReportBlocks(note, (radarPath) => (radarPath === "One.radar" ? "NEW" : null));
+		assert.equal(result, note.replace(/<!-- radar-report: One\.radar -->\nold one\n<!-- \/radar-report -->/, "NEW"));
+	});
+
+	it("ignores a block without an end marker", () => {
+		assert.deepEqual(findReportBlocks("<!-- radar-report: One.radar -->\nno end"), []);
+	});
+});
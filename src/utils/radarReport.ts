@@ -0,0 +1,142 @@
+/**
+ * Radar Report
+ * Markdown summary of a radar (a heading per segment, a list per ring) kept between
+ * comment markers so it can be refreshed inside any note
+ */
+
+import type { RadarData, Blip } from "../types";
+import { getPriorityFromRadius, getCategoryFromAngle } from "./polarCoordinates";
+import { sortPriorities, sortCategories } from "./radarStructure";
+
+const REPORT_START = /<!-- radar-report: (.+?) -->/;
+const REPORT_END = "<!-- /radar-report -->";
+
+/** A report block found in a note */
+export interface ReportBlock {
+	/** Path of the .radar file the report was generated from */
+	radarPath: string;
+	/** Character offsets of the whole block, markers included */
+	start: number;
+	end: number;
+}
+
+/**
+ * Text shown as is in markdown: formatting, link, tag and comment characters are
+ * backslash-escaped, and so is a leading list marker
+ */
+function escapeMarkdown(text: string): string {
+	return text
+		.replace(/[\\`*_~=[\]|#<>$%^]/g, "\\$&")
+		.replace(/^[-+]/, "\\$&")
+		.replace(/^(\d+)([.)])/, "$1\\$2");
+}
+
+/**
+ * Wiki-link for a note blip, plain text for a text blip or a blip whose note was deleted.
+ * Titles that would end a wiki-link or its display text early get a markdown link instead.
+ * @param getLinkText - Shortest link text for a note path
+ */
+function formatBlip(blip: Blip, getLinkText: (notePath: string) => string): string {
+	if (blip.type !== "note" || !blip.notePath || blip.orphaned) {
+		return escapeMarkdown(blip.title);
+	}
+	const linkText = getLinkText(blip.notePath);
+	const basename = linkText.split("/").pop();
+	if (basename === blip.title) {
+		return `[[${linkText}]]`;
+	}
+	return /[[\]|]/.test(blip.title)
+		? `[${escapeMarkdown(blip.title)}](<${linkText}>)`
+		: `[[${linkText}|${blip.title}]]`;
+}
+
+/**
+ * Rings of a segment with their blips, innermost first and nearest to the center first,
+ * leaving out empty rings
+ */
+function formatRings(
+	blips: Blip[],
+	radarData: RadarData,
+	getLinkText: (notePath: string) => string
+): string[] {
+	const lines: string[] = [];
+	const byPriority = new Map<string, Blip[]>();
+	for (const blip of blips) {
+		const priority = getPriorityFromRadius(blip.r, radarData.priorityLevels);
+		if (!priority) continue;
+		byPriority.set(priority.id, [...(byPriority.get(priority.id) ?? []), blip]);
+	}
+
+	for (const priority of sortPriorities(radarData.priorityLevels)) {
+		const ringBlips = byPriority.get(priority.id);
+		if (!ringBlips) continue;
+		lines.push(`- **${priority.name ? escapeMarkdown(priority.name) : "Unnamed ring"}**`);
+		for (const blip of [...ringBlips].sort((a, b) => a.r - b.r)) {
+			lines.push(`\t- ${formatBlip(blip, getLinkText)}`);
+		}
+	}
+	return lines.length > 0 ? lines : ["*No blips*"];
+}
+
+/**
+ * Report block for a radar, markers included
+ * @param radarPath - Path of the .radar file, recorded in the start marker for refreshing
+ * @param getLinkText - Shortest link text for a note path
+ */
+export function buildRadarReport(
+	radarData: RadarData,
+	radarPath: string,
+	getLinkText: (notePath: string) => string
+): string {
+	const name = radarPath.split("/").pop()?.replace(/\.radar$/, "") ?? radarPath;
+	const lines = [
+		`<!-- radar-report: ${radarPath} -->`,
+		`*${radarData.blips.length} blips in [[${radarPath}|${name}]], updated ${new Date().toLocaleString()}*`,
+	];
+
+	if (radarData.categories.length === 0) {
+		lines.push("", ...formatRings(radarData.blips, radarData, getLinkText));
+	} else {
+		for (const category of sortCategories(radarData.categories)) {
+			const blips = radarData.blips.filter(
+				(blip) => getCategoryFromAngle(blip.theta, radarData.categories)?.id === category.id
+			);
+			lines.push("", `## ${category.name ? escapeMarkdown(category.name) : "Unnamed segment"}`, "", ...formatRings(blips, radarData, getLinkText));
+		}
+	}
+
+	lines.push(REPORT_END);
+	return lines.join("\n");
+}
+
+/**
+ * Report blocks in a note, in order
+ */
+export function findReportBlocks(content: string): ReportBlock[] {
+	const blocks: ReportBlock[] = [];
+	const pattern = new RegExp(REPORT_START.source, "g");
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(content)) !== null) {
+		const endIndex = content.indexOf(REPORT_END, match.index);
+		if (endIndex === -1) break;
+		const end = endIndex + REPORT_END.length;
+		blocks.push({ radarPath: match[1] ?? "", start: match.index, end });
+		pattern.lastIndex = end;
+	}
+	return blocks;
+}
+
+/**
+ * Replace report blocks with freshly built ones
+ * @param build - New block for a radar path, or null to keep the block as it is
+ */
+export function replaceReportBlocks(content: string, build: (radarPath: string) => string | null): string {
+	let result = "";
+	let position = 0;
+	for (const block of findReportBlocks(content)) {
+		result += content.slice(position, block.start);
+		result += build(block.radarPath) ?? content.slice(block.start, block.end);
+		position = block.end;
+	}
+	return result + content.slice(position);
+}
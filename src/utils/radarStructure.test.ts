@@ -0,0 +1,90 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Category, PriorityLevel } from "../types";
+import {
+	getRingBand,
+	getSegmentSpan,
+	remapBlipPosition,
+	getRadiusInPriority,
+	getAngleInCategory,
+	distributePriorities,
+	distributeCategories,
+	createCategories,
+} from "./radarStructure";
+
+const priorities: PriorityLevel[] = [
+	{ id: "hold", name: "Hold", maxRadius: 1 },
+	{ id: "adopt", name: "Adopt", maxRadius: 0.5 },
+];
+const categories: Category[] = [
+	{ id: "techniques", name: "Techniques", startAngle: 180 },
+	{ id: "tools", name: "Tools", startAngle: 0 },
+];
+
+function assertClose(actual: number, expected: number): void {
+	assert.ok(Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+}
+
+describe("getRingBand and getSegmentSpan", () => {
+	it("take the inner edge from the previous ring", () => {
+		assert.deepEqual(getRingBand(priorities, "hold"), { inner: 0.5, outer: 1 });
+		assert.deepEqual(getRingBand(priorities, "adopt"), { inner: 0, outer: 0.5 });
+	});
+
+	it("wrap the last segment around to the first", () => {
+		const wrapped = [{ id: "a", name: "A", startAngle: 90 }, { id: "b", name: "B", startAngle: 300 }];
+		assert.deepEqual(getSegmentSpan(wrapped, "b"), { start: 300, end: 450 });
+		assert.deepEqual(getSegmentSpan([{ id: "a", name: "A", startAngle: 30 }], "a"), { start: 30, end: 390 });
+	});
+});
+
+describe("remapBlipPosition", () => {
+	it("keeps the relative place in the ring and segment when they are resized", () => {
+		const newPriorities = priorities.map((p) => ({ ...p, maxRadius: p.id === "adopt" ? 0.2 : 1 }));
+		const newCategories = categories.map((c) => ({ ...c, startAngle: c.id === "techniques" ? 90 : 0 }));
+		const position = remapBlipPosition({ r: 0.75, theta: 270 }, priorities, categories, newPriorities, newCategories);
+		assertClose(position.r, 0.6);
+		assertClose(position.theta, 225);
+	});
+
+	it("leaves coordinates of removed rings and segments alone", () => {
+		const position = remapBlipPosition(
+			{ r: 0.25, theta: 45 },
+			priorities,
+			categories,
+			[{ id: "other", name: "Other", maxRadius: 1 }],
+			[{ id: "other", name: "Other", startAngle: 0 }]
+		);
+		assert.deepEqual(position, { r: 0.25, theta: 45 });
+	});
+});
+
+describe("moving into another ring or segment", () => {
+	it("keeps the relative depth and offset", () => {
+		assertClose(getRadiusInPriority(0.25, priorities, "hold"), 0.75);
+		assertClose(getAngleInCategory(45, categories, "techniques"), 225);
+	});
+});
+
+describe("distributing", () => {
+	it("spreads rings in the given order", () => {
+		assert.deepEqual(distributePriorities(priorities).map((p) => [p.id, p.maxRadius]), [["hold", 0.5], ["adopt", 1]]);
+	});
+
+	it("spreads segments from the first angle and sorts the result", () => {
+		const spread = distributeCategories([
+			{ id: "a", name: "A", startAngle: 200 },
+			{ id: "b", name: "B", startAngle: 0 },
+			{ id: "c", name: "C", startAngle: 10 },
+		]);
+		assert.deepEqual(spread.map((c) => [c.id, c.startAngle]), [["c", 80], ["a", 200], ["b", 320]]);
+	});
+
+	it("creates equal segments with names and colors in angle order", () => {
+		assert.deepEqual(createCategories(3, ["One", "Two"], ["red"]), [
+			{ id: "c1", name: "One", startAngle: 0, color: "red" },
+			{ id: "c2", name: "Two", startAngle: 120 },
+			{ id: "c3", name: "", startAngle: 240 },
+		]);
+	});
+});
@@ -0,0 +1,229 @@
+/**
+ * Radar Structure Utilities
+ * Ring bands, segment spans and blip remapping when the structure changes
+ */
+
+import type { Blip, Category, PriorityLevel } from "../types";
+import { PRIORITY_NAME_PRESETS } from "../constants";
+import { clamp, getCategoryFromAngle, getPriorityFromRadius } from "./polarCoordinates";
+
+/** Radial extent of a priority ring (normalized 0-1) */
+export interface RingBand {
+	inner: number;
+	outer: number;
+}
+
+/** Angular extent of a category segment in degrees (end may exceed 360) */
+export interface SegmentSpan {
+	start: number;
+	end: number;
+}
+
+/**
+ * Sort priority levels from the center outwards
+ */
+export function sortPriorities(priorities: PriorityLevel[]): PriorityLevel[] {
+	return [...priorities].sort((a, b) => a.maxRadius - b.maxRadius);
+}
+
+/**
+ * Sort categories by start angle
+ */
+export function sortCategories(categories: Category[]): Category[] {
+	return [...categories].sort((a, b) => a.startAngle - b.startAngle);
+}
+
+/**
+ * Normalize an angle to the 0-360 range
+ */
+export function normalizeAngle(theta: number): number {
+	const normalized = theta % 360;
+	return normalized < 0 ? normalized + 360 : normalized;
+}
+
+/**
+ * Get the radial band covered by a priority level
+ */
+export function getRingBand(
+	priorities: PriorityLevel[],
+	priorityId: string
+): RingBand | undefined {
+	const sorted = sortPriorities(priorities);
+	const index = sorted.findIndex((p) => p.id === priorityId);
+	const priority = sorted[index];
+	if (!priority) {
+		return undefined;
+	}
+	return {
+		inner: sorted[index - 1]?.maxRadius ?? 0,
+		outer: priority.maxRadius,
+	};
+}
+
+/**
+ * Get the angular span covered by a category
+ */
+export function getSegmentSpan(
+	categories: Category[],
+	categoryId: string
+): SegmentSpan | undefined {
+	const sorted = sortCategories(categories);
+	const index = sorted.findIndex((c) => c.id === categoryId);
+	const category = sorted[index];
+	if (!category) {
+		return undefined;
+	}
+	const next = sorted[index + 1] ?? sorted[0];
+	let end = next && next !== category ? next.startAngle : category.startAngle + 360;
+	if (end <= category.startAngle) {
+		end += 360;
+	}
+	return { start: category.startAngle, end };
+}
+
+/**
+ * Relative position (0-1) of an angle inside a segment span
+ */
+export function getSpanFraction(theta: number, span: SegmentSpan): number {
+	const offset = normalizeAngle(theta - span.start);
+	return clamp(offset / (span.end - span.start), 0, 1);
+}
+
+/**
+ * Relative position (0-1) of a radius inside a ring band
+ */
+export function getBandFraction(r: number, band: RingBand): number {
+	const width = band.outer - band.inner;
+	return width > 0 ? clamp((r - band.inner) / width, 0, 1) : 0;
+}
+
+/**
+ * Move a blip's coordinates so it stays in the same logical ring and segment
+ * when the ring boundaries or segment angles change. Rings or segments that no
+ * longer exist leave the coordinate untouched.
+ */
+export function remapBlipPosition(
+	blip: Pick<Blip, "r" | "theta">,
+	oldPriorities: PriorityLevel[],
+	oldCategories: Category[],
+	newPriorities: PriorityLevel[],
+	newCategories: Category[]
+): { r: number; theta: number } {
+	let { r, theta } = blip;
+
+	const oldPriority = getPriorityFromRadius(r, oldPriorities);
+	const oldBand = oldPriority ? getRingBand(oldPriorities, oldPriority.id) : undefined;
+	const newBand = oldPriority ? getRingBand(newPriorities, oldPriority.id) : undefined;
+	if (oldBand && newBand) {
+		const fraction = getBandFraction(r, oldBand);
+		r = newBand.inner + fraction * (newBand.outer - newBand.inner);
+	}
+
+	const oldCategory = getCategoryFromAngle(theta, oldCategories);
+	const oldSpan = oldCategory ? getSegmentSpan(oldCategories, oldCategory.id) : undefined;
+	const newSpan = oldCategory ? getSegmentSpan(newCategories, oldCategory.id) : undefined;
+	if (oldSpan && newSpan) {
+		const fraction = getSpanFraction(theta, oldSpan);
+		theta = normalizeAngle(newSpan.start + fraction * (newSpan.end - newSpan.start));
+	}
+
+	return { r: clamp(r, 0, 1), theta };
+}
+
+/**
+ * Radius inside another ring, at the same relative depth the blip has in its current ring
+ */
+export function getRadiusInPriority(
+	r: number,
+	priorities: PriorityLevel[],
+	targetId: string
+): number {
+	const target = getRingBand(priorities, targetId);
+	if (!target) {
+		return r;
+	}
+	const current = getPriorityFromRadius(r, priorities);
+	const band = current ? getRingBand(priorities, current.id) : undefined;
+	const fraction = band ? getBandFraction(r, band) : 0.5;
+	return target.inner + fraction * (target.outer - target.inner);
+}
+
+/**
+ * Angle inside another segment, at the same relative offset the blip has in its current segment
+ */
+export function getAngleInCategory(
+	theta: number,
+	categories: Category[],
+	targetId: string
+): number {
+	const target = getSegmentSpan(categories, targetId);
+	if (!target) {
+		return theta;
+	}
+	const current = getCategoryFromAngle(theta, categories);
+	const span = current ? getSegmentSpan(categories, current.id) : undefined;
+	const fraction = span ? getSpanFraction(theta, span) : 0.5;
+	return normalizeAngle(target.start + fraction * (target.end - target.start));
+}
+
+/**
+ * Spread ring boundaries evenly from the center to the edge,
+ * in the order the priorities are given (innermost first)
+ */
+export function distributePriorities(priorities: PriorityLevel[]): PriorityLevel[] {
+	return priorities.map((priority, index) => ({
+		...priority,
+		maxRadius: (index + 1) / priorities.length,
+	}));
+}
+
+/**
+ * Give every category an equal slice, in the order the categories are given,
+ * starting at the first category's angle. The result is sorted by start angle,
+ * as slices past 360° wrap around to the start.
+ */
+export function distributeCategories(categories: Category[]): Category[] {
+	const offset = categories[0]?.startAngle ?? 0;
+	return sortCategories(categories.map((category, index) => ({
+		...category,
+		startAngle: normalizeAngle(offset + (index * 360) / categories.length),
+	})));
+}
+
+/**
+ * Create evenly spaced rings
+ * @param count - Number of rings
+ * @param names - Preferred names, innermost first; missing entries use built-in names
+ */
+export function createPriorityLevels(count: number, names: string[] = []): PriorityLevel[] {
+	const presets = PRIORITY_NAME_PRESETS[count] ?? [];
+	const priorities: PriorityLevel[] = [];
+	for (let i = 0; i < count; i++) {
+		priorities.push({
+			id: `p${i + 1}`,
+			name: names[i] || presets[i] || `Priority ${i + 1}`,
+			maxRadius: 0,
+		});
+	}
+	return distributePriorities(priorities);
+}
+
+/**
+ * Create equal segments starting at 0 degrees
+ * @param count - Number of segments
+ * @param names - Segment names in angle order (missing entries stay unnamed)
+ * @param colors - Segment colors in angle order (missing entries have no color)
+ */
+export function createCategories(count: number, names: string[] = [], colors: string[] = []): Category[] {
+	const categories: Category[] = [];
+	for (let i = 0; i < count; i++) {
+		const color = colors[i];
+		categories.push({
+			id: `c${i + 1}`,
+			name: names[i] ?? "",
+			startAngle: 0,
+			...(color && { color }),
+		});
+	}
+	return distributeCategories(categories);
+}
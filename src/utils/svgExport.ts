@@ -0,0 +1,304 @@
+/**
+ * SVG Export
+ * Turn the rendered radar into a standalone SVG (inlined styles, fixed palette, legend)
+ * and rasterize it to PNG
+ */
+
+import type { RadarData } from "../types";
+import { SVG_CONFIG } from "../constants";
+import { sortPriorities, sortCategories } from "./radarStructure";
+import { createSvgElement, createGroup, createText } from "./svgHelpers";
+import { getBlipNumbers, truncateLabel } from "./labelLayout";
+
+export interface ExportPalette {
+	id: "light" | "dark";
+	name: string;
+	background: string;
+	text: string;
+	mutedText: string;
+	border: string;
+	accent: string;
+	error: string;
+}
+
+/** Fixed colors that stand in for the Obsidian theme variables */
+export const EXPORT_PALETTES: ExportPalette[] = [
+	{
+		id: "light",
+		name: "Light",
+		background: "#ffffff",
+		text: "#222222",
+		mutedText: "#5c5c5c",
+		border: "#d4d4d4",
+		accent: "#7852ee",
+		error: "#e93147",
+	},
+	{
+		id: "dark",
+		name: "Dark",
+		background: "#1e1e1e",
+		text: "#dadada",
+		mutedText: "#b3b3b3",
+		border: "#3f3f3f",
+		accent: "#8a5cf5",
+		error: "#fb464c",
+	},
+];
+
+export interface ExportedSvg {
+	svg: SVGSVGElement;
+	width: number;
+	height: number;
+}
+
+/** Compare mode marker colors (Obsidian's green, blue and orange) */
+const COMPARE_COLORS = { new: "#08b94e", movedIn: "#086ddd", movedOut: "#ec7500" };
+
+const FONT_FAMILY = "system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif";
+const LEGEND_WIDTH = 220;
+const LEGEND_PADDING = 20;
+const LEGEND_LINE_HEIGHT = 20;
+const LEGEND_SWATCH_SIZE = 12;
+// Room for legend text after the padding, in pixels of the 12px legend font
+const LEGEND_TEXT_WIDTH = 180;
+
+/** Properties styles.css sets on the radar, with the presentation attribute each is written as */
+const STYLE_ATTRIBUTES: Record<string, string> = {
+	fill: "fill",
+	"fill-opacity": "fill-opacity",
+	stroke: "stroke",
+	"stroke-width": "stroke-width",
+	"stroke-dasharray": "stroke-dasharray",
+	"stroke-opacity": "stroke-opacity",
+	opacity: "opacity",
+	display: "display",
+	"font-size": "font-size",
+	"font-weight": "font-weight",
+	"font-style": "font-style",
+	"text-anchor": "text-anchor",
+	"dominant-baseline": "dominant-baseline",
+	"text-decoration-line": "text-decoration",
+};
+
+/**
+ * The theme variables styles.css uses for the radar, set to the palette's colors
+ */
+function getThemeVariables(palette: ExportPalette): Record<string, string> {
+	return {
+		"--background-primary": palette.background,
+		"--background-modifier-border": palette.border,
+		"--text-normal": palette.text,
+		"--text-muted": palette.mutedText,
+		"--text-faint": palette.mutedText,
+		"--text-error": palette.error,
+		"--text-on-accent": palette.background,
+		"--interactive-accent": palette.accent,
+		"--interactive-accent-hover": palette.accent,
+		"--color-green": COMPARE_COLORS.new,
+		"--color-blue": COMPARE_COLORS.movedIn,
+		"--color-orange": COMPARE_COLORS.movedOut,
+	};
+}
+
+/**
+ * Write the styles the radar has from styles.css as presentation attributes, so the SVG
+ * looks the same without the stylesheet. Values an unstyled element of the same kind has
+ * anyway are left out. The SVG must be in the document.
+ */
+function inlineStyles(root: SVGGElement): void {
+	const baselines = new Map<string, Record<string, string>>();
+	const getValues = (element: Element): Record<string, string> => {
+		const style = element.win.getComputedStyle(element);
+		return Object.fromEntries(Object.keys(STYLE_ATTRIBUTES).map((name) => [name, style.getPropertyValue(name)]));
+	};
+	const getBaseline = (tagName: string): Record<string, string> => {
+		let baseline = baselines.get(tagName);
+		if (!baseline) {
+			const element = root.appendChild(createSvgElement(tagName as keyof SVGElementTagNameMap));
+			baseline = getValues(element);
+			element.remove();
+			baselines.set(tagName, baseline);
+		}
+		return baseline;
+	};
+
+	// Read everything before writing, so the styles are only computed once
+	const elements = Array.from(root.querySelectorAll("*"));
+	const styles = elements.map((element) => ({ element, values: getValues(element), baseline: getBaseline(element.tagName) }));
+	for (const { element, values, baseline } of styles) {
+		for (const [name, value] of Object.entries(values)) {
+			if (value && value !== baseline[name]) {
+				element.setAttribute(STYLE_ATTRIBUTES[name] ?? name, value);
+			}
+		}
+	}
+}
+
+/**
+ * Copy the rendered radar into a standalone SVG
+ * @param source - The SVG element of a RadarRenderer
+ * @param options.legend - Draw the legend next to the radar (default true)
+ */
+export function buildExportSvg(
+	source: SVGSVGElement,
+	radarData: RadarData,
+	palette: ExportPalette,
+	options: { legend?: boolean } = {}
+): ExportedSvg {
+	const { viewBoxSize } = SVG_CONFIG;
+	// Numbered blips get a numbered list in the legend
+	const numbered = source.querySelector(".radar-blip-number") !== null;
+	const legend = options.legend === false ? null : createLegend(radarData, palette, numbered);
+	const width = viewBoxSize + (legend ? LEGEND_WIDTH : 0);
+	const height = Math.max(viewBoxSize, legend?.height ?? 0);
+
+	const svg = createSvgElement("svg", {
+		viewBox: `0 0 ${width} ${height}`,
+		width,
+		height,
+		"font-family": FONT_FAMILY,
+	});
+	svg.appendChild(createSvgElement("rect", { x: 0, y: 0, width, height, fill: palette.background }));
+
+	// Copy the radar content without the view transform or interaction state
+	const radar = createGroup("radar-export");
+	for (const child of Array.from(source.children)) {
+		radar.appendChild(child.cloneNode(true));
+	}
+	// Drop the drag target and rubber band; trails and compare markers stay as on screen
+	radar.querySelectorAll(".radar-drop-target, .radar-selection-rect").forEach((element) => element.remove());
+	radar.querySelectorAll(".radar-blip, .radar-blip-trail").forEach((element) => {
+		element.classList.remove("selected", "dragging");
+		element.removeAttribute("tabindex");
+	});
+	svg.appendChild(radar);
+
+	// Let styles.css style the copy with the palette for theme colors, off screen
+	const stage = source.doc.body.createDiv({ cls: "radar-export-stage" });
+	stage.setCssProps(getThemeVariables(palette));
+	stage.appendChild(svg);
+	try {
+		inlineStyles(radar);
+	} finally {
+		svg.remove();
+		stage.remove();
+	}
+
+	if (legend) {
+		legend.group.setAttribute("transform", `translate(${viewBoxSize},0)`);
+		svg.appendChild(legend.group);
+	}
+
+	return { svg, width, height };
+}
+
+/**
+ * Legend listing the rings (innermost first) and the segments with their colors,
+ * and the numbered blips when the radar shows numbers instead of titles
+ */
+function createLegend(
+	radarData: RadarData,
+	palette: ExportPalette,
+	numbered: boolean
+): { group: SVGGElement; height: number } | null {
+	const priorities = sortPriorities(radarData.priorityLevels).filter((p) => p.name);
+	const categories = sortCategories(radarData.categories);
+	const blips = numbered ? radarData.blips : [];
+	if (priorities.length === 0 && categories.length === 0 && blips.length === 0) {
+		return null;
+	}
+
+	const group = createGroup("radar-export-legend");
+	let y = LEGEND_PADDING;
+
+	const addHeading = (text: string) => {
+		y += LEGEND_LINE_HEIGHT;
+		group.appendChild(createText(LEGEND_PADDING, y, text, undefined, {
+			"font-size": 13,
+			"font-weight": 600,
+			fill: palette.text,
+		}));
+	};
+
+	const addItem = (text: string, swatchColor?: string) => {
+		y += LEGEND_LINE_HEIGHT;
+		let textX = LEGEND_PADDING;
+		if (swatchColor) {
+			group.appendChild(createSvgElement("rect", {
+				x: LEGEND_PADDING,
+				y: y - LEGEND_SWATCH_SIZE + 2,
+				width: LEGEND_SWATCH_SIZE,
+				height: LEGEND_SWATCH_SIZE,
+				rx: 2,
+				fill: swatchColor,
+			}));
+			textX += LEGEND_SWATCH_SIZE + 8;
+		}
+		group.appendChild(createText(textX, y, text, undefined, { "font-size": 12, fill: palette.mutedText }));
+	};
+
+	if (priorities.length > 0) {
+		addHeading("Rings");
+		priorities.forEach((priority, index) => addItem(`${index + 1}. ${priority.name}`));
+		y += LEGEND_LINE_HEIGHT / 2;
+	}
+
+	if (categories.length > 0) {
+		addHeading("Segments");
+		for (const category of categories) {
+			addItem(category.name || "Unnamed", category.color ?? palette.border);
+		}
+		y += LEGEND_LINE_HEIGHT / 2;
+	}
+
+	if (blips.length > 0) {
+		addHeading("Blips");
+		const numbers = getBlipNumbers(radarData);
+		const sorted = [...blips].sort((a, b) => (numbers.get(a.id) ?? 0) - (numbers.get(b.id) ?? 0));
+		for (const blip of sorted) {
+			addItem(truncateLabel(`${numbers.get(blip.id) ?? ""}. ${blip.title}`, LEGEND_TEXT_WIDTH));
+		}
+	}
+
+	return { group, height: y + LEGEND_PADDING };
+}
+
+/**
+ * Serialize an exported SVG to file contents
+ */
+export function serializeSvg(svg: SVGSVGElement): string {
+	return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}\n`;
+}
+
+/**
+ * Rasterize SVG markup to PNG
+ * @param scale - Pixel density, 2 keeps text sharp on slides
+ */
+export async function svgToPng(markup: string, width: number, height: number, scale = 2): Promise<ArrayBuffer> {
+	const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml" }));
+	try {
+		const image = new Image();
+		await new Promise<void>((resolve, reject) => {
+			image.onload = () => resolve();
+			image.onerror = () => reject(new Error("Could not load the SVG image"));
+			image.src = url;
+		});
+
+		const canvas = document.createElement("canvas");
+		canvas.width = width * scale;
+		canvas.height = height * scale;
+		const context = canvas.getContext("2d");
+		if (!context) {
+			throw new Error("Canvas is not available");
+		}
+		context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+		const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/png"));
+		if (!blob) {
+			throw new Error("Could not encode the PNG image");
+		}
+		return await blob.arrayBuffer();
+	} finally {
+		URL.revokeObjectURL(url);
+	}
+}
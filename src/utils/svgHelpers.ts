@@ -3,6 +3,8 @@
  * Utilities for creating SVG elements
  */
 
+import { polarToCartesian } from "./polarCoordinates";
+
 const SVG_NS = "http://www.w3.org/2000/svg";
 
 /**
@@ -108,6 +110,76 @@ export function createGroup(
 	});
 }
 
+/**
+ * Create a path element
+ */
+export function createPath(
+	d: string,
+	className?: string,
+	attributes?: Record<string, string | number>
+): SVGPathElement {
+	return createSvgElement("path", {
+		d,
+		...(className && { class: className }),
+		...attributes,
+	});
+}
+
+/**
+ * Build the path data for an annular sector (a wedge when innerRadius is 0)
+ * @param innerRadius - Inner radius in pixels
+ * @param outerRadius - Outer radius in pixels
+ * @param startAngle - Start angle in degrees (counterclockwise from positive x-axis)
+ * @param endAngle - End angle in degrees, greater than startAngle
+ */
+export function describeSector(
+	cx: number,
+	cy: number,
+	innerRadius: number,
+	outerRadius: number,
+	startAngle: number,
+	endAngle: number
+): string {
+	// A full turn cannot be drawn as a single arc, split it in two halves
+	if (endAngle - startAngle >= 360) {
+		const half = startAngle + 180;
+		return [
+			describeSector(cx, cy, innerRadius, outerRadius, startAngle, half),
+			describeSector(cx, cy, innerRadius, outerRadius, half, startAngle + 360),
+		].join(" ");
+	}
+
+	const largeArc = endAngle - startAngle > 180 ? 1 : 0;
+	const outerStart = polarToCartesian(1, startAngle, outerRadius);
+	const outerEnd = polarToCartesian(1, endAngle, outerRadius);
+	const innerStart = polarToCartesian(1, startAngle, innerRadius);
+	const innerEnd = polarToCartesian(1, endAngle, innerRadius);
+
+	// Angles grow counterclockwise on screen, which is sweep-flag 0 in SVG
+	return [
+		`M ${cx + innerStart.x} ${cy + innerStart.y}`,
+		`L ${cx + outerStart.x} ${cy + outerStart.y}`,
+		`A ${outerRadius} ${outerRadius} 0 ${largeArc} 0 ${cx + outerEnd.x} ${cy + outerEnd.y}`,
+		`L ${cx + innerEnd.x} ${cy + innerEnd.y}`,
+		innerRadius > 0
+			? `A ${innerRadius} ${innerRadius} 0 ${largeArc} 1 ${cx + innerStart.x} ${cy + innerStart.y}`
+			: "",
+		"Z",
+	].filter(Boolean).join(" ");
+}
+
+/**
+ * Build the path data for an open arc (less than a full turn)
+ * @param startAngle - Start angle in degrees (counterclockwise from positive x-axis)
+ * @param endAngle - End angle in degrees, greater than startAngle
+ */
+export function describeArc(cx: number, cy: number, radius: number, startAngle: number, endAngle: number): string {
+	const largeArc = endAngle - startAngle > 180 ? 1 : 0;
+	const start = polarToCartesian(1, startAngle, radius);
+	const end = polarToCartesian(1, endAngle, radius);
+	return `M ${cx + start.x} ${cy + start.y} A ${radius} ${radius} 0 ${largeArc} 0 ${cx + end.x} ${cy + end.y}`;
+}
+
 /**
  * Set multiple attributes on an element
  */